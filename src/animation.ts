@@ -1,13 +1,17 @@
 import { Point, AnimationState, BezierCurve } from './types';
-import { evaluateBezier } from './bezier';
+import { ArcLengthTable, buildArcLengthTable, evaluateBezier, getTAtArcLength } from './bezier';
+import { evaluateCurve, getCurveArcLengthTable } from './spline';
 
 export class AnimationManager {
   private state: AnimationState = {
     isAnimating: false,
     progress: 0,
     speed: 0.005,
+    constantSpeed: false,
   };
   private onUpdate: () => void;
+  // Arc-length tables keyed on the serialized curve so edits invalidate them
+  private arcLengthCache = new Map<string, ArcLengthTable>();
 
   constructor(onUpdate: () => void) {
     this.onUpdate = onUpdate;
@@ -44,9 +48,18 @@ export class AnimationManager {
   };
 
   getAnimatedPoint(points: Point[], t?: number): Point | null {
-    const useT = t !== undefined ? t : this.state.progress;
     if (t === undefined && !this.state.isAnimating) return null;
     if (points.length < 2) return null;
+
+    let useT = t;
+    if (useT === undefined) {
+      useT = this.state.constantSpeed
+        ? getTAtArcLength(
+            this.getCachedTable(JSON.stringify(points), () => buildArcLengthTable(points)),
+            this.state.progress
+          )
+        : this.state.progress;
+    }
     return evaluateBezier(points, useT);
   }
 
@@ -56,8 +69,8 @@ export class AnimationManager {
     if (!this.state.isAnimating) return animatedPoints;
 
     for (const curve of curves) {
-      if (curve.points.length >= 2) {
-        const point = evaluateBezier(curve.points, this.state.progress);
+      const point = evaluateCurve(curve, this.getCurveParameter(curve));
+      if (point) {
         animatedPoints.set(curve.id, point);
       }
     }
@@ -65,6 +78,30 @@ export class AnimationManager {
     return animatedPoints;
   }
 
+  // Curve-wide t the animation is at; differs from progress in constant-speed mode
+  getCurveParameter(curve: BezierCurve): number {
+    if (!this.state.constantSpeed) return this.state.progress;
+    return getTAtArcLength(this.getArcLengthTable(curve), this.state.progress);
+  }
+
+  getArcLengthTable(curve: BezierCurve): ArcLengthTable {
+    const { id: _id, color: _color, ...geometry } = curve;
+    return this.getCachedTable(JSON.stringify(geometry), () => getCurveArcLengthTable(curve));
+  }
+
+  private getCachedTable(key: string, build: () => ArcLengthTable): ArcLengthTable {
+    let table = this.arcLengthCache.get(key);
+    if (!table) {
+      // Edited curves leave stale entries behind, so keep the cache small
+      if (this.arcLengthCache.size >= 64) {
+        this.arcLengthCache.clear();
+      }
+      table = build();
+      this.arcLengthCache.set(key, table);
+    }
+    return table;
+  }
+
   isAnimating(): boolean {
     return this.state.isAnimating;
   }
@@ -77,6 +114,14 @@ export class AnimationManager {
     return this.state.speed;
   }
 
+  setConstantSpeed(constantSpeed: boolean) {
+    this.state.constantSpeed = constantSpeed;
+  }
+
+  isConstantSpeed(): boolean {
+    return this.state.constantSpeed;
+  }
+
   getProgress(): number {
     return this.state.progress;
   }
@@ -0,0 +1,166 @@
+import { BezierCurve, Point } from './types';
+import { getCurveBasis, getSegmentDegree, isSpline } from './spline';
+import { getBSplineDegree, isBSpline } from './bspline';
+
+const PLOT_SAMPLES = 120;
+const PADDING = 14;
+// How close (in basis value, 0 to 1) the mouse must be to a basis curve to hover it
+const HOVER_THRESHOLD = 0.08;
+
+// Told which control point's basis function the mouse is over; null once it is over none
+export type BasisHoverHandler = (pointIndex: number | null) => void;
+
+// One hue per control point, shared by the plot and the contributions on the main canvas
+export function getBasisColor(index: number, count: number, alpha = 1): string {
+  const hue = Math.round((index * 300) / Math.max(count - 1, 1));
+  return `hsla(${hue}, 80%, 60%, ${alpha})`;
+}
+
+function getBasisLabel(curve: BezierCurve): string {
+  if (isBSpline(curve)) return `N_i,${getBSplineDegree(curve)}(t)`;
+  if (isSpline(curve)) return `B_i,${getSegmentDegree(curve)}(t) per segment`;
+  return `B_i,${curve.points.length - 1}(t)`;
+}
+
+// Secondary plot of the basis functions of the active curve: how much each control
+// point pulls on the curve point at every t
+export class BasisPlot {
+  private ctx: CanvasRenderingContext2D;
+  private canvas: HTMLCanvasElement;
+  private curve: BezierCurve | null = null;
+  private hoveredIndex: number | null = null;
+  private hoverHandler: BasisHoverHandler | null = null;
+
+  constructor(canvas: HTMLCanvasElement) {
+    this.canvas = canvas;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+    this.ctx = ctx;
+
+    this.canvas.addEventListener('mousemove', this.handleMouseMove);
+    this.canvas.addEventListener('mouseleave', this.handleMouseLeave);
+  }
+
+  setHoverHandler(handler: BasisHoverHandler | null) {
+    this.hoverHandler = handler;
+  }
+
+  render(curve: BezierCurve | null, t: number) {
+    const { width, height } = this.canvas;
+    this.curve = curve;
+    this.ctx.clearRect(0, 0, width, height);
+    this.ctx.fillStyle = 'rgba(26, 26, 26, 0.9)';
+    this.ctx.fillRect(0, 0, width, height);
+
+    this.drawLine(this.toCanvas(0, 0), this.toCanvas(1, 0), '#444');
+    this.drawLine(this.toCanvas(0, 0), this.toCanvas(0, 1), '#444');
+
+    if (!curve || curve.points.length < 2) {
+      this.drawLabel('Add points to see the basis', { x: PADDING, y: height / 2 }, '#666');
+      return;
+    }
+
+    const samples: number[][] = [];
+    for (let i = 0; i <= PLOT_SAMPLES; i++) {
+      samples.push(getCurveBasis(curve, i / PLOT_SAMPLES));
+    }
+
+    const count = curve.points.length;
+    for (let index = 0; index < count; index++) {
+      const hovered = index === this.hoveredIndex;
+      this.ctx.strokeStyle = getBasisColor(index, count, hovered ? 1 : 0.6);
+      this.ctx.lineWidth = hovered ? 3 : 1.5;
+      this.ctx.beginPath();
+      samples.forEach((basis, i) => {
+        const point = this.toCanvas(i / PLOT_SAMPLES, basis[index]);
+        if (i === 0) this.ctx.moveTo(point.x, point.y);
+        else this.ctx.lineTo(point.x, point.y);
+      });
+      this.ctx.stroke();
+    }
+
+    // Marker at the current t, with the value of each basis function there
+    this.drawLine(this.toCanvas(t, 0), this.toCanvas(t, 1), '#ff4a4a');
+    getCurveBasis(curve, t).forEach((value, index) => {
+      if (value <= 0) return;
+      const point = this.toCanvas(t, value);
+      this.ctx.fillStyle = getBasisColor(index, count);
+      this.ctx.beginPath();
+      this.ctx.arc(point.x, point.y, 3, 0, Math.PI * 2);
+      this.ctx.fill();
+    });
+
+    this.drawLabel(getBasisLabel(curve), { x: PADDING, y: PADDING - 2 }, '#aaa');
+    this.drawLabel(`t=${t.toFixed(2)}`, { x: width - PADDING - 40, y: PADDING - 2 }, '#aaa');
+  }
+
+  // Index of the control point whose basis function passes closest to pos, if close enough
+  getIndexAt(pos: Point): number | null {
+    if (!this.curve || this.curve.points.length < 2) return null;
+
+    const { t, value } = this.fromCanvas(pos);
+    if (t < 0 || t > 1) return null;
+
+    let closest: number | null = null;
+    let closestDistance = HOVER_THRESHOLD;
+    getCurveBasis(this.curve, t).forEach((basisValue, index) => {
+      const distance = Math.abs(basisValue - value);
+      if (distance < closestDistance) {
+        closest = index;
+        closestDistance = distance;
+      }
+    });
+    return closest;
+  }
+
+  private handleMouseMove = (e: MouseEvent) => {
+    const rect = this.canvas.getBoundingClientRect();
+    this.setHoveredIndex(this.getIndexAt({ x: e.clientX - rect.left, y: e.clientY - rect.top }));
+  };
+
+  private handleMouseLeave = () => {
+    this.setHoveredIndex(null);
+  };
+
+  private setHoveredIndex(index: number | null) {
+    if (index === this.hoveredIndex) return;
+    this.hoveredIndex = index;
+    this.hoverHandler?.(index);
+  }
+
+  private toCanvas(t: number, value: number): Point {
+    const { width, height } = this.canvas;
+    return {
+      x: PADDING + t * (width - 2 * PADDING),
+      y: height - PADDING - value * (height - 3 * PADDING),
+    };
+  }
+
+  private fromCanvas(pos: Point): { t: number; value: number } {
+    const { width, height } = this.canvas;
+    return {
+      t: (pos.x - PADDING) / (width - 2 * PADDING),
+      value: (height - PADDING - pos.y) / (height - 3 * PADDING),
+    };
+  }
+
+  private drawLine(from: Point, to: Point, color: string) {
+    this.ctx.strokeStyle = color;
+    this.ctx.lineWidth = 1;
+    this.ctx.beginPath();
+    this.ctx.moveTo(from.x, from.y);
+    this.ctx.lineTo(to.x, to.y);
+    this.ctx.stroke();
+  }
+
+  private drawLabel(text: string, at: Point, color: string) {
+    this.ctx.fillStyle = color;
+    this.ctx.font = '11px system-ui, sans-serif';
+    this.ctx.fillText(text, at.x, at.y);
+  }
+
+  destroy() {
+    this.canvas.removeEventListener('mousemove', this.handleMouseMove);
+    this.canvas.removeEventListener('mouseleave', this.handleMouseLeave);
+  }
+}
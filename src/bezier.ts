@@ -1,30 +1,281 @@
 import { Point } from './types';
 
+export function getWeight(point: Point): number {
+  return point.weight ?? 1;
+}
+
+// A curve is rational as soon as one control point carries a weight other than 1
+export function isRational(points: Point[]): boolean {
+  return points.some(p => getWeight(p) !== 1);
+}
+
+function lerpPoint(a: Point, b: Point, t: number): Point {
+  return {
+    x: (1 - t) * a.x + t * b.x,
+    y: (1 - t) * a.y + t * b.y,
+  };
+}
+
+// Interpolate in homogeneous coordinates (wx, wy, w) and project back
+function lerpHomogeneous(a: Point, b: Point, t: number): Point {
+  const wa = getWeight(a);
+  const wb = getWeight(b);
+  const w = (1 - t) * wa + t * wb;
+  return {
+    x: ((1 - t) * wa * a.x + t * wb * b.x) / w,
+    y: ((1 - t) * wa * a.y + t * wb * b.y) / w,
+    weight: w,
+  };
+}
+
+// Scratch space for in-place de Casteljau, grown to fit the largest curve seen so far
+let scratch = new Float64Array(3 * 16);
+
+function getScratch(length: number): Float64Array {
+  if (scratch.length < length) {
+    scratch = new Float64Array(Math.max(length, 2 * scratch.length));
+  }
+  return scratch;
+}
+
+// de Casteljau in homogeneous coordinates (wx, wy, w), each level overwriting the one
+// before it in the scratch buffer. O(n²) per point, but stable for any degree and exact
+// for rational curves.
+function evaluateDeCasteljau(points: Point[], t: number): Point {
+  const n = points.length;
+  const buffer = getScratch(3 * n);
+  for (let i = 0; i < n; i++) {
+    const w = getWeight(points[i]);
+    buffer[3 * i] = points[i].x * w;
+    buffer[3 * i + 1] = points[i].y * w;
+    buffer[3 * i + 2] = w;
+  }
+
+  const s = 1 - t;
+  for (let level = n - 1; level > 0; level--) {
+    for (let j = 0; j < 3 * level; j++) {
+      buffer[j] = s * buffer[j] + t * buffer[j + 3];
+    }
+  }
+  return { x: buffer[0] / buffer[2], y: buffer[1] / buffer[2] };
+}
+
+// Bernstein form evaluated Horner-style in O(n): every step scales the running sum by
+// (1 - t) and adds the next term C(n, i) t^i P[i]. Polynomial curves only.
+function evaluateHorner(points: Point[], t: number): Point {
+  const n = points.length - 1;
+  const s = 1 - t;
+  let power = 1;
+  let coefficient = 1;
+  let x = points[0].x * s;
+  let y = points[0].y * s;
+  for (let i = 1; i < n; i++) {
+    power *= t;
+    coefficient = (coefficient * (n - i + 1)) / i;
+    x = (x + coefficient * power * points[i].x) * s;
+    y = (y + coefficient * power * points[i].y) * s;
+  }
+  power *= t;
+  return { x: x + power * points[n].x, y: y + power * points[n].y };
+}
+
 export function evaluateBezier(points: Point[], t: number): Point {
   if (points.length === 0) return { x: 0, y: 0 };
   if (points.length === 1) return points[0];
+  return evaluateDeCasteljau(points, t);
+}
 
-  const newPoints: Point[] = [];
-  for (let i = 0; i < points.length - 1; i++) {
-    newPoints.push({
-      x: (1 - t) * points[i].x + t * points[i + 1].x,
-      y: (1 - t) * points[i].y + t * points[i + 1].y,
-    });
+// Curve points at many parameters at once, for sampling every frame. Polynomial curves
+// take the O(n) Horner path and rational ones in-place de Casteljau; apart from the
+// returned points nothing is allocated.
+export function evaluateMany(points: Point[], ts: ArrayLike<number>): Point[] {
+  const result: Point[] = new Array(ts.length);
+  if (points.length < 2) {
+    const { x, y } = points[0] ?? { x: 0, y: 0 };
+    for (let i = 0; i < ts.length; i++) result[i] = { x, y };
+    return result;
   }
 
-  return evaluateBezier(newPoints, t);
+  const evaluate = isRational(points) ? evaluateDeCasteljau : evaluateHorner;
+  for (let i = 0; i < ts.length; i++) {
+    result[i] = evaluate(points, ts[i]);
+  }
+  return result;
+}
+
+// count + 1 parameters spread evenly over [0, 1]
+export function getUniformTs(count: number): Float64Array {
+  const ts = new Float64Array(count + 1);
+  for (let i = 0; i <= count; i++) {
+    ts[i] = i / count;
+  }
+  return ts;
 }
 
 export function getBezierPath(points: Point[], segments = 100): Point[] {
-  const path: Point[] = [];
-  for (let i = 0; i <= segments; i++) {
-    const t = i / segments;
-    path.push(evaluateBezier(points, t));
+  return evaluateMany(points, getUniformTs(segments));
+}
+
+// How far (in pixels) a flattened polyline may stray from the true curve
+export const DEFAULT_FLATNESS_TOLERANCE = 0.25;
+const MAX_FLATTEN_DEPTH = 16;
+const FLATTEN_CACHE_LIMIT = 256;
+
+// Polyline approximation of a curve; ts holds the curve parameter of each point.
+// Results are cached and shared, so callers must not mutate them
+export interface FlattenedPath {
+  points: readonly Point[];
+  ts: readonly number[];
+}
+
+const flattenCache = new Map<string, FlattenedPath>();
+
+// Closest point to p on the segment ab, as a fraction along ab and a distance
+export function projectOntoSegment(p: Point, a: Point, b: Point): { u: number; distance: number } {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const u =
+    lengthSquared > 0
+      ? Math.min(Math.max(((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared, 0), 1)
+      : 0;
+  return { u, distance: Math.hypot(a.x + u * dx - p.x, a.y + u * dy - p.y) };
+}
+
+// The curve lies in the convex hull of its control points (weights are positive),
+// so once every control point is within tolerance of the chord the chord will do
+export function isFlatEnough(points: Point[], tolerance: number): boolean {
+  const first = points[0];
+  const last = points[points.length - 1];
+  return points.slice(1, -1).every(p => projectOntoSegment(p, first, last).distance <= tolerance);
+}
+
+function flattenInto(
+  points: Point[],
+  t0: number,
+  t1: number,
+  tolerance: number,
+  depth: number,
+  path: { points: Point[]; ts: number[] }
+) {
+  if (depth >= MAX_FLATTEN_DEPTH || isFlatEnough(points, tolerance)) {
+    const { x, y } = points[points.length - 1];
+    path.points.push({ x, y });
+    path.ts.push(t1);
+    return;
   }
+
+  const [left, right] = splitBezier(points, 0.5);
+  const mid = (t0 + t1) / 2;
+  flattenInto(left, t0, mid, tolerance, depth + 1, path);
+  flattenInto(right, mid, t1, tolerance, depth + 1, path);
+}
+
+// Adaptive subdivision: flat stretches get few points, tight bends get many
+export function flattenBezier(
+  points: Point[],
+  tolerance = DEFAULT_FLATNESS_TOLERANCE
+): FlattenedPath {
+  if (points.length === 0) return { points: [], ts: [] };
+
+  const key = `${tolerance}|${JSON.stringify(points)}`;
+  const cached = flattenCache.get(key);
+  if (cached) return cached;
+
+  const { x, y } = points[0];
+  const path = { points: [{ x, y }], ts: [0] };
+  if (points.length > 1) {
+    flattenInto(points, 0, 1, tolerance, 0, path);
+  }
+
+  // Evict the oldest entry so curves being dragged around don't grow the cache
+  if (flattenCache.size >= FLATTEN_CACHE_LIMIT) {
+    flattenCache.delete(flattenCache.keys().next().value!);
+  }
+  flattenCache.set(key, path);
   return path;
 }
 
+// Point on a flattened path closest to pos, with its interpolated curve parameter
+export function getClosestPathPoint(
+  path: FlattenedPath,
+  pos: Point
+): { t: number; distance: number } | null {
+  if (path.points.length === 0) return null;
+  if (path.points.length === 1) {
+    const p = path.points[0];
+    return { t: path.ts[0], distance: Math.hypot(p.x - pos.x, p.y - pos.y) };
+  }
+
+  let best: { t: number; distance: number } | null = null;
+  for (let i = 0; i < path.points.length - 1; i++) {
+    const { u, distance } = projectOntoSegment(pos, path.points[i], path.points[i + 1]);
+    if (!best || distance < best.distance) {
+      best = { t: path.ts[i] + u * (path.ts[i + 1] - path.ts[i]), distance };
+    }
+  }
+  return best;
+}
+
+export interface Projection {
+  t: number;
+  point: Point;
+  distance: number;
+}
+
+const GOLDEN_RATIO = (Math.sqrt(5) - 1) / 2;
+const PROJECTION_ITERATIONS = 50;
+
+// Closest point on the curve to pos. The nearest chord of the flattened path gives a
+// starting t, which a golden-section search over the neighbouring chords then refines
+export function projectPoint(points: Point[], pos: Point): Projection | null {
+  if (points.length === 0) return null;
+
+  const distanceAt = (t: number) => {
+    const p = evaluateBezier(points, t);
+    return Math.hypot(p.x - pos.x, p.y - pos.y);
+  };
+  const project = (t: number): Projection => {
+    const { x, y } = evaluateBezier(points, t);
+    return { t, point: { x, y }, distance: Math.hypot(x - pos.x, y - pos.y) };
+  };
+  if (points.length === 1) return project(0);
+
+  const path = flattenBezier(points);
+  const coarse = getClosestPathPoint(path, pos)!;
+  let chord = 0;
+  while (chord < path.ts.length - 2 && path.ts[chord + 1] <= coarse.t) chord++;
+
+  let low = path.ts[Math.max(chord - 1, 0)];
+  let high = path.ts[Math.min(chord + 2, path.ts.length - 1)];
+  let a = high - GOLDEN_RATIO * (high - low);
+  let b = low + GOLDEN_RATIO * (high - low);
+  let distanceA = distanceAt(a);
+  let distanceB = distanceAt(b);
+  for (let i = 0; i < PROJECTION_ITERATIONS; i++) {
+    if (distanceA < distanceB) {
+      high = b;
+      b = a;
+      distanceB = distanceA;
+      a = high - GOLDEN_RATIO * (high - low);
+      distanceA = distanceAt(a);
+    } else {
+      low = a;
+      a = b;
+      distanceA = distanceB;
+      b = low + GOLDEN_RATIO * (high - low);
+      distanceB = distanceAt(b);
+    }
+  }
+
+  // The bracket need not be unimodal, so keep the coarse answer if it was better
+  const refined = project((low + high) / 2);
+  const fallback = project(coarse.t);
+  return refined.distance <= fallback.distance ? refined : fallback;
+}
+
 export function getDeCasteljauLevels(points: Point[], t: number): Point[][] {
+  const lerp = isRational(points) ? lerpHomogeneous : lerpPoint;
   const levels: Point[][] = [];
   let currentLevel = points;
   levels.push([...currentLevel]);
@@ -32,10 +283,7 @@ export function getDeCasteljauLevels(points: Point[], t: number): Point[][] {
   while (currentLevel.length > 1) {
     const nextLevel: Point[] = [];
     for (let i = 0; i < currentLevel.length - 1; i++) {
-      nextLevel.push({
-        x: (1 - t) * currentLevel[i].x + t * currentLevel[i + 1].x,
-        y: (1 - t) * currentLevel[i].y + t * currentLevel[i + 1].y,
-      });
+      nextLevel.push(lerp(currentLevel[i], currentLevel[i + 1], t));
     }
     levels.push([...nextLevel]);
     currentLevel = nextLevel;
@@ -44,25 +292,793 @@ export function getDeCasteljauLevels(points: Point[], t: number): Point[][] {
   return levels;
 }
 
-export function exportToSVG(points: Point[], width: number, height: number) {
-  if (points.length < 2) return '';
+// Cumulative chord lengths of a path sampled at uniform t, used to map between
+// the parameter t and the distance s travelled along the curve
+export interface ArcLengthTable {
+  ts: number[];
+  lengths: number[];
+  total: number;
+}
+
+export function buildArcLengthTableFromPath(path: Point[]): ArcLengthTable {
+  const segments = Math.max(path.length - 1, 1);
+  const ts: number[] = [];
+  const lengths: number[] = [];
+  let total = 0;
+
+  path.forEach((point, i) => {
+    if (i > 0) {
+      total += Math.hypot(point.x - path[i - 1].x, point.y - path[i - 1].y);
+    }
+    ts.push(i / segments);
+    lengths.push(total);
+  });
+
+  return { ts, lengths, total };
+}
+
+export function buildArcLengthTable(points: Point[], samples = 200): ArcLengthTable {
+  return buildArcLengthTableFromPath(getBezierPath(points, samples));
+}
+
+// Parameter t at which a fraction (0..1) of the total length has been travelled
+export function getTAtArcLength(table: ArcLengthTable, fraction: number): number {
+  const { ts, lengths, total } = table;
+  if (total < 1e-9 || ts.length < 2) return Math.min(Math.max(fraction, 0), 1);
+
+  const target = Math.min(Math.max(fraction, 0), 1) * total;
+  let low = 0;
+  let high = lengths.length - 1;
+  while (high - low > 1) {
+    const mid = (low + high) >> 1;
+    if (lengths[mid] < target) low = mid;
+    else high = mid;
+  }
+
+  const span = lengths[high] - lengths[low];
+  const ratio = span > 0 ? (target - lengths[low]) / span : 0;
+  return ts[low] + ratio * (ts[high] - ts[low]);
+}
+
+// Fraction (0..1) of the total length travelled at parameter t
+export function getArcLengthAtT(table: ArcLengthTable, t: number): number {
+  const { ts, lengths, total } = table;
+  if (total < 1e-9 || ts.length < 2) return Math.min(Math.max(t, 0), 1);
 
-  let pathData = `M ${points[0].x} ${points[0].y}`;
+  const position = Math.min(Math.max(t, 0), 1) * (ts.length - 1);
+  const index = Math.min(Math.floor(position), ts.length - 2);
+  const ratio = position - index;
+  return (lengths[index] + ratio * (lengths[index + 1] - lengths[index])) / total;
+}
+
+// Subdivide at t: the left and right edges of the de Casteljau triangle are the
+// control points of the two halves, so both reproduce the original curve exactly
+export function splitBezier(points: Point[], t: number): [Point[], Point[]] {
+  const levels = getDeCasteljauLevels(points, t);
+  const left = levels.map(level => level[0]);
+  const right = levels.map(level => level[level.length - 1]).reverse();
+  return [left, right];
+}
+
+function binomial(n: number, k: number): number {
+  let result = 1;
+  for (let i = 1; i <= k; i++) {
+    result = (result * (n - k + i)) / i;
+  }
+  return result;
+}
+
+function bernstein(i: number, n: number, t: number): number {
+  return binomial(n, i) * Math.pow(t, i) * Math.pow(1 - t, n - i);
+}
+
+// Share of the curve point at t that each control point contributes: the Bernstein
+// polynomials B_i,n(t), scaled by the weights and renormalized for rational curves
+export function getBernsteinBasis(points: Point[], t: number): number[] {
+  const n = points.length - 1;
+  const weighted = points.map((point, i) => getWeight(point) * bernstein(i, n, t));
+  const total = weighted.reduce((sum, value) => sum + value, 0);
+  return weighted.map(value => (total > 0 ? value / total : 0));
+}
+
+// Homogeneous control point (wx, wy, w)
+type Homogeneous = [number, number, number];
+
+function toHomogeneous(point: Point): Homogeneous {
+  const w = getWeight(point);
+  return [point.x * w, point.y * w, w];
+}
+
+function fromHomogeneous([x, y, w]: Homogeneous, rational: boolean): Point {
+  return rational ? { x: x / w, y: y / w, weight: w } : { x: x / w, y: y / w };
+}
 
+function evaluateHomogeneous(points: Homogeneous[], t: number): Homogeneous {
+  const n = points.length - 1;
+  const value: Homogeneous = [0, 0, 0];
+  points.forEach((p, i) => {
+    const b = bernstein(i, n, t);
+    value[0] += p[0] * b;
+    value[1] += p[1] * b;
+    value[2] += p[2] * b;
+  });
+  return value;
+}
+
+// Control points of the derivative curve: n * (P[i+1] - P[i])
+function differentiate(points: Homogeneous[]): Homogeneous[] {
+  const n = points.length - 1;
+  return points
+    .slice(1)
+    .map((p, i) => [
+      n * (p[0] - points[i][0]),
+      n * (p[1] - points[i][1]),
+      n * (p[2] - points[i][2]),
+    ]);
+}
+
+// Position and first two derivatives at t. In homogeneous form C = X / W, so by the
+// quotient rule C' = (X' - C W') / W and C'' = (X'' - 2 C' W' - C W'') / W
+function getDerivatives(points: Point[], t: number): [Point, Point, Point] {
+  const zero: Point = { x: 0, y: 0 };
+  if (points.length === 0) return [zero, zero, zero];
+
+  const lifted = points.map(toHomogeneous);
+  const first = points.length > 1 ? differentiate(lifted) : [];
+  const second = first.length > 1 ? differentiate(first) : [];
+
+  const [x, y, w] = evaluateHomogeneous(lifted, t);
+  const [dx, dy, dw] = first.length > 0 ? evaluateHomogeneous(first, t) : [0, 0, 0];
+  const [ddx, ddy, ddw] = second.length > 0 ? evaluateHomogeneous(second, t) : [0, 0, 0];
+
+  const c = { x: x / w, y: y / w };
+  const d1 = { x: (dx - c.x * dw) / w, y: (dy - c.y * dw) / w };
+  const d2 = {
+    x: (ddx - 2 * d1.x * dw - c.x * ddw) / w,
+    y: (ddy - 2 * d1.y * dw - c.y * ddw) / w,
+  };
+  return [c, d1, d2];
+}
+
+export function getDerivative(points: Point[], t: number): Point {
+  return getDerivatives(points, t)[1];
+}
+
+export function getSecondDerivative(points: Point[], t: number): Point {
+  return getDerivatives(points, t)[2];
+}
+
+// Signed curvature: positive where the curve turns towards its normal (left of travel
+// in maths axes, right on screen where y points down). 0 where the velocity vanishes.
+export function getCurvature(points: Point[], t: number): number {
+  const [, d1, d2] = getDerivatives(points, t);
+  const speed = Math.hypot(d1.x, d1.y);
+  if (speed < 1e-9) return 0;
+  return (d1.x * d2.y - d1.y * d2.x) / (speed * speed * speed);
+}
+
+// Unit tangent at t, or (0, 0) where the velocity vanishes
+export function getTangent(points: Point[], t: number): Point {
+  const d1 = getDerivative(points, t);
+  const speed = Math.hypot(d1.x, d1.y);
+  return speed < 1e-9 ? { x: 0, y: 0 } : { x: d1.x / speed, y: d1.y / speed };
+}
+
+// Unit normal: the tangent turned a quarter towards positive curvature
+export function getNormal(points: Point[], t: number): Point {
+  const tangent = getTangent(points, t);
+  return { x: -tangent.y, y: tangent.x };
+}
+
+// Hodograph: the derivative C'(t) as a curve of its own, one degree lower with control
+// points n * (P[i+1] - P[i]). Only polynomial curves have one; the derivative of a
+// rational curve is not a Bezier curve of that form, so this returns null for them.
+export function getHodograph(points: Point[]): Point[] | null {
+  if (points.length < 2 || isRational(points)) return null;
+  return differentiate(points.map(toHomogeneous)).map(([x, y]) => ({ x, y }));
+}
+
+// Same curve with one more control point
+export function elevateDegree(points: Point[]): Point[] {
+  if (points.length < 2) return points.map(p => ({ ...p }));
+
+  const rational = isRational(points);
+  const lifted = points.map(toHomogeneous);
+  const n = points.length - 1;
+  const elevated: Point[] = [];
+
+  for (let i = 0; i <= n + 1; i++) {
+    const a = i / (n + 1);
+    const prev = lifted[i - 1] ?? [0, 0, 0];
+    const curr = lifted[i] ?? [0, 0, 0];
+    elevated.push(
+      fromHomogeneous(
+        [
+          a * prev[0] + (1 - a) * curr[0],
+          a * prev[1] + (1 - a) * curr[1],
+          a * prev[2] + (1 - a) * curr[2],
+        ],
+        rational
+      )
+    );
+  }
+
+  return elevated;
+}
+
+// Solve a small dense linear system in place with partial pivoting
+function solveLinearSystem(matrix: number[][], rhs: number[][]): number[][] {
+  const size = matrix.length;
+  for (let col = 0; col < size; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < size; row++) {
+      if (Math.abs(matrix[row][col]) > Math.abs(matrix[pivot][col])) pivot = row;
+    }
+    [matrix[col], matrix[pivot]] = [matrix[pivot], matrix[col]];
+    [rhs[col], rhs[pivot]] = [rhs[pivot], rhs[col]];
+
+    for (let row = col + 1; row < size; row++) {
+      const factor = matrix[row][col] / matrix[col][col];
+      for (let k = col; k < size; k++) matrix[row][k] -= factor * matrix[col][k];
+      for (let k = 0; k < rhs[row].length; k++) rhs[row][k] -= factor * rhs[col][k];
+    }
+  }
+
+  const solution = rhs.map(row => row.map(() => 0));
+  for (let row = size - 1; row >= 0; row--) {
+    for (let k = 0; k < rhs[row].length; k++) {
+      let sum = rhs[row][k];
+      for (let col = row + 1; col < size; col++) sum -= matrix[row][col] * solution[col][k];
+      solution[row][k] = sum / matrix[row][row];
+    }
+  }
+  return solution;
+}
+
+// Largest distance between two curves sampled at the same parameters
+export function getMaxDeviation(a: Point[], b: Point[], samples = 100): number {
+  let maxError = 0;
+  for (let i = 0; i <= samples; i++) {
+    const t = i / samples;
+    const p = evaluateBezier(a, t);
+    const q = evaluateBezier(b, t);
+    maxError = Math.max(maxError, Math.hypot(p.x - q.x, p.y - q.y));
+  }
+  return maxError;
+}
+
+// Least-squares interior control points of a degree-m curve through `first` and
+// `last` that follows `target` over uniformly sampled parameters
+function fitInteriorPoints(
+  target: (t: number) => Homogeneous,
+  first: Homogeneous,
+  last: Homogeneous,
+  m: number,
+  samples: number
+): Homogeneous[] {
+  const unknowns = m - 1;
+  if (unknowns <= 0) return [];
+
+  const normal = Array.from({ length: unknowns }, () => new Array(unknowns).fill(0));
+  const rhs = Array.from({ length: unknowns }, () => [0, 0, 0]);
+
+  for (let s = 0; s <= samples; s++) {
+    const t = s / samples;
+    const value = target(t);
+    const b0 = bernstein(0, m, t);
+    const bm = bernstein(m, m, t);
+    const residual = value.map((v, k) => v - b0 * first[k] - bm * last[k]);
+    const basis = Array.from({ length: unknowns }, (_, j) => bernstein(j + 1, m, t));
+
+    for (let r = 0; r < unknowns; r++) {
+      for (let c = 0; c < unknowns; c++) normal[r][c] += basis[r] * basis[c];
+      for (let k = 0; k < 3; k++) rhs[r][k] += basis[r] * residual[k];
+    }
+  }
+
+  return solveLinearSystem(normal, rhs).map(row => [row[0], row[1], row[2]]);
+}
+
+// Best approximation with one control point fewer: endpoints are kept and the
+// interior points minimise the squared distance over uniformly sampled parameters.
+// `error` is the largest deviation from the original curve.
+export function reduceDegree(points: Point[], samples = 64): { points: Point[]; error: number } {
+  if (points.length < 3) return { points: points.map(p => ({ ...p })), error: 0 };
+
+  const n = points.length - 1;
+  const m = n - 1;
+  let reduced: Point[] | null = null;
+
+  if (isRational(points)) {
+    // Fit in homogeneous space so the result stays rational
+    const lifted = points.map(toHomogeneous);
+    const target = (t: number): Homogeneous => {
+      const value: Homogeneous = [0, 0, 0];
+      lifted.forEach((p, i) => {
+        const b = bernstein(i, n, t);
+        value[0] += b * p[0];
+        value[1] += b * p[1];
+        value[2] += b * p[2];
+      });
+      return value;
+    };
+    const interior = fitInteriorPoints(target, lifted[0], lifted[n], m, samples);
+    // A weight that is not positive would put a pole on the curve
+    if (interior.every(p => p[2] > 0)) {
+      reduced = [lifted[0], ...interior, lifted[n]].map(p => fromHomogeneous(p, true));
+    }
+  }
+
+  if (!reduced) {
+    reduced = fitPolynomialCurve(points, m, samples);
+  }
+
+  return { points: reduced, error: getMaxDeviation(points, reduced) };
+}
+
+// Least-squares polynomial curve of degree m with the same end points, for any curve
+// including rational ones
+function fitPolynomialCurve(points: Point[], m: number, samples: number): Point[] {
+  const n = points.length - 1;
+  const target = (t: number): Homogeneous => {
+    const { x, y } = evaluateBezier(points, t);
+    return [x, y, 1];
+  };
+  const first: Homogeneous = [points[0].x, points[0].y, 1];
+  const last: Homogeneous = [points[n].x, points[n].y, 1];
+  const interior = fitInteriorPoints(target, first, last, m, samples);
+  return [first, ...interior, last].map(p => fromHomogeneous(p, false));
+}
+
+// How far (in pixels) exported cubics may stray from curves they approximate
+export const DEFAULT_EXPORT_TOLERANCE = 0.5;
+const MAX_CUBIC_SPLIT_DEPTH = 10;
+const CUBIC_FIT_SAMPLES = 32;
+
+// Cubic segments standing in for a curve, and the largest deviation between the two
+export interface CubicApproximation {
+  segments: Point[][];
+  error: number;
+}
+
+// Chain of polynomial segments of degree 3 or lower within tolerance of a segment of any
+// degree, for formats that stop at cubics. Lines, quadratics and cubics are kept as they
+// are; anything else is fitted with a least-squares cubic and halved until it fits.
+export function approximateWithCubics(
+  points: Point[],
+  tolerance = DEFAULT_EXPORT_TOLERANCE,
+  depth = 0
+): CubicApproximation {
+  if (points.length <= 4 && !isRational(points)) return { segments: [points], error: 0 };
+
+  const cubic = fitPolynomialCurve(points, 3, CUBIC_FIT_SAMPLES);
+  const error = getMaxDeviation(points, cubic);
+  if (error <= tolerance || depth >= MAX_CUBIC_SPLIT_DEPTH) {
+    return { segments: [cubic], error };
+  }
+
+  const [left, right] = splitBezier(points, 0.5);
+  const first = approximateWithCubics(left, tolerance, depth + 1);
+  const second = approximateWithCubics(right, tolerance, depth + 1);
+  return {
+    segments: [...first.segments, ...second.segments],
+    error: Math.max(first.error, second.error),
+  };
+}
+
+export function approximateSegmentsWithCubics(
+  segments: Point[][],
+  tolerance = DEFAULT_EXPORT_TOLERANCE
+): CubicApproximation {
+  const approximations = segments
+    .filter(segment => segment.length >= 2)
+    .map(segment => approximateWithCubics(segment, tolerance));
+  return {
+    segments: approximations.flatMap(approximation => approximation.segments),
+    error: Math.max(0, ...approximations.map(approximation => approximation.error)),
+  };
+}
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// Interior t where the curve turns around along one axis
+export interface Extremum {
+  t: number;
+  point: Point;
+  axis: 'x' | 'y';
+}
+
+const ROOT_SAMPLES = 64;
+
+// Numerator of the derivative of one coordinate, (X'W - XW') for X = sum(w c B) and
+// W = sum(w B); W is positive so this has the same sign (and roots) as the derivative
+function coordinateDerivativeNumerator(points: Point[], axis: 'x' | 'y', t: number): number {
+  const n = points.length - 1;
+  let value = 0;
+  let valueDerivative = 0;
+  let weight = 0;
+  let weightDerivative = 0;
+
+  for (let i = 0; i <= n; i++) {
+    const w = getWeight(points[i]);
+    const b = bernstein(i, n, t);
+    value += w * points[i][axis] * b;
+    weight += w * b;
+    if (i < n) {
+      const next = points[i + 1];
+      const db = n * bernstein(i, n - 1, t);
+      valueDerivative += (getWeight(next) * next[axis] - w * points[i][axis]) * db;
+      weightDerivative += (getWeight(next) - w) * db;
+    }
+  }
+
+  return valueDerivative * weight - value * weightDerivative;
+}
+
+// Roots in (0, 1) where f changes sign, bracketed on a grid and refined by bisection
+function findSignChanges(f: (t: number) => number): number[] {
+  const roots: number[] = [];
+  const values = Array.from({ length: ROOT_SAMPLES + 1 }, (_, i) => f(i / ROOT_SAMPLES));
+
+  for (let i = 0; i < ROOT_SAMPLES; i++) {
+    const a = values[i];
+    const b = values[i + 1];
+
+    if (a === 0) {
+      // Only a crossing counts; a flat stretch (f identically 0) has no extremum
+      if (i > 0 && values[i - 1] * b < 0) roots.push(i / ROOT_SAMPLES);
+    } else if (a * b < 0) {
+      let low = i / ROOT_SAMPLES;
+      let high = (i + 1) / ROOT_SAMPLES;
+      for (let iteration = 0; iteration < 50; iteration++) {
+        const mid = (low + high) / 2;
+        if (f(mid) * a > 0) low = mid;
+        else high = mid;
+      }
+      roots.push((low + high) / 2);
+    }
+  }
+
+  return roots;
+}
+
+export function getExtrema(points: Point[]): Extremum[] {
+  if (points.length < 3) return [];
+
+  const extrema: Extremum[] = [];
+  for (const axis of ['x', 'y'] as const) {
+    for (const t of findSignChanges(t => coordinateDerivativeNumerator(points, axis, t))) {
+      extrema.push({ t, point: evaluateBezier(points, t), axis });
+    }
+  }
+  return extrema.sort((a, b) => a.t - b.t);
+}
+
+// Tight axis-aligned bounds: the endpoints plus every interior extremum
+export function getBounds(points: Point[]): Bounds | null {
+  if (points.length === 0) return null;
+
+  const candidates = [
+    points[0],
+    points[points.length - 1],
+    ...getExtrema(points).map(e => e.point),
+  ];
+  return {
+    minX: Math.min(...candidates.map(p => p.x)),
+    minY: Math.min(...candidates.map(p => p.y)),
+    maxX: Math.max(...candidates.map(p => p.x)),
+    maxY: Math.max(...candidates.map(p => p.y)),
+  };
+}
+
+export function mergeBounds(bounds: (Bounds | null)[]): Bounds | null {
+  const present = bounds.filter((b): b is Bounds => b !== null);
+  if (present.length === 0) return null;
+
+  return {
+    minX: Math.min(...present.map(b => b.minX)),
+    minY: Math.min(...present.map(b => b.minY)),
+    maxX: Math.max(...present.map(b => b.maxX)),
+    maxY: Math.max(...present.map(b => b.maxY)),
+  };
+}
+
+export type StrokeJoin = 'miter' | 'round' | 'bevel';
+export type StrokeCap = 'butt' | 'round' | 'square';
+
+export interface StrokeStyle {
+  width: number;
+  join: StrokeJoin;
+  cap: StrokeCap;
+}
+
+// How far (in pixels) offset segments may stray from the true offset curve
+export const DEFAULT_OFFSET_TOLERANCE = 0.5;
+const MAX_OFFSET_DEPTH = 10;
+const OFFSET_ERROR_SAMPLES = 8;
+// Longer miters (relative to the stroke half-width) fall back to bevels, as in SVG
+const MITER_LIMIT = 4;
+
+// Unit tangent, stepping inward where coincident control points make the velocity vanish
+function getStableTangent(points: Point[], t: number): Point {
+  const tangent = getTangent(points, t);
+  if (tangent.x !== 0 || tangent.y !== 0) return tangent;
+
+  const nudged = getTangent(points, t < 0.5 ? t + 1e-4 : t - 1e-4);
+  if (nudged.x !== 0 || nudged.y !== 0) return nudged;
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  const length = Math.hypot(last.x - first.x, last.y - first.y) || 1;
+  return { x: (last.x - first.x) / length, y: (last.y - first.y) / length };
+}
+
+function offsetPointAt(points: Point[], t: number, distance: number): Point {
+  const { x, y } = evaluateBezier(points, t);
+  const tangent = getStableTangent(points, t);
+  return { x: x - tangent.y * distance, y: y + tangent.x * distance };
+}
+
+// Cubic through the offset ends whose handles follow the offset's own derivative,
+// C'(t) * (1 - distance * curvature); halved until it is within tolerance
+function offsetPiece(
+  points: Point[],
+  t0: number,
+  t1: number,
+  distance: number,
+  tolerance: number,
+  depth: number,
+  pieces: Point[][]
+) {
+  const start = offsetPointAt(points, t0, distance);
+  const end = offsetPointAt(points, t1, distance);
+  const handle = (t: number) => {
+    const scale = ((t1 - t0) / 3) * (1 - distance * getCurvature(points, t));
+    const derivative = getDerivative(points, t);
+    return { x: derivative.x * scale, y: derivative.y * scale };
+  };
+  const h0 = handle(t0);
+  const h1 = handle(t1);
+  const cubic = [
+    start,
+    { x: start.x + h0.x, y: start.y + h0.y },
+    { x: end.x - h1.x, y: end.y - h1.y },
+    end,
+  ];
+
+  let error = 0;
+  for (let i = 1; i < OFFSET_ERROR_SAMPLES; i++) {
+    const s = i / OFFSET_ERROR_SAMPLES;
+    const approximate = evaluateBezier(cubic, s);
+    const exact = offsetPointAt(points, t0 + s * (t1 - t0), distance);
+    error = Math.max(error, Math.hypot(approximate.x - exact.x, approximate.y - exact.y));
+  }
+
+  if (error <= tolerance || depth >= MAX_OFFSET_DEPTH) {
+    pieces.push(cubic);
+    return;
+  }
+
+  const mid = (t0 + t1) / 2;
+  offsetPiece(points, t0, mid, distance, tolerance, depth + 1, pieces);
+  offsetPiece(points, mid, t1, distance, tolerance, depth + 1, pieces);
+}
+
+// Curve at a constant distance from the given one, measured along the normal (positive
+// towards getNormal), as a chain of cubic (or, for straight segments, linear) segments
+export function offsetBezier(
+  points: Point[],
+  distance: number,
+  tolerance = DEFAULT_OFFSET_TOLERANCE
+): Point[][] {
+  if (points.length < 2) return [];
   if (points.length === 2) {
-    pathData += ` L ${points[1].x} ${points[1].y}`;
-  } else if (points.length === 3) {
-    pathData += ` Q ${points[1].x} ${points[1].y} ${points[2].x} ${points[2].y}`;
-  } else if (points.length === 4) {
-    pathData += ` C ${points[1].x} ${points[1].y} ${points[2].x} ${points[2].y} ${points[3].x} ${points[3].y}`;
-  } else {
-    const curvePath = getBezierPath(points);
-    curvePath.slice(1).forEach(p => {
-      pathData += ` L ${p.x} ${p.y}`;
+    return [[offsetPointAt(points, 0, distance), offsetPointAt(points, 1, distance)]];
+  }
+
+  const pieces: Point[][] = [];
+  offsetPiece(points, 0, 1, distance, tolerance, 0, pieces);
+  return pieces;
+}
+
+// The same chain traversed from its end back to its start
+function reverseSegments(segments: Point[][]): Point[][] {
+  return segments.map(segment => [...segment].reverse()).reverse();
+}
+
+// Cubic approximation of a circular arc, one segment per quarter turn or less
+function arcSegments(center: Point, radius: number, startAngle: number, sweep: number) {
+  const count = Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 2) - 1e-9));
+  const step = sweep / count;
+  const handle = (4 / 3) * Math.tan(step / 4) * radius;
+  const at = (angle: number): Point => ({
+    x: center.x + radius * Math.cos(angle),
+    y: center.y + radius * Math.sin(angle),
+  });
+
+  return Array.from({ length: count }, (_, i) => {
+    const a0 = startAngle + i * step;
+    const a1 = a0 + step;
+    const p0 = at(a0);
+    const p3 = at(a1);
+    return [
+      p0,
+      { x: p0.x - handle * Math.sin(a0), y: p0.y + handle * Math.cos(a0) },
+      { x: p3.x + handle * Math.sin(a1), y: p3.y - handle * Math.cos(a1) },
+      p3,
+    ];
+  });
+}
+
+// Connect the offset sides of two segments meeting at a joint. The inner side is routed
+// through the joint itself, which nonzero filling covers; the outer side gets the join.
+function joinOffsetSides(
+  from: Point,
+  to: Point,
+  joint: Point,
+  incoming: Point,
+  outgoing: Point,
+  distance: number,
+  join: StrokeJoin
+): Point[][] {
+  if (Math.hypot(to.x - from.x, to.y - from.y) < 1e-6) return [];
+
+  const turn = incoming.x * outgoing.y - incoming.y * outgoing.x;
+  if (turn * distance > 0) {
+    return [
+      [from, joint],
+      [joint, to],
+    ];
+  }
+
+  const radius = Math.abs(distance);
+  if (join === 'round') {
+    const startAngle = Math.atan2(from.y - joint.y, from.x - joint.x);
+    let sweep = Math.atan2(to.y - joint.y, to.x - joint.x) - startAngle;
+    if (sweep > Math.PI) sweep -= 2 * Math.PI;
+    if (sweep < -Math.PI) sweep += 2 * Math.PI;
+    return arcSegments(joint, radius, startAngle, sweep);
+  }
+
+  if (join === 'miter') {
+    const bisector = { x: from.x + to.x - 2 * joint.x, y: from.y + to.y - 2 * joint.y };
+    const bisectorLength = Math.hypot(bisector.x, bisector.y);
+    const cosHalfAngle = bisectorLength / (2 * radius);
+    if (cosHalfAngle > 1 / MITER_LIMIT) {
+      const length = radius / cosHalfAngle;
+      const tip = {
+        x: joint.x + (bisector.x / bisectorLength) * length,
+        y: joint.y + (bisector.y / bisectorLength) * length,
+      };
+      return [
+        [from, tip],
+        [tip, to],
+      ];
+    }
+  }
+
+  return [[from, to]];
+}
+
+// One side of the stroke: each segment offset by distance, joined at the joints
+function strokeSide(
+  segments: Point[][],
+  distance: number,
+  join: StrokeJoin,
+  tolerance: number
+): Point[][] {
+  const side: Point[][] = [];
+  segments.forEach((segment, index) => {
+    const offset = offsetBezier(segment, distance, tolerance);
+    if (index > 0 && side.length > 0 && offset.length > 0) {
+      const previous = segments[index - 1];
+      const from = side[side.length - 1];
+      side.push(
+        ...joinOffsetSides(
+          from[from.length - 1],
+          offset[0][0],
+          segment[0],
+          getStableTangent(previous, 1),
+          getStableTangent(segment, 0),
+          distance,
+          join
+        )
+      );
+    }
+    side.push(...offset);
+  });
+  return side;
+}
+
+// Close the stroke around an end of the centreline, leaving it in direction `outward`
+function capSegments(from: Point, to: Point, end: Point, outward: Point, cap: StrokeCap) {
+  const halfWidth = Math.hypot(from.x - end.x, from.y - end.y);
+  if (cap === 'round') {
+    const startAngle = Math.atan2(from.y - end.y, from.x - end.x);
+    const mid = startAngle + Math.PI / 2;
+    const sweep = Math.cos(mid) * outward.x + Math.sin(mid) * outward.y > 0 ? Math.PI : -Math.PI;
+    return arcSegments(end, halfWidth, startAngle, sweep);
+  }
+  if (cap === 'square') {
+    const push = (p: Point): Point => ({
+      x: p.x + outward.x * halfWidth,
+      y: p.y + outward.y * halfWidth,
     });
+    return [
+      [from, push(from)],
+      [push(from), push(to)],
+      [push(to), to],
+    ];
   }
+  return [[from, to]];
+}
+
+// Closed outline of a stroke of the given style along a chain of segments: the left
+// side forwards, the end cap, the right side backwards and the start cap
+export function getStrokeOutline(
+  segments: Point[][],
+  style: StrokeStyle,
+  tolerance = DEFAULT_OFFSET_TOLERANCE
+): Point[][] {
+  const drawable = segments.filter(segment => segment.length >= 2);
+  if (drawable.length === 0 || style.width <= 0) return [];
+
+  const halfWidth = style.width / 2;
+  // Offsetting the reversed chain to its left traces the original's right side
+  const reversed = reverseSegments(drawable);
+  const left = strokeSide(drawable, halfWidth, style.join, tolerance);
+  const right = strokeSide(reversed, halfWidth, style.join, tolerance);
+  if (left.length === 0 || right.length === 0) return [];
+
+  const first = drawable[0];
+  const last = drawable[drawable.length - 1];
+  const endTangent = getStableTangent(last, 1);
+  const startTangent = getStableTangent(first, 0);
+  const leftEnd = left[left.length - 1];
+  const rightEnd = right[right.length - 1];
+
+  return [
+    ...left,
+    ...capSegments(
+      leftEnd[leftEnd.length - 1],
+      right[0][0],
+      last[last.length - 1],
+      endTangent,
+      style.cap
+    ),
+    ...right,
+    ...capSegments(
+      rightEnd[rightEnd.length - 1],
+      left[0][0],
+      first[0],
+      { x: -startTangent.x, y: -startTangent.y },
+      style.cap
+    ),
+  ];
+}
+
+// Path commands for one segment of degree 3 or lower, continuing from the current point
+// (its first point)
+function getSVGSegmentData(points: Point[]): string {
+  if (points.length === 2) {
+    return ` L ${points[1].x} ${points[1].y}`;
+  } else if (points.length === 3) {
+    return ` Q ${points[1].x} ${points[1].y} ${points[2].x} ${points[2].y}`;
+  }
+  return ` C ${points[1].x} ${points[1].y} ${points[2].x} ${points[2].y} ${points[3].x} ${points[3].y}`;
+}
+
+// Path data for a chain of segments where each segment starts where the previous one ends.
+// SVG has no rational or higher-degree segments, so those become cubics within tolerance.
+export function getSVGPathData(segments: Point[][], tolerance = DEFAULT_EXPORT_TOLERANCE): string {
+  const drawable = approximateSegmentsWithCubics(segments, tolerance).segments;
+  if (drawable.length === 0) return '';
 
-  return `<svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">
-  <path d="${pathData}" fill="none" stroke="#4a9eff" stroke-width="2"/>
-</svg>`;
+  const start = drawable[0][0];
+  return `M ${start.x} ${start.y}` + drawable.map(getSVGSegmentData).join('');
 }
@@ -0,0 +1,244 @@
+import { BezierCurve, Point } from './types';
+import { getWeight } from './bezier';
+
+// B-splines: control points blended by piecewise polynomials of a given degree over a
+// non-decreasing knot vector. Point weights make them NURBS, like rational Bezier curves.
+
+export const DEFAULT_BSPLINE_DEGREE = 3;
+
+export interface KnotInsertion {
+  points: Point[];
+  knots: number[];
+}
+
+export function isBSpline(curve: BezierCurve): boolean {
+  return curve.kind === 'bspline';
+}
+
+// A curve with n points can be at most degree n - 1
+export function getBSplineDegree(curve: BezierCurve): number {
+  const degree = curve.degree ?? DEFAULT_BSPLINE_DEGREE;
+  return Math.max(1, Math.min(degree, curve.points.length - 1));
+}
+
+// Knots spread evenly over [0, 1], repeated degree + 1 times at both ends so the curve
+// starts and ends at its first and last control points
+export function getUniformKnots(pointCount: number, degree: number): number[] {
+  const interior = Math.max(0, pointCount - degree - 1);
+  const knots: number[] = [];
+  for (let i = 0; i <= degree; i++) knots.push(0);
+  for (let i = 1; i <= interior; i++) knots.push(i / (interior + 1));
+  for (let i = 0; i <= degree; i++) knots.push(1);
+  return knots;
+}
+
+export function isValidKnotVector(knots: number[], pointCount: number, degree: number): boolean {
+  return (
+    knots.length === pointCount + degree + 1 &&
+    knots.every((knot, i) => isFinite(knot) && (i === 0 || knot >= knots[i - 1])) &&
+    knots[degree] < knots[pointCount]
+  );
+}
+
+// The stored knot vector, or uniform knots when there is none or it no longer fits the
+// number of points (after one was added or removed)
+export function getKnotVector(curve: BezierCurve): number[] {
+  const degree = getBSplineDegree(curve);
+  const { points, knots } = curve;
+  return knots && isValidKnotVector(knots, points.length, degree)
+    ? knots
+    : getUniformKnots(points.length, degree);
+}
+
+// Distinct knot values inside the curve's domain [knots[degree], knots[n]], i.e. the
+// parameters where the polynomial pieces meet (and the two ends)
+export function getBreakpoints(knots: number[], degree: number, pointCount: number): number[] {
+  const start = knots[degree];
+  const end = knots[pointCount];
+  return knots.filter(
+    (knot, i) => knot >= start && knot <= end && (i === 0 || knot !== knots[i - 1])
+  );
+}
+
+// Index k of the non-empty span [knots[k], knots[k + 1]] that contains u
+function findSpan(knots: number[], degree: number, pointCount: number, u: number): number {
+  let k = degree;
+  while (k < pointCount - 1 && knots[k + 1] <= u) k++;
+  while (k > degree && knots[k] === knots[k + 1]) k--;
+  return k;
+}
+
+// Affine blend in homogeneous coordinates, so weighted (NURBS) points stay exact
+function blend(a: Point, b: Point, t: number): Point {
+  const wa = getWeight(a);
+  const wb = getWeight(b);
+  const weight = (1 - t) * wa + t * wb;
+  const x = ((1 - t) * wa * a.x + t * wb * b.x) / weight;
+  const y = ((1 - t) * wa * a.y + t * wb * b.y) / weight;
+  return weight === 1 ? { x, y } : { x, y, weight };
+}
+
+// de Boor's algorithm: the first level holds the degree + 1 points that affect u, and
+// each further level inserts u once more, down to the single point on the curve
+export function getDeBoorLevels(
+  points: Point[],
+  knots: number[],
+  degree: number,
+  u: number
+): Point[][] {
+  const k = findSpan(knots, degree, points.length, u);
+  let level = points.slice(k - degree, k + 1);
+  const levels = [level];
+
+  for (let r = 1; r <= degree; r++) {
+    const next: Point[] = [];
+    for (let j = r; j <= degree; j++) {
+      const i = k - degree + j;
+      const span = knots[i + degree - r + 1] - knots[i];
+      next.push(blend(level[j - r], level[j - r + 1], span === 0 ? 0 : (u - knots[i]) / span));
+    }
+    level = next;
+    levels.push(level);
+  }
+
+  return levels;
+}
+
+export function evaluateBSpline(
+  points: Point[],
+  knots: number[],
+  degree: number,
+  u: number
+): Point {
+  const levels = getDeBoorLevels(points, knots, degree, u);
+  return levels[levels.length - 1][0];
+}
+
+// Share of the curve point at u that each control point contributes: the B-spline
+// basis N_i,p(u), scaled by the weights and renormalized for NURBS
+export function getBSplineBasis(
+  points: Point[],
+  knots: number[],
+  degree: number,
+  u: number
+): number[] {
+  // N_i is the curve through a unit control point i with all others at zero
+  const basis = points.map((_, i) => {
+    const unit = points.map((__, j) => ({ x: i === j ? 1 : 0, y: 0 }));
+    return evaluateBSpline(unit, knots, degree, u).x;
+  });
+  const weighted = basis.map((value, i) => value * getWeight(points[i]));
+  const total = weighted.reduce((sum, value) => sum + value, 0);
+  return weighted.map(value => (total > 0 ? value / total : 0));
+}
+
+// Boehm's algorithm: adds u to the knot vector and replaces degree control points with
+// degree + 1 new ones, leaving the curve itself unchanged
+export function insertKnot(
+  points: Point[],
+  knots: number[],
+  degree: number,
+  u: number
+): KnotInsertion {
+  const k = findSpan(knots, degree, points.length, u);
+  const inserted: Point[] = points.slice(0, k - degree + 1);
+
+  for (let i = k - degree + 1; i <= k; i++) {
+    const span = knots[i + degree] - knots[i];
+    inserted.push(blend(points[i - 1], points[i], span === 0 ? 0 : (u - knots[i]) / span));
+  }
+  inserted.push(...points.slice(k));
+
+  return {
+    points: inserted,
+    knots: [...knots.slice(0, k + 1), u, ...knots.slice(k + 1)],
+  };
+}
+
+function countKnot(knots: number[], u: number): number {
+  return knots.filter(knot => knot === u).length;
+}
+
+// Insert u until it appears `multiplicity` times
+function raiseMultiplicity(
+  curve: KnotInsertion,
+  degree: number,
+  u: number,
+  multiplicity: number
+): KnotInsertion {
+  let result = curve;
+  while (countKnot(result.knots, u) < multiplicity) {
+    result = insertKnot(result.points, result.knots, degree, u);
+  }
+  return result;
+}
+
+// Parameter u of a curve-wide t. Like for splines, t spreads evenly over the pieces,
+// so each non-empty knot span gets an equal share.
+export function getKnotParameter(curve: BezierCurve, t: number): number {
+  const degree = getBSplineDegree(curve);
+  const knots = getKnotVector(curve);
+  const breaks = getBreakpoints(knots, degree, curve.points.length);
+  const spans = breaks.length - 1;
+
+  const scaled = Math.min(Math.max(t, 0), 1) * spans;
+  const index = Math.min(Math.floor(scaled), spans - 1);
+  return breaks[index] + (scaled - index) * (breaks[index + 1] - breaks[index]);
+}
+
+// Exact Bezier segments (rational for NURBS), one per non-empty knot span: inserting
+// every breakpoint until it appears degree times leaves each span its own control points
+export function toBezierSegments(curve: BezierCurve): Point[][] {
+  if (curve.points.length < 2) return [];
+
+  const degree = getBSplineDegree(curve);
+  const knots = getKnotVector(curve);
+  const breaks = getBreakpoints(knots, degree, curve.points.length);
+
+  let bezier: KnotInsertion = { points: curve.points, knots };
+  breaks.forEach(u => {
+    bezier = raiseMultiplicity(bezier, degree, u, degree);
+  });
+
+  return breaks.slice(0, -1).map(u => {
+    const k = bezier.knots.lastIndexOf(u);
+    return bezier.points.slice(k - degree, k + 1).map(p => ({ ...p }));
+  });
+}
+
+// Cut a B-spline at a curve-wide t into two B-splines that trace the same shape. The
+// cut knot is raised to full multiplicity so both pieces end exactly at the cut.
+export function splitBSpline(
+  curve: BezierCurve,
+  t: number,
+  newCurveId: string
+): [BezierCurve, BezierCurve] | null {
+  if (t <= 0 || t >= 1 || curve.points.length < 2) return null;
+
+  const degree = getBSplineDegree(curve);
+  const u = getKnotParameter(curve, t);
+  const { points, knots } = raiseMultiplicity(
+    { points: curve.points, knots: getKnotVector(curve) },
+    degree,
+    u,
+    degree
+  );
+
+  const first = knots.indexOf(u);
+  const { knots: _knots, ...properties } = curve;
+  return [
+    {
+      ...properties,
+      degree,
+      points: points.slice(0, first),
+      knots: [...knots.slice(0, first + degree), u],
+    },
+    {
+      ...properties,
+      id: newCurveId,
+      degree,
+      points: points.slice(first - 1),
+      knots: [u, ...knots.slice(first)],
+    },
+  ];
+}
@@ -0,0 +1,231 @@
+import { BezierCurve, Point } from './types';
+import {
+  DEFAULT_EXPORT_TOLERANCE,
+  approximateSegmentsWithCubics,
+  elevateDegree,
+  getWeight,
+  isRational,
+} from './bezier';
+import { getCurveSegments, isInterpolating, isSpline } from './spline';
+import { getBSplineDegree, isBSpline } from './bspline';
+import { CubicBezierValues, formatCubicBezier } from './easing';
+
+// Ready-to-paste code for the curves in other languages and tools. Formats without
+// rational or high-degree curves get the same cubic chains as the SVG export.
+
+export type CodeFormat = 'canvas' | 'typescript' | 'css' | 'matplotlib' | 'tikz';
+
+export const CODE_FORMATS: { format: CodeFormat; label: string }[] = [
+  { format: 'canvas', label: 'Canvas 2D' },
+  { format: 'typescript', label: 'TypeScript points' },
+  { format: 'css', label: 'CSS cubic-bezier()' },
+  { format: 'matplotlib', label: 'Python (matplotlib)' },
+  { format: 'tikz', label: 'LaTeX (TikZ)' },
+];
+
+function formatNumber(value: number): string {
+  const rounded = Math.round(value * 100) / 100;
+  return String(rounded === 0 ? 0 : rounded);
+}
+
+function formatPoint(point: Point): string {
+  return `${formatNumber(point.x)}, ${formatNumber(point.y)}`;
+}
+
+function getDrawableCurves(curves: BezierCurve[]): BezierCurve[] {
+  return curves.filter(curve => curve.points.length > 1);
+}
+
+// Lines, quadratics and cubics, each starting where the previous one ends
+function getExportSegments(curve: BezierCurve, tolerance: number): Point[][] {
+  return approximateSegmentsWithCubics(getCurveSegments(curve), tolerance).segments;
+}
+
+function describeCurve(curve: BezierCurve): string {
+  if (isBSpline(curve)) return `degree ${getBSplineDegree(curve)} B-spline`;
+  if (isInterpolating(curve)) return 'interpolating cubic spline';
+  if (isSpline(curve)) return `${curve.segmentDegree === 2 ? 'quadratic' : 'cubic'} spline`;
+  const degree = curve.points.length - 1;
+  const name = ['', 'line', 'quadratic', 'cubic'][degree] ?? `degree ${degree} curve`;
+  return isRational(curve.points) ? `rational ${name}` : name;
+}
+
+export function generateCanvasCode(
+  curves: BezierCurve[],
+  tolerance = DEFAULT_EXPORT_TOLERANCE
+): string {
+  return getDrawableCurves(curves)
+    .map((curve, index) => {
+      const segments = getExportSegments(curve, tolerance);
+      const lines = [
+        `// Curve ${index + 1}: ${describeCurve(curve)}`,
+        `ctx.strokeStyle = '${curve.color}';`,
+        'ctx.beginPath();',
+        `ctx.moveTo(${formatPoint(segments[0][0])});`,
+        ...segments.map(segment => {
+          const rest = segment.slice(1).map(formatPoint).join(', ');
+          if (segment.length === 2) return `ctx.lineTo(${rest});`;
+          if (segment.length === 3) return `ctx.quadraticCurveTo(${rest});`;
+          return `ctx.bezierCurveTo(${rest});`;
+        }),
+        'ctx.stroke();',
+      ];
+      return lines.join('\n');
+    })
+    .join('\n\n');
+}
+
+// The control points themselves, each array headed by the kind of curve it belongs to
+export function generateTypeScriptCode(curves: BezierCurve[]): string {
+  const drawable = getDrawableCurves(curves);
+  const weighted = drawable.some(curve => isRational(curve.points));
+  const declarations = drawable.map((curve, index) => {
+    const points = curve.points.map(point => {
+      const weight = getWeight(point) !== 1 ? `, weight: ${formatNumber(getWeight(point))}` : '';
+      return `  { x: ${formatNumber(point.x)}, y: ${formatNumber(point.y)}${weight} },`;
+    });
+    return [
+      `// ${describeCurve(curve)}, ${curve.color}`,
+      `const curve${index + 1}: Point[] = [`,
+      ...points,
+      '];',
+    ].join('\n');
+  });
+
+  const pointType = weighted
+    ? 'type Point = { x: number; y: number; weight?: number };'
+    : 'type Point = { x: number; y: number };';
+  return [pointType, ...declarations].join('\n\n');
+}
+
+// Timing functions run from (0, 0) to (1, 1), so only single cubic (or quadratic) curves
+// qualify, scaled so their end points land there whichever way they run on screen. CSS
+// also requires both handles to stay within 0 <= x <= 1.
+export function getCSSCubicBezier(curve: BezierCurve): CubicBezierValues | null {
+  const segments = getCurveSegments(curve);
+  if (segments.length !== 1 || isRational(segments[0])) return null;
+
+  const segment = segments[0];
+  const cubic = segment.length === 3 ? elevateDegree(segment) : segment;
+  if (cubic.length !== 4) return null;
+
+  const [start, , , end] = cubic;
+  const width = end.x - start.x;
+  const height = end.y - start.y;
+  if (width === 0 || height === 0) return null;
+
+  const x1 = (cubic[1].x - start.x) / width;
+  const x2 = (cubic[2].x - start.x) / width;
+  if (x1 < 0 || x1 > 1 || x2 < 0 || x2 > 1) return null;
+  return [x1, (cubic[1].y - start.y) / height, x2, (cubic[2].y - start.y) / height];
+}
+
+export function generateCSSCode(curves: BezierCurve[]): string {
+  return getDrawableCurves(curves)
+    .map((curve, index) => {
+      const values = getCSSCubicBezier(curve);
+      if (!values) {
+        return `/* Curve ${index + 1} (${describeCurve(curve)}) is not a timing curve: it needs to be a single cubic whose handles stay between its end points horizontally */`;
+      }
+      const bezier = formatCubicBezier(values);
+      return `.curve-${index + 1} {\n  transition-timing-function: ${bezier};\n}`;
+    })
+    .join('\n\n');
+}
+
+export function generateMatplotlibCode(
+  curves: BezierCurve[],
+  tolerance = DEFAULT_EXPORT_TOLERANCE
+): string {
+  const patches = getDrawableCurves(curves).map((curve, index) => {
+    const segments = getExportSegments(curve, tolerance);
+    const vertices = [segments[0][0], ...segments.flatMap(segment => segment.slice(1))];
+    const codes = [
+      'Path.MOVETO',
+      ...segments.flatMap(segment => {
+        const code = ['', 'Path.LINETO', 'Path.CURVE3', 'Path.CURVE4'][segment.length - 1];
+        return segment.slice(1).map(() => code);
+      }),
+    ];
+    return [
+      `# Curve ${index + 1}: ${describeCurve(curve)}`,
+      'vertices = [',
+      ...vertices.map(p => `    (${formatPoint(p)}),`),
+      ']',
+      `codes = [${codes.join(', ')}]`,
+      `ax.add_patch(PathPatch(Path(vertices, codes), facecolor='none', edgecolor='${curve.color}', lw=2))`,
+    ].join('\n');
+  });
+
+  return [
+    'import matplotlib.pyplot as plt',
+    'from matplotlib.patches import PathPatch',
+    'from matplotlib.path import Path',
+    '',
+    'fig, ax = plt.subplots()',
+    '',
+    ...patches.flatMap(patch => [patch, '']),
+    'ax.autoscale_view()',
+    "ax.set_aspect('equal')",
+    'ax.invert_yaxis()  # Canvas y points down',
+    'plt.show()',
+  ].join('\n');
+}
+
+// TikZ draws cubics with `.. controls .. and ..`; a single control point would still be a
+// cubic, so quadratics are elevated. Coordinates stay in canvas pixels, as points.
+export function generateTikZCode(
+  curves: BezierCurve[],
+  tolerance = DEFAULT_EXPORT_TOLERANCE
+): string {
+  const drawable = getDrawableCurves(curves);
+  const colors = drawable.map((curve, index) =>
+    /^#[0-9a-f]{6}$/i.test(curve.color)
+      ? `\\definecolor{curve${index + 1}}{HTML}{${curve.color.slice(1).toUpperCase()}}`
+      : null
+  );
+  const coordinate = (p: Point) => `(${formatNumber(p.x)},${formatNumber(p.y)})`;
+
+  const paths = drawable.map((curve, index) => {
+    const segments = getExportSegments(curve, tolerance);
+    const steps = segments.map((segment, i) => {
+      const cubic = segment.length === 3 ? elevateDegree(segment) : segment;
+      const end = i === segments.length - 1 ? ';' : '';
+      if (cubic.length === 2) return `    -- ${coordinate(cubic[1])}${end}`;
+      const controls = `${coordinate(cubic[1])} and ${coordinate(cubic[2])}`;
+      return `    .. controls ${controls} .. ${coordinate(cubic[3])}${end}`;
+    });
+    const color = colors[index] ? `curve${index + 1}, ` : '';
+    return [
+      `  % Curve ${index + 1}: ${describeCurve(curve)}`,
+      `  \\draw[${color}line width=1pt] ${coordinate(segments[0][0])}`,
+      ...steps,
+    ].join('\n');
+  });
+
+  return [
+    ...colors.filter((color): color is string => color !== null),
+    '\\begin{tikzpicture}[x=1pt, y=-1pt]',
+    ...paths,
+    '\\end{tikzpicture}',
+  ].join('\n');
+}
+
+export function generateCode(
+  curves: BezierCurve[],
+  format: CodeFormat,
+  tolerance = DEFAULT_EXPORT_TOLERANCE
+): string {
+  switch (format) {
+    case 'canvas':
+      return generateCanvasCode(curves, tolerance);
+    case 'typescript':
+      return generateTypeScriptCode(curves);
+    case 'css':
+      return generateCSSCode(curves);
+    case 'matplotlib':
+      return generateMatplotlibCode(curves, tolerance);
+    case 'tikz':
+      return generateTikZCode(curves, tolerance);
+  }
+}
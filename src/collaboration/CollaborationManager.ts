@@ -5,6 +5,9 @@ import { SharedHistoryManager } from './SharedHistoryManager';
 import { BezierCurve, Point, User, CollaborativeHistory } from '../types';
 import { Command } from '../history';
 
+// Curve fields besides points and color that commands can change
+const SYNCED_CURVE_SETTINGS = ['kind', 'segmentDegree', 'continuity', 'degree', 'knots'] as const;
+
 export interface CollaborationCallbacks {
   onRemoteChange: (curves: BezierCurve[]) => void;
   onUsersUpdate: (users: User[]) => void;
@@ -232,6 +235,19 @@ export class CollaborationManager {
                 docCurve.color = localCurve.color;
               }
 
+              // Update optional curve settings (Automerge cannot store undefined, so delete)
+              SYNCED_CURVE_SETTINGS.forEach(key => {
+                const localValue = localCurve[key];
+                if (JSON.stringify(docCurve[key]) === JSON.stringify(localValue)) return;
+                if (localValue === undefined) {
+                  delete docCurve[key];
+                } else {
+                  (docCurve as unknown as Record<string, unknown>)[key] = JSON.parse(
+                    JSON.stringify(localValue)
+                  );
+                }
+              });
+
               // Update points array if changed
               const pointsChanged =
                 docCurve.points.length !== localCurve.points.length ||
@@ -5,8 +5,20 @@ import {
   AddPointCommand,
   RemovePointCommand,
   MovePointCommand,
+  MovePointsCommand,
+  AddKnotCommand,
+  RemoveKnotCommand,
+  SetJointContinuityCommand,
+  SetPointWeightCommand,
   AddCurveCommand,
+  AddCurvesCommand,
+  ImportCurvesCommand,
   RemoveCurveCommand,
+  SplitCurveCommand,
+  ChangeDegreeCommand,
+  InsertKnotCommand,
+  SetKnotsCommand,
+  ApplyEasingCommand,
 } from '../history';
 
 /**
@@ -43,16 +55,76 @@ export class SharedHistoryManager {
           type: 'MovePoint',
           data: this.extractCommandData(command),
         };
+      case 'MovePointsCommand':
+        return {
+          type: 'MovePoints',
+          data: command.serialize(),
+        };
+      case 'AddKnotCommand':
+        return {
+          type: 'AddKnot',
+          data: command.serialize(),
+        };
+      case 'RemoveKnotCommand':
+        return {
+          type: 'RemoveKnot',
+          data: command.serialize(),
+        };
+      case 'SetJointContinuityCommand':
+        return {
+          type: 'SetJointContinuity',
+          data: command.serialize(),
+        };
+      case 'SetPointWeightCommand':
+        return {
+          type: 'SetPointWeight',
+          data: command.serialize(),
+        };
       case 'AddCurveCommand':
         return {
           type: 'AddCurve',
           data: this.extractCommandData(command),
         };
+      case 'AddCurvesCommand':
+        return {
+          type: 'AddCurves',
+          data: command.serialize(),
+        };
+      case 'ImportCurvesCommand':
+        return {
+          type: 'ImportCurves',
+          data: command.serialize(),
+        };
       case 'RemoveCurveCommand':
         return {
           type: 'RemoveCurve',
           data: this.extractCommandData(command),
         };
+      case 'SplitCurveCommand':
+        return {
+          type: 'SplitCurve',
+          data: command.serialize(),
+        };
+      case 'ChangeDegreeCommand':
+        return {
+          type: 'ChangeDegree',
+          data: command.serialize(),
+        };
+      case 'InsertKnotCommand':
+        return {
+          type: 'InsertKnot',
+          data: command.serialize(),
+        };
+      case 'SetKnotsCommand':
+        return {
+          type: 'SetKnots',
+          data: command.serialize(),
+        };
+      case 'ApplyEasingCommand':
+        return {
+          type: 'ApplyEasing',
+          data: command.serialize(),
+        };
       case 'ChangeCurveColorCommand':
         return {
           type: 'ChangeCurveColor',
@@ -150,10 +222,39 @@ export class SharedHistoryManager {
         return new RemovePointCommand(data.curveId, data.index, data.point);
       case 'MovePoint':
         return new MovePointCommand(data.curveId, data.index, data.oldPoint, data.newPoint);
+      case 'MovePoints':
+        return new MovePointsCommand(data.curveId, data.moves);
+      case 'AddKnot':
+        return new AddKnotCommand(data.curveId, data.point);
+      case 'RemoveKnot':
+        return new RemoveKnotCommand(data.curveId, data.index);
+      case 'SetJointContinuity':
+        return new SetJointContinuityCommand(
+          data.curveId,
+          data.joint,
+          data.oldContinuity,
+          data.newContinuity
+        );
+      case 'SetPointWeight':
+        return new SetPointWeightCommand(data.curveId, data.index, data.oldWeight, data.newWeight);
       case 'AddCurve':
         return new AddCurveCommand(data.curve);
+      case 'AddCurves':
+        return new AddCurvesCommand(data.curves);
+      case 'ImportCurves':
+        return new ImportCurvesCommand(data.curves);
       case 'RemoveCurve':
         return new RemoveCurveCommand(data.curve, data.index);
+      case 'SplitCurve':
+        return new SplitCurveCommand(data.curveId, data.t, data.newCurveId);
+      case 'ChangeDegree':
+        return new ChangeDegreeCommand(data.curveId, data.direction);
+      case 'InsertKnot':
+        return new InsertKnotCommand(data.curveId, data.t);
+      case 'SetKnots':
+        return new SetKnotsCommand(data.curveId, data.oldKnots, data.newKnots);
+      case 'ApplyEasing':
+        return new ApplyEasingCommand(data.curveId, data.points);
       case 'ChangeCurveColor':
         console.warn('ChangeCurveColor command not yet implemented');
         return null;
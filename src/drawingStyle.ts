@@ -0,0 +1,10 @@
+// Sizes shared by everything that draws the scene: the canvas renderer and the exporters,
+// so an export looks like the screen
+
+export const CURVE_STROKE_WIDTH = 3;
+// Comb tooth length in pixels per unit of curvature (1 / radius in pixels)
+export const COMB_SCALE = 2000;
+export const COMB_SAMPLES_PER_SEGMENT = 48;
+// Velocity vectors are drawn at a third of their length, so a cubic's velocity at t = 0
+// ends on its second control point
+export const VELOCITY_SCALE = 1 / 3;
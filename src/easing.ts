@@ -0,0 +1,112 @@
+import { BezierCurve, Point } from './types';
+import { isRational } from './bezier';
+
+// CSS timing functions as cubic curves in a unit box: time runs along x from 0 to 1 and
+// progress up y from 0 to 1. The box is laid out on the canvas, so an easing curve is an
+// ordinary cubic whose end points sit on the box's bottom-left and top-right corners.
+
+// The handles of a cubic-bezier() timing function: x1, y1, x2, y2
+export type CubicBezierValues = [number, number, number, number];
+
+// Canvas rectangle of the unit box; (0, 0) is its bottom-left corner
+export interface EasingBox {
+  left: number;
+  top: number;
+  size: number;
+}
+
+export const EASING_PRESETS: { name: string; values: CubicBezierValues }[] = [
+  { name: 'linear', values: [0, 0, 1, 1] },
+  { name: 'ease', values: [0.25, 0.1, 0.25, 1] },
+  { name: 'ease-in', values: [0.42, 0, 1, 1] },
+  { name: 'ease-out', values: [0, 0, 0.58, 1] },
+  { name: 'ease-in-out', values: [0.42, 0, 0.58, 1] },
+];
+
+// The box takes half the smaller side of the canvas, leaving room above and below it for
+// handles that overshoot
+const EASING_BOX_FRACTION = 0.5;
+// End points closer than this (in pixels) to a corner count as on it
+const CORNER_TOLERANCE = 0.5;
+
+export function getEasingBox(width: number, height: number): EasingBox {
+  const size = Math.round(Math.min(width, height) * EASING_BOX_FRACTION);
+  return {
+    left: Math.round((width - size) / 2),
+    top: Math.round((height - size) / 2),
+    size,
+  };
+}
+
+export function fromUnitBox(box: EasingBox, point: Point): Point {
+  return { x: box.left + point.x * box.size, y: box.top + (1 - point.y) * box.size };
+}
+
+export function toUnitBox(box: EasingBox, point: Point): Point {
+  return { x: (point.x - box.left) / box.size, y: 1 - (point.y - box.top) / box.size };
+}
+
+// Control points of the easing curve for a timing function, in canvas pixels
+export function getEasingPoints(values: CubicBezierValues, box: EasingBox): Point[] {
+  const [x1, y1, x2, y2] = values;
+  return [
+    { x: 0, y: 0 },
+    { x: x1, y: y1 },
+    { x: x2, y: y2 },
+    { x: 1, y: 1 },
+  ].map(point => fromUnitBox(box, point));
+}
+
+function isOnCorner(point: Point, corner: Point): boolean {
+  return Math.hypot(point.x - corner.x, point.y - corner.y) <= CORNER_TOLERANCE;
+}
+
+// A plain, non-rational cubic running from the box's bottom-left to its top-right corner
+// with both handles within the box horizontally, as cubic-bezier() requires
+export function isEasingCurve(curve: BezierCurve, box: EasingBox): boolean {
+  const { points } = curve;
+  if ((curve.kind ?? 'bezier') !== 'bezier' || points.length !== 4 || isRational(points)) {
+    return false;
+  }
+  const handlesInside = [points[1], points[2]].every(point => {
+    const x = toUnitBox(box, point).x;
+    return x >= 0 && x <= 1;
+  });
+  return (
+    handlesInside &&
+    isOnCorner(points[0], fromUnitBox(box, { x: 0, y: 0 })) &&
+    isOnCorner(points[3], fromUnitBox(box, { x: 1, y: 1 }))
+  );
+}
+
+export function getEasingValues(curve: BezierCurve, box: EasingBox): CubicBezierValues | null {
+  if (!isEasingCurve(curve, box)) return null;
+  const first = toUnitBox(box, curve.points[1]);
+  const second = toUnitBox(box, curve.points[2]);
+  return [first.x, first.y, second.x, second.y];
+}
+
+// Keeps a dragged handle between the box's left and right edges, so progress is a
+// function of time; it may leave the box vertically to overshoot
+export function constrainEasingHandle(point: Point, box: EasingBox): Point {
+  const x = Math.min(box.left + box.size, Math.max(box.left, point.x));
+  return { ...point, x };
+}
+
+function roundValue(value: number): number {
+  const rounded = Math.round(value * 1000) / 1000;
+  return rounded === 0 ? 0 : rounded;
+}
+
+export function formatCubicBezier(values: number[]): string {
+  return `cubic-bezier(${values.map(roundValue).join(', ')})`;
+}
+
+// Name of the preset the values round to, if any
+export function findEasingPreset(values: CubicBezierValues): string | null {
+  const rounded = values.map(roundValue);
+  const preset = EASING_PRESETS.find(({ values: preset }) =>
+    preset.every((value, i) => value === rounded[i])
+  );
+  return preset?.name ?? null;
+}
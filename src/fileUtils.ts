@@ -1,33 +1,262 @@
-import { Point } from './types';
-
-export function validatePointsArray(points: unknown): points is Point[] {
-  if (!Array.isArray(points)) return false;
-
-  return points.every(
-    p =>
-      p &&
-      typeof p === 'object' &&
-      'x' in p &&
-      'y' in p &&
-      typeof p.x === 'number' &&
-      typeof p.y === 'number' &&
-      !isNaN(p.x) &&
-      !isNaN(p.y)
-  );
-}
-
-export function validateCurvesData(curves: unknown): boolean {
-  if (!Array.isArray(curves)) return false;
-
-  return curves.every(
-    curve =>
-      curve &&
-      typeof curve === 'object' &&
-      'id' in curve &&
-      'points' in curve &&
-      'color' in curve &&
-      typeof curve.id === 'string' &&
-      typeof curve.color === 'string' &&
-      validatePointsArray(curve.points)
-  );
+import { BezierDocument, ViewSettings, VisualizationMode } from './types';
+
+// Saved documents carry a version; older files are brought up to date by the migrations
+// below before they are validated, so the editor only ever loads the current format
+export const DOCUMENT_VERSION = 1;
+const DOCUMENT_GENERATOR = 'bezier';
+
+export const DEFAULT_VIEW_SETTINGS: ViewSettings = {
+  visualizationMode: 'default',
+  t: 0,
+  showBounds: false,
+  showBasis: false,
+};
+
+export interface LoadedDocument {
+  document: BezierDocument | null;
+  errors: string[]; // Path-qualified, e.g. `curves[2].points[5].x is NaN`; empty on success
+}
+
+type Migration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+// MIGRATIONS[n] turns a version n document into version n + 1
+const MIGRATIONS: Migration[] = [
+  // 0 → 1: files saved before versioning hold just the curves (and maybe the active curve)
+  data => ({
+    version: 1,
+    curves: data.curves,
+    activeCurveId: typeof data.activeCurveId === 'string' ? data.activeCurveId : null,
+    view: { ...DEFAULT_VIEW_SETTINGS },
+    metadata: { generator: DOCUMENT_GENERATOR },
+  }),
+];
+
+const CURVE_KINDS = ['bezier', 'spline', 'interpolating', 'bspline'];
+const JOINT_CONTINUITIES = ['C0', 'C1', 'G1'];
+const VISUALIZATION_MODES: VisualizationMode[] = [
+  'default',
+  'decasteljau',
+  'deboor',
+  'tslider',
+  'intersections',
+  'curvature',
+  'hodograph',
+];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function getNumberErrors(value: unknown, path: string): string[] {
+  if (value === undefined) return [`${path} is missing`];
+  if (typeof value !== 'number') return [`${path} is not a number`];
+  if (isNaN(value)) return [`${path} is NaN`];
+  if (!isFinite(value)) return [`${path} is not finite`];
+  return [];
+}
+
+function getStringErrors(value: unknown, path: string): string[] {
+  if (value === undefined) return [`${path} is missing`];
+  return typeof value === 'string' ? [] : [`${path} is not a string`];
+}
+
+function getBooleanErrors(value: unknown, path: string): string[] {
+  return typeof value === 'boolean' ? [] : [`${path} must be true or false`];
+}
+
+export function getPointErrors(point: unknown, path: string): string[] {
+  if (!isObject(point)) return [`${path} is not an object`];
+
+  const errors = [
+    ...getNumberErrors(point.x, `${path}.x`),
+    ...getNumberErrors(point.y, `${path}.y`),
+  ];
+  if ('weight' in point) {
+    const { weight } = point;
+    if (typeof weight !== 'number' || !isFinite(weight) || weight <= 0) {
+      errors.push(`${path}.weight must be a positive number`);
+    }
+  }
+  return errors;
+}
+
+// Optional fields only need checking when they are present
+function getCurveKindErrors(curve: Record<string, unknown>, path: string): string[] {
+  const errors: string[] = [];
+  if ('kind' in curve && !CURVE_KINDS.includes(curve.kind as string)) {
+    errors.push(`${path}.kind must be one of ${CURVE_KINDS.join(', ')}`);
+  }
+  // Interpolating curves hold whole cubic segments: knot, handle, handle, knot, ...
+  if (curve.kind === 'interpolating' && Array.isArray(curve.points)) {
+    const count = curve.points.length;
+    if (count > 0 && (count - 1) % 3 !== 0) {
+      errors.push(`${path}.points has ${count} points; interpolating curves need 3n + 1`);
+    }
+  }
+  if ('segmentDegree' in curve && curve.segmentDegree !== 2 && curve.segmentDegree !== 3) {
+    errors.push(`${path}.segmentDegree must be 2 or 3`);
+  }
+  if ('degree' in curve) {
+    const { degree } = curve;
+    if (typeof degree !== 'number' || !Number.isInteger(degree) || degree < 1) {
+      errors.push(`${path}.degree must be a whole number of at least 1`);
+    }
+  }
+  if ('knots' in curve) {
+    const { knots } = curve;
+    if (!Array.isArray(knots)) {
+      errors.push(`${path}.knots is not an array`);
+    } else {
+      knots.forEach((knot, i) => {
+        const knotErrors = getNumberErrors(knot, `${path}.knots[${i}]`);
+        errors.push(...knotErrors);
+        // Knot vectors never decrease
+        if (knotErrors.length === 0 && i > 0 && knot < knots[i - 1]) {
+          errors.push(`${path}.knots[${i}] is smaller than the knot before it`);
+        }
+      });
+    }
+  }
+  if ('continuity' in curve) {
+    const { continuity } = curve;
+    if (!Array.isArray(continuity)) {
+      errors.push(`${path}.continuity is not an array`);
+    } else {
+      continuity.forEach((c, i) => {
+        if (!JOINT_CONTINUITIES.includes(c)) {
+          errors.push(`${path}.continuity[${i}] must be one of ${JOINT_CONTINUITIES.join(', ')}`);
+        }
+      });
+    }
+  }
+  return errors;
+}
+
+export function getCurveErrors(curve: unknown, path: string): string[] {
+  if (!isObject(curve)) return [`${path} is not an object`];
+
+  const errors = [
+    ...getStringErrors(curve.id, `${path}.id`),
+    ...getStringErrors(curve.color, `${path}.color`),
+  ];
+  if (curve.points === undefined) {
+    errors.push(`${path}.points is missing`);
+  } else if (!Array.isArray(curve.points)) {
+    errors.push(`${path}.points is not an array`);
+  } else {
+    curve.points.forEach((point, i) =>
+      errors.push(...getPointErrors(point, `${path}.points[${i}]`))
+    );
+  }
+  return [...errors, ...getCurveKindErrors(curve, path)];
+}
+
+export function getCurvesErrors(curves: unknown, path = 'curves'): string[] {
+  if (curves === undefined) return [`${path} is missing`];
+  if (!Array.isArray(curves)) return [`${path} is not an array`];
+
+  const errors: string[] = [];
+  const firstWithId = new Map<string, number>();
+  curves.forEach((curve, i) => {
+    errors.push(...getCurveErrors(curve, `${path}[${i}]`));
+    if (isObject(curve) && typeof curve.id === 'string') {
+      const first = firstWithId.get(curve.id);
+      if (first !== undefined) {
+        errors.push(`${path}[${i}].id "${curve.id}" is already used by ${path}[${first}]`);
+      } else {
+        firstWithId.set(curve.id, i);
+      }
+    }
+  });
+  return errors;
+}
+
+function getViewErrors(view: unknown, path: string): string[] {
+  if (!isObject(view)) return [`${path} is not an object`];
+
+  const errors: string[] = [];
+  if (!VISUALIZATION_MODES.includes(view.visualizationMode as VisualizationMode)) {
+    errors.push(`${path}.visualizationMode must be one of ${VISUALIZATION_MODES.join(', ')}`);
+  }
+  const tErrors = getNumberErrors(view.t, `${path}.t`);
+  errors.push(...tErrors);
+  if (tErrors.length === 0 && ((view.t as number) < 0 || (view.t as number) > 1)) {
+    errors.push(`${path}.t must be between 0 and 1`);
+  }
+  errors.push(...getBooleanErrors(view.showBounds, `${path}.showBounds`));
+  errors.push(...getBooleanErrors(view.showBasis, `${path}.showBasis`));
+  return errors;
+}
+
+function getMetadataErrors(metadata: unknown, path: string): string[] {
+  if (!isObject(metadata)) return [`${path} is not an object`];
+
+  const errors = getStringErrors(metadata.generator, `${path}.generator`);
+  ['createdAt', 'modifiedAt'].forEach(key => {
+    const value = metadata[key];
+    if (value !== undefined && (typeof value !== 'string' || isNaN(Date.parse(value)))) {
+      errors.push(`${path}.${key} is not a date`);
+    }
+  });
+  return errors;
+}
+
+// Every problem with a current-version document, each prefixed with where it is
+export function getDocumentErrors(data: unknown): string[] {
+  if (!isObject(data)) return ['The document is not a JSON object'];
+
+  const errors: string[] = [];
+  if (data.version !== DOCUMENT_VERSION) {
+    errors.push(`version must be ${DOCUMENT_VERSION}`);
+  }
+  errors.push(...getCurvesErrors(data.curves));
+
+  const { activeCurveId } = data;
+  if (activeCurveId !== null && typeof activeCurveId !== 'string') {
+    errors.push('activeCurveId must be a string or null');
+  } else if (
+    typeof activeCurveId === 'string' &&
+    Array.isArray(data.curves) &&
+    !data.curves.some(curve => isObject(curve) && curve.id === activeCurveId)
+  ) {
+    errors.push(`activeCurveId "${activeCurveId}" does not match any curve`);
+  }
+
+  errors.push(...getViewErrors(data.view, 'view'));
+  errors.push(...getMetadataErrors(data.metadata, 'metadata'));
+  return errors;
+}
+
+// Brings parsed JSON of any known version up to date and validates it
+export function parseDocument(data: unknown): LoadedDocument {
+  if (!isObject(data)) return { document: null, errors: ['The file does not hold a JSON object'] };
+
+  const version = data.version ?? 0;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    return { document: null, errors: ['version must be a whole number'] };
+  }
+  if (version > DOCUMENT_VERSION) {
+    return {
+      document: null,
+      errors: [`version ${version} is newer than this editor supports (${DOCUMENT_VERSION})`],
+    };
+  }
+
+  const migrated = MIGRATIONS.slice(version).reduce((current, migrate) => migrate(current), data);
+  const errors = getDocumentErrors(migrated);
+  if (errors.length > 0) return { document: null, errors };
+  return { document: migrated as unknown as BezierDocument, errors: [] };
+}
+
+// A document for the current version; createdAt carries over from the file it was loaded from
+export function createDocument(
+  content: Pick<BezierDocument, 'curves' | 'activeCurveId' | 'view'>,
+  createdAt?: string
+): BezierDocument {
+  const now = new Date().toISOString();
+  return {
+    version: DOCUMENT_VERSION,
+    ...content,
+    metadata: { generator: DOCUMENT_GENERATOR, createdAt: createdAt ?? now, modifiedAt: now },
+  };
 }
@@ -0,0 +1,183 @@
+import { Point } from './types';
+import { evaluateBezier, getDerivative, getSecondDerivative } from './bezier';
+
+// Schneider's algorithm ("An Algorithm for Automatically Fitting Digitized Curves",
+// Graphics Gems, 1990): least-squares cubics with fixed end tangents, improved by
+// Newton reparameterization and split at the worst point until within the error
+
+// Maximum distance (in pixels) between the sketched points and the fitted curve
+export const DEFAULT_FIT_ERROR = 4;
+// Fits this many times worse than the target are worth reparameterizing before splitting
+const REPARAMETERIZE_FACTOR = 4;
+const MAX_REPARAMETERIZE_ITERATIONS = 4;
+// Sketch points closer together than this add only noise
+const MIN_POINT_SPACING = 1;
+
+const add = (a: Point, b: Point): Point => ({ x: a.x + b.x, y: a.y + b.y });
+const subtract = (a: Point, b: Point): Point => ({ x: a.x - b.x, y: a.y - b.y });
+const scale = (a: Point, s: number): Point => ({ x: a.x * s, y: a.y * s });
+const dot = (a: Point, b: Point): number => a.x * b.x + a.y * b.y;
+const distance = (a: Point, b: Point): number => Math.hypot(a.x - b.x, a.y - b.y);
+
+function normalize(v: Point): Point {
+  const length = Math.hypot(v.x, v.y);
+  return length > 0 ? { x: v.x / length, y: v.y / length } : { x: 0, y: 0 };
+}
+
+function removeDuplicates(path: Point[]): Point[] {
+  const kept: Point[] = [];
+  for (const { x, y } of path) {
+    if (kept.length === 0 || distance(kept[kept.length - 1], { x, y }) >= MIN_POINT_SPACING) {
+      kept.push({ x, y });
+    }
+  }
+  return kept;
+}
+
+// Parameter of each point by its share of the polyline length
+function chordLengthParameterize(points: Point[]): number[] {
+  const lengths = [0];
+  for (let i = 1; i < points.length; i++) {
+    lengths.push(lengths[i - 1] + distance(points[i], points[i - 1]));
+  }
+  const total = lengths[lengths.length - 1];
+  return lengths.map(length => (total > 0 ? length / total : 0));
+}
+
+// Least-squares handle lengths along the fixed end tangents
+function generateBezier(
+  points: Point[],
+  parameters: number[],
+  leftTangent: Point,
+  rightTangent: Point
+): Point[] {
+  const first = points[0];
+  const last = points[points.length - 1];
+  let c00 = 0;
+  let c01 = 0;
+  let c11 = 0;
+  let x0 = 0;
+  let x1 = 0;
+
+  parameters.forEach((u, i) => {
+    const b0 = (1 - u) ** 3;
+    const b1 = 3 * u * (1 - u) ** 2;
+    const b2 = 3 * u * u * (1 - u);
+    const b3 = u ** 3;
+    const a1 = scale(leftTangent, b1);
+    const a2 = scale(rightTangent, b2);
+    c00 += dot(a1, a1);
+    c01 += dot(a1, a2);
+    c11 += dot(a2, a2);
+    const rest = subtract(points[i], add(scale(first, b0 + b1), scale(last, b2 + b3)));
+    x0 += dot(a1, rest);
+    x1 += dot(a2, rest);
+  });
+
+  const determinant = c00 * c11 - c01 * c01;
+  let alpha1 = determinant !== 0 ? (x0 * c11 - x1 * c01) / determinant : 0;
+  let alpha2 = determinant !== 0 ? (c00 * x1 - c01 * x0) / determinant : 0;
+
+  // Degenerate or backwards handles: fall back to the Wu/Barsky heuristic
+  const span = distance(first, last);
+  const epsilon = 1e-6 * span;
+  if (alpha1 < epsilon || alpha2 < epsilon) {
+    alpha1 = alpha2 = span / 3;
+  }
+
+  return [
+    first,
+    add(first, scale(leftTangent, alpha1)),
+    add(last, scale(rightTangent, alpha2)),
+    last,
+  ];
+}
+
+// One Newton-Raphson step per point towards the parameter of its closest curve point
+function reparameterize(bezier: Point[], points: Point[], parameters: number[]): number[] {
+  return parameters.map((u, i) => {
+    const difference = subtract(evaluateBezier(bezier, u), points[i]);
+    const d1 = getDerivative(bezier, u);
+    const d2 = getSecondDerivative(bezier, u);
+    const denominator = dot(d1, d1) + dot(difference, d2);
+    if (denominator === 0) return u;
+    return Math.min(Math.max(u - dot(difference, d1) / denominator, 0), 1);
+  });
+}
+
+function getMaxError(
+  bezier: Point[],
+  points: Point[],
+  parameters: number[]
+): { error: number; index: number } {
+  let error = 0;
+  let index = Math.floor(points.length / 2);
+  for (let i = 1; i < points.length - 1; i++) {
+    const d = distance(evaluateBezier(bezier, parameters[i]), points[i]);
+    if (d > error) {
+      error = d;
+      index = i;
+    }
+  }
+  return { error, index };
+}
+
+function fitCubic(
+  points: Point[],
+  leftTangent: Point,
+  rightTangent: Point,
+  maxError: number,
+  segments: Point[][]
+) {
+  const first = points[0];
+  const last = points[points.length - 1];
+
+  if (points.length === 2) {
+    const span = distance(first, last) / 3;
+    segments.push([
+      first,
+      add(first, scale(leftTangent, span)),
+      add(last, scale(rightTangent, span)),
+      last,
+    ]);
+    return;
+  }
+
+  let parameters = chordLengthParameterize(points);
+  let bezier = generateBezier(points, parameters, leftTangent, rightTangent);
+  let { error, index } = getMaxError(bezier, points, parameters);
+
+  if (error > maxError && error < maxError * REPARAMETERIZE_FACTOR) {
+    for (let i = 0; i < MAX_REPARAMETERIZE_ITERATIONS && error > maxError; i++) {
+      parameters = reparameterize(bezier, points, parameters);
+      bezier = generateBezier(points, parameters, leftTangent, rightTangent);
+      ({ error, index } = getMaxError(bezier, points, parameters));
+    }
+  }
+
+  if (error <= maxError) {
+    segments.push(bezier);
+    return;
+  }
+
+  // Split at the worst point, sharing a tangent there so the halves meet smoothly
+  let centerTangent = normalize(subtract(points[index - 1], points[index + 1]));
+  if (centerTangent.x === 0 && centerTangent.y === 0) {
+    centerTangent = normalize(subtract(points[index - 1], points[index]));
+  }
+  fitCubic(points.slice(0, index + 1), leftTangent, centerTangent, maxError, segments);
+  fitCubic(points.slice(index), scale(centerTangent, -1), rightTangent, maxError, segments);
+}
+
+// Chain of cubic segments through a sketched polyline, each within maxError of the
+// points it covers. Consecutive segments share an end point and a tangent direction.
+export function fitCubicBeziers(path: Point[], maxError = DEFAULT_FIT_ERROR): Point[][] {
+  const points = removeDuplicates(path);
+  if (points.length < 2) return [];
+
+  const leftTangent = normalize(subtract(points[1], points[0]));
+  const rightTangent = normalize(subtract(points[points.length - 2], points[points.length - 1]));
+  const segments: Point[][] = [];
+  fitCubic(points, leftTangent, rightTangent, maxError, segments);
+  return segments;
+}
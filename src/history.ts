@@ -1,4 +1,8 @@
-import { BezierCurve, Point } from './types';
+import { BezierCurve, JointContinuity, Point } from './types';
+import { elevateDegree, reduceDegree } from './bezier';
+import { DEFAULT_CONTINUITY, enforceJointContinuity, splitCurve } from './spline';
+import { appendKnot, getOwningKnot, isKnot, removeKnot, resetHandles } from './interpolation';
+import { getBSplineDegree, getKnotParameter, getKnotVector, insertKnot } from './bspline';
 
 export interface Command {
   execute(state: AppState): void;
@@ -106,13 +110,224 @@ class MovePointCommand implements Command {
   }
 }
 
+interface PointMove {
+  index: number;
+  oldPoint: Point;
+  newPoint: Point;
+}
+
+// Moves several points at once, e.g. a spline handle and the handle it keeps aligned
+class MovePointsCommand implements Command {
+  constructor(
+    private curveId: string,
+    private moves: PointMove[]
+  ) {}
+
+  execute(state: AppState): void {
+    const curve = state.curves.find(c => c.id === this.curveId);
+    if (!curve) return;
+    this.moves.forEach(move => {
+      if (curve.points[move.index]) {
+        curve.points[move.index] = { ...move.newPoint };
+      }
+    });
+  }
+
+  undo(state: AppState): void {
+    const curve = state.curves.find(c => c.id === this.curveId);
+    if (!curve) return;
+    this.moves.forEach(move => {
+      if (curve.points[move.index]) {
+        curve.points[move.index] = { ...move.oldPoint };
+      }
+    });
+  }
+
+  getAffectedCurveId(): string | null {
+    return this.curveId;
+  }
+
+  serialize(): any {
+    return { curveId: this.curveId, moves: this.moves };
+  }
+}
+
+// Appends a knot to an interpolating curve, re-deriving the handles around it
+class AddKnotCommand implements Command {
+  private previousPoints: Point[] | null = null;
+
+  constructor(
+    private curveId: string,
+    private point: Point
+  ) {}
+
+  execute(state: AppState): void {
+    const curve = state.curves.find(c => c.id === this.curveId);
+    if (!curve) return;
+
+    this.previousPoints = curve.points.map(p => ({ ...p }));
+    curve.points.splice(0, curve.points.length, ...appendKnot(curve.points, this.point));
+  }
+
+  undo(state: AppState): void {
+    const curve = state.curves.find(c => c.id === this.curveId);
+    if (curve && this.previousPoints) {
+      curve.points.splice(0, curve.points.length, ...this.previousPoints.map(p => ({ ...p })));
+    }
+  }
+
+  getAffectedCurveId(): string | null {
+    return this.curveId;
+  }
+
+  serialize(): any {
+    return { curveId: this.curveId, point: this.point };
+  }
+}
+
+// Removes a knot from an interpolating curve; given a handle instead, puts that
+// knot's handles back where they are derived
+class RemoveKnotCommand implements Command {
+  private previousPoints: Point[] | null = null;
+
+  constructor(
+    private curveId: string,
+    private index: number
+  ) {}
+
+  execute(state: AppState): void {
+    const curve = state.curves.find(c => c.id === this.curveId);
+    if (!curve || !curve.points[this.index]) return;
+
+    this.previousPoints = curve.points.map(p => ({ ...p }));
+    const knot = getOwningKnot(this.index);
+    const points = this.isHandleReset()
+      ? resetHandles(curve.points, knot)
+      : removeKnot(curve.points, knot);
+    curve.points.splice(0, curve.points.length, ...points);
+  }
+
+  undo(state: AppState): void {
+    const curve = state.curves.find(c => c.id === this.curveId);
+    if (curve && this.previousPoints) {
+      curve.points.splice(0, curve.points.length, ...this.previousPoints.map(p => ({ ...p })));
+    }
+  }
+
+  isHandleReset(): boolean {
+    return !isKnot(this.index);
+  }
+
+  getAffectedCurveId(): string | null {
+    return this.curveId;
+  }
+
+  serialize(): any {
+    return { curveId: this.curveId, index: this.index };
+  }
+}
+
+class SetJointContinuityCommand implements Command {
+  private previousPoints: Point[] | null = null;
+
+  constructor(
+    private curveId: string,
+    private joint: number,
+    private oldContinuity: JointContinuity,
+    private newContinuity: JointContinuity
+  ) {}
+
+  execute(state: AppState): void {
+    const curve = state.curves.find(c => c.id === this.curveId);
+    if (!curve) return;
+
+    this.previousPoints = curve.points.map(p => ({ ...p }));
+    this.setContinuity(curve, this.newContinuity);
+    // Snap the outgoing handle so the joint honours the new setting right away
+    enforceJointContinuity(curve, curve.points, this.joint);
+  }
+
+  undo(state: AppState): void {
+    const curve = state.curves.find(c => c.id === this.curveId);
+    if (!curve) return;
+
+    this.setContinuity(curve, this.oldContinuity);
+    if (this.previousPoints) {
+      curve.points.splice(0, curve.points.length, ...this.previousPoints.map(p => ({ ...p })));
+    }
+  }
+
+  private setContinuity(curve: BezierCurve, continuity: JointContinuity): void {
+    const settings = [...(curve.continuity ?? [])];
+    while (settings.length < this.joint) {
+      settings.push(DEFAULT_CONTINUITY);
+    }
+    settings[this.joint] = continuity;
+    curve.continuity = settings;
+  }
+
+  getAffectedCurveId(): string | null {
+    return this.curveId;
+  }
+
+  serialize(): any {
+    return {
+      curveId: this.curveId,
+      joint: this.joint,
+      oldContinuity: this.oldContinuity,
+      newContinuity: this.newContinuity,
+    };
+  }
+}
+
+class SetPointWeightCommand implements Command {
+  constructor(
+    private curveId: string,
+    private index: number,
+    private oldWeight: number,
+    private newWeight: number
+  ) {}
+
+  execute(state: AppState): void {
+    this.applyWeight(state, this.newWeight);
+  }
+
+  undo(state: AppState): void {
+    this.applyWeight(state, this.oldWeight);
+  }
+
+  private applyWeight(state: AppState, weight: number): void {
+    const curve = state.curves.find(c => c.id === this.curveId);
+    const point = curve?.points[this.index];
+    if (!curve || !point) return;
+
+    // Weight 1 is the default, so drop the field to keep saved files free of noise
+    const { weight: _weight, ...coordinates } = point;
+    curve.points[this.index] = weight === 1 ? coordinates : { ...coordinates, weight };
+  }
+
+  getAffectedCurveId(): string | null {
+    return this.curveId;
+  }
+
+  serialize(): any {
+    return {
+      curveId: this.curveId,
+      index: this.index,
+      oldWeight: this.oldWeight,
+      newWeight: this.newWeight,
+    };
+  }
+}
+
 class AddCurveCommand implements Command {
   constructor(private curve: BezierCurve) {}
 
   execute(state: AppState): void {
+    // Keep the curve kind and its settings, but always start without points
+    const { points: _points, ...properties } = this.curve;
     state.curves.push({
-      id: this.curve.id,
-      color: this.curve.color,
+      ...JSON.parse(JSON.stringify(properties)),
       points: [],
     });
   }
@@ -133,6 +348,39 @@ class AddCurveCommand implements Command {
   }
 }
 
+// Adds complete curves, points included, as one step (e.g. a fitted sketch)
+class AddCurvesCommand implements Command {
+  private curves: BezierCurve[];
+
+  constructor(curves: BezierCurve[]) {
+    this.curves = JSON.parse(JSON.stringify(curves));
+  }
+
+  execute(state: AppState): void {
+    state.curves.push(...JSON.parse(JSON.stringify(this.curves)));
+  }
+
+  undo(state: AppState): void {
+    const ids = new Set(this.curves.map(c => c.id));
+    for (let i = state.curves.length - 1; i >= 0; i--) {
+      if (ids.has(state.curves[i].id)) {
+        state.curves.splice(i, 1);
+      }
+    }
+  }
+
+  getAffectedCurveId(): string | null {
+    return this.curves[this.curves.length - 1]?.id || null;
+  }
+
+  serialize(): any {
+    return { curves: this.curves };
+  }
+}
+
+// Curves brought in from a file, appended next to the existing ones
+class ImportCurvesCommand extends AddCurvesCommand {}
+
 class RemoveCurveCommand implements Command {
   private curveData: BezierCurve;
   private curveIndex: number;
@@ -159,6 +407,216 @@ class RemoveCurveCommand implements Command {
   }
 }
 
+// Replaces a curve with the two exact pieces on either side of t
+class SplitCurveCommand implements Command {
+  private originalCurve: BezierCurve | null = null;
+
+  constructor(
+    private curveId: string,
+    private t: number,
+    private newCurveId: string
+  ) {}
+
+  execute(state: AppState): void {
+    const index = state.curves.findIndex(c => c.id === this.curveId);
+    if (index === -1) return;
+
+    const pieces = splitCurve(state.curves[index], this.t, this.newCurveId);
+    if (!pieces) return;
+
+    this.originalCurve = JSON.parse(JSON.stringify(state.curves[index]));
+    state.curves.splice(index, 1, ...pieces);
+  }
+
+  undo(state: AppState): void {
+    if (!this.originalCurve) return;
+
+    const newIndex = state.curves.findIndex(c => c.id === this.newCurveId);
+    if (newIndex !== -1) {
+      state.curves.splice(newIndex, 1);
+    }
+    const index = state.curves.findIndex(c => c.id === this.curveId);
+    if (index !== -1) {
+      state.curves[index] = JSON.parse(JSON.stringify(this.originalCurve));
+    }
+  }
+
+  getAffectedCurveId(): string | null {
+    return this.curveId;
+  }
+
+  serialize(): any {
+    return { curveId: this.curveId, t: this.t, newCurveId: this.newCurveId };
+  }
+}
+
+type DegreeChange = 'elevate' | 'reduce';
+
+// Elevation keeps the shape exactly, reduction replaces it with the best approximation
+class ChangeDegreeCommand implements Command {
+  private previousPoints: Point[] | null = null;
+  private approximationError = 0;
+
+  constructor(
+    private curveId: string,
+    private direction: DegreeChange
+  ) {}
+
+  execute(state: AppState): void {
+    const curve = state.curves.find(c => c.id === this.curveId);
+    if (!curve) return;
+
+    this.previousPoints = curve.points.map(p => ({ ...p }));
+    if (this.direction === 'elevate') {
+      curve.points = elevateDegree(curve.points);
+      this.approximationError = 0;
+    } else {
+      const reduced = reduceDegree(curve.points);
+      curve.points = reduced.points;
+      this.approximationError = reduced.error;
+    }
+  }
+
+  undo(state: AppState): void {
+    const curve = state.curves.find(c => c.id === this.curveId);
+    if (curve && this.previousPoints) {
+      curve.points = this.previousPoints.map(p => ({ ...p }));
+    }
+  }
+
+  // Largest distance (in pixels) between the curve before and after the last execute
+  getApproximationError(): number {
+    return this.approximationError;
+  }
+
+  getAffectedCurveId(): string | null {
+    return this.curveId;
+  }
+
+  serialize(): any {
+    return { curveId: this.curveId, direction: this.direction };
+  }
+}
+
+// Inserts a knot into a B-spline at a curve-wide t; the shape stays the same but the
+// curve gains a control point there
+class InsertKnotCommand implements Command {
+  private previousCurve: BezierCurve | null = null;
+
+  constructor(
+    private curveId: string,
+    private t: number
+  ) {}
+
+  execute(state: AppState): void {
+    const curve = state.curves.find(c => c.id === this.curveId);
+    if (!curve || curve.points.length < 2) return;
+
+    this.previousCurve = JSON.parse(JSON.stringify(curve));
+    const degree = getBSplineDegree(curve);
+    const u = getKnotParameter(curve, this.t);
+    const { points, knots } = insertKnot(curve.points, getKnotVector(curve), degree, u);
+    curve.points.splice(0, curve.points.length, ...points);
+    curve.knots = knots;
+  }
+
+  undo(state: AppState): void {
+    const curve = state.curves.find(c => c.id === this.curveId);
+    if (!curve || !this.previousCurve) return;
+
+    const { points, knots } = JSON.parse(JSON.stringify(this.previousCurve)) as BezierCurve;
+    curve.points.splice(0, curve.points.length, ...points);
+    if (knots) {
+      curve.knots = knots;
+    } else {
+      delete curve.knots;
+    }
+  }
+
+  getAffectedCurveId(): string | null {
+    return this.curveId;
+  }
+
+  serialize(): any {
+    return { curveId: this.curveId, t: this.t };
+  }
+}
+
+// Replaces a B-spline's knot vector; undefined goes back to uniform knots
+class SetKnotsCommand implements Command {
+  constructor(
+    private curveId: string,
+    private oldKnots: number[] | undefined,
+    private newKnots: number[] | undefined
+  ) {}
+
+  execute(state: AppState): void {
+    this.applyKnots(state, this.newKnots);
+  }
+
+  undo(state: AppState): void {
+    this.applyKnots(state, this.oldKnots);
+  }
+
+  private applyKnots(state: AppState, knots: number[] | undefined): void {
+    const curve = state.curves.find(c => c.id === this.curveId);
+    if (!curve) return;
+
+    if (knots) {
+      curve.knots = [...knots];
+    } else {
+      delete curve.knots;
+    }
+  }
+
+  getAffectedCurveId(): string | null {
+    return this.curveId;
+  }
+
+  serialize(): any {
+    return { curveId: this.curveId, oldKnots: this.oldKnots, newKnots: this.newKnots };
+  }
+}
+
+// Turns a curve into a plain cubic through the given points, e.g. an easing curve in the
+// timing-function editor; undo restores the curve as it was, kind and all
+class ApplyEasingCommand implements Command {
+  private previousCurve: BezierCurve | null = null;
+
+  constructor(
+    private curveId: string,
+    private points: Point[]
+  ) {}
+
+  execute(state: AppState): void {
+    const index = state.curves.findIndex(c => c.id === this.curveId);
+    if (index === -1) return;
+
+    const curve = state.curves[index];
+    this.previousCurve = JSON.parse(JSON.stringify(curve));
+    state.curves[index] = {
+      id: curve.id,
+      color: curve.color,
+      points: this.points.map(p => ({ x: p.x, y: p.y })),
+    };
+  }
+
+  undo(state: AppState): void {
+    const index = state.curves.findIndex(c => c.id === this.curveId);
+    if (index !== -1 && this.previousCurve) {
+      state.curves[index] = JSON.parse(JSON.stringify(this.previousCurve));
+    }
+  }
+
+  getAffectedCurveId(): string | null {
+    return this.curveId;
+  }
+
+  serialize(): any {
+    return { curveId: this.curveId, points: this.points };
+  }
+}
+
 class LoadCurvesCommand implements Command {
   private oldCurves: BezierCurve[];
 
@@ -311,14 +769,56 @@ export class HistoryManager {
     } else if (command instanceof MovePointCommand) {
       const colorName = this.getCurveColorName(command.getAffectedCurveId()!);
       return `Move point in ${colorName}`;
+    } else if (command instanceof MovePointsCommand) {
+      const colorName = this.getCurveColorName(command.getAffectedCurveId()!);
+      return `Move points in ${colorName}`;
+    } else if (command instanceof AddKnotCommand) {
+      const colorName = this.getCurveColorName(command.getAffectedCurveId()!);
+      return `Add knot to ${colorName}`;
+    } else if (command instanceof RemoveKnotCommand) {
+      const colorName = this.getCurveColorName(command.getAffectedCurveId()!);
+      return command.isHandleReset()
+        ? `Reset handles in ${colorName}`
+        : `Remove knot from ${colorName}`;
+    } else if (command instanceof SetJointContinuityCommand) {
+      const colorName = this.getCurveColorName(command.getAffectedCurveId()!);
+      return `Set ${command['newContinuity']} joint in ${colorName}`;
+    } else if (command instanceof SetPointWeightCommand) {
+      const colorName = this.getCurveColorName(command.getAffectedCurveId()!);
+      return `Change point weight in ${colorName}`;
     } else if (command instanceof AddCurveCommand) {
       // For AddCurveCommand, get color from the command itself
       const colorName = this.getColorName(command['curve'].color);
       return `Create ${colorName} curve`;
+    } else if (command instanceof ImportCurvesCommand) {
+      const count = command['curves'].length;
+      return `Import ${count} curve${count === 1 ? '' : 's'}`;
+    } else if (command instanceof AddCurvesCommand) {
+      const curves = command['curves'];
+      if (curves.length === 1) {
+        return `Add ${this.getColorName(curves[0].color)} curve`;
+      }
+      return `Add ${curves.length} curves`;
     } else if (command instanceof RemoveCurveCommand) {
       // For RemoveCurveCommand, get color from the stored curve data
       const colorName = this.getColorName(command['curveData'].color);
       return `Delete ${colorName} curve`;
+    } else if (command instanceof SplitCurveCommand) {
+      const colorName = this.getCurveColorName(command.getAffectedCurveId()!);
+      return `Split ${colorName} curve`;
+    } else if (command instanceof ChangeDegreeCommand) {
+      const colorName = this.getCurveColorName(command.getAffectedCurveId()!);
+      const verb = command['direction'] === 'elevate' ? 'Elevate' : 'Reduce';
+      return `${verb} degree of ${colorName}`;
+    } else if (command instanceof InsertKnotCommand) {
+      const colorName = this.getCurveColorName(command.getAffectedCurveId()!);
+      return `Insert knot in ${colorName}`;
+    } else if (command instanceof SetKnotsCommand) {
+      const colorName = this.getCurveColorName(command.getAffectedCurveId()!);
+      return `Set knots of ${colorName}`;
+    } else if (command instanceof ApplyEasingCommand) {
+      const colorName = this.getCurveColorName(command.getAffectedCurveId()!);
+      return `Set easing of ${colorName}`;
     } else if (command instanceof LoadCurvesCommand) {
       return 'Load curves from file';
     }
@@ -630,8 +1130,20 @@ export {
   AddPointCommand,
   RemovePointCommand,
   MovePointCommand,
+  MovePointsCommand,
+  AddKnotCommand,
+  RemoveKnotCommand,
+  SetJointContinuityCommand,
+  SetPointWeightCommand,
   AddCurveCommand,
+  AddCurvesCommand,
+  ImportCurvesCommand,
   RemoveCurveCommand,
+  SplitCurveCommand,
+  ChangeDegreeCommand,
+  InsertKnotCommand,
+  SetKnotsCommand,
+  ApplyEasingCommand,
   LoadCurvesCommand,
 };
 export type { BranchInfo };
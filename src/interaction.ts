@@ -1,17 +1,54 @@
 import { Point } from './types';
+import { EasingBox, constrainEasingHandle } from './easing';
+
+// Each wheel notch scales the weight by this factor
+const WEIGHT_STEP = 1.1;
+const MIN_WEIGHT = 0.05;
+const MAX_WEIGHT = 20;
+// Wheel ticks closer together than this are merged into a single weight change
+const WEIGHT_COMMIT_DELAY = 400;
+
+export interface LinkedMove {
+  index: number;
+  oldPoint: Point;
+  point: Point;
+}
 
 export interface PointAction {
-  type: 'add' | 'remove' | 'move';
+  type: 'add' | 'remove' | 'move' | 'weight' | 'continuity' | 'split' | 'sketch';
   point: Point;
   index?: number;
   oldPoint?: Point;
+  linked?: LinkedMove[]; // Other points a constrained drag moved along with this one
+  path?: Point[]; // Freehand polyline captured in sketch mode
 }
 
+// Adjusts other points after points[index] moved away from `previous` (mutates `points`)
+export type DragConstraint = (points: Point[], index: number, previous: Point) => void;
+
+// Lets a drag that starts on the curve (instead of on a point) scrub along it. Called with
+// start=true on mousedown, where returning false hands the click back to normal handling
+export type CurveScrubber = (pos: Point, start: boolean) => boolean;
+
+// Told where the mouse hovers while nothing is being dragged; null once it leaves
+export type HoverHandler = (pos: Point | null) => void;
+
 export class InteractionManager {
   private canvas: HTMLCanvasElement;
   private points: Point[] = [];
   private draggingIndex: number | null = null;
   private dragStartPoint: Point | null = null;
+  private dragStartPoints: Point[] = [];
+  private dragConstraint: DragConstraint | null = null;
+  private curveScrubber: CurveScrubber | null = null;
+  private scrubbing = false;
+  private hoverHandler: HoverHandler | null = null;
+  private sketchMode = false;
+  private sketchPath: Point[] | null = null;
+  private easingBox: EasingBox | null = null;
+  private weightingIndex: number | null = null;
+  private weightStartPoint: Point | null = null;
+  private weightCommitTimer: ReturnType<typeof setTimeout> | null = null;
   private onUpdate: (action?: PointAction) => void;
 
   constructor(canvas: HTMLCanvasElement, onUpdate: (action?: PointAction) => void) {
@@ -24,7 +61,10 @@ export class InteractionManager {
     this.canvas.addEventListener('mousedown', this.handleMouseDown);
     this.canvas.addEventListener('mousemove', this.handleMouseMove);
     this.canvas.addEventListener('mouseup', this.handleMouseUp);
+    this.canvas.addEventListener('mouseleave', this.handleMouseLeave);
     this.canvas.addEventListener('contextmenu', this.handleContextMenu);
+    this.canvas.addEventListener('dblclick', this.handleDoubleClick);
+    this.canvas.addEventListener('wheel', this.handleWheel, { passive: false });
   }
 
   private getMousePos(e: MouseEvent): Point {
@@ -48,11 +88,36 @@ export class InteractionManager {
 
   private handleMouseDown = (e: MouseEvent) => {
     const pos = this.getMousePos(e);
+    if (this.easingBox) {
+      // Only the two handles move; the end points stay on the box's corners
+      const index = this.findPointAtPosition(pos);
+      if (this.points.length === 4 && (index === 1 || index === 2)) {
+        this.draggingIndex = index;
+        this.dragStartPoint = { ...this.points[index] };
+        this.dragStartPoints = this.points.map(p => ({ ...p }));
+      }
+      return;
+    }
+    if (this.sketchMode) {
+      this.sketchPath = [pos];
+      this.onUpdate();
+      return;
+    }
+
     const index = this.findPointAtPosition(pos);
 
     if (index !== -1) {
       this.draggingIndex = index;
       this.dragStartPoint = { ...this.points[index] };
+      this.dragStartPoints = this.points.map(p => ({ ...p }));
+    } else if (this.curveScrubber?.(pos, true)) {
+      this.scrubbing = true;
+    } else if (e.shiftKey) {
+      // Shift+click on a curve cuts it there instead of adding a point
+      this.onUpdate({
+        type: 'split',
+        point: { ...pos },
+      });
     } else {
       this.onUpdate({
         type: 'add',
@@ -62,31 +127,83 @@ export class InteractionManager {
   };
 
   private handleMouseMove = (e: MouseEvent) => {
-    if (this.draggingIndex !== null) {
-      const pos = this.getMousePos(e);
-      this.points[this.draggingIndex] = pos;
+    const pos = this.getMousePos(e);
+    if (this.sketchPath) {
+      this.sketchPath.push(pos);
+      this.onUpdate();
+    } else if (this.draggingIndex !== null) {
+      const previous = this.points[this.draggingIndex];
+      this.points[this.draggingIndex] = this.easingBox
+        ? constrainEasingHandle({ ...previous, ...pos }, this.easingBox)
+        : { ...previous, ...pos };
+      this.dragConstraint?.(this.points, this.draggingIndex, previous);
       this.onUpdate();
+    } else if (this.scrubbing) {
+      this.curveScrubber?.(pos, false);
+    } else {
+      this.hoverHandler?.(pos);
     }
   };
 
+  private handleMouseLeave = () => {
+    this.hoverHandler?.(null);
+  };
+
   private handleMouseUp = () => {
+    if (this.sketchPath) {
+      const path = this.sketchPath;
+      this.sketchPath = null;
+      this.onUpdate({ type: 'sketch', point: { ...path[0] }, path });
+      return;
+    }
+
     if (this.draggingIndex !== null && this.dragStartPoint) {
       const endPoint = this.points[this.draggingIndex];
       if (this.dragStartPoint.x !== endPoint.x || this.dragStartPoint.y !== endPoint.y) {
+        const linked = this.getLinkedMoves(this.draggingIndex);
         this.onUpdate({
           type: 'move',
           point: { ...endPoint },
           index: this.draggingIndex,
           oldPoint: this.dragStartPoint,
+          ...(linked.length > 0 ? { linked } : {}),
         });
       }
     }
     this.draggingIndex = null;
     this.dragStartPoint = null;
+    this.dragStartPoints = [];
+    this.scrubbing = false;
+  };
+
+  private getLinkedMoves(draggedIndex: number): LinkedMove[] {
+    const linked: LinkedMove[] = [];
+    this.dragStartPoints.forEach((oldPoint, index) => {
+      const point = this.points[index];
+      if (index !== draggedIndex && point && (point.x !== oldPoint.x || point.y !== oldPoint.y)) {
+        linked.push({ index, oldPoint, point: { ...point } });
+      }
+    });
+    return linked;
+  }
+
+  private handleDoubleClick = (e: MouseEvent) => {
+    if (this.easingBox) return;
+    const pos = this.getMousePos(e);
+    const index = this.findPointAtPosition(pos);
+
+    if (index !== -1) {
+      this.onUpdate({
+        type: 'continuity',
+        point: { ...this.points[index] },
+        index,
+      });
+    }
   };
 
   private handleContextMenu = (e: MouseEvent) => {
     e.preventDefault();
+    if (this.easingBox) return;
     const pos = this.getMousePos(e);
     const index = this.findPointAtPosition(pos);
 
@@ -100,18 +217,121 @@ export class InteractionManager {
     }
   };
 
+  private handleWheel = (e: WheelEvent) => {
+    const pos = this.getMousePos(e);
+    const index = this.findPointAtPosition(pos);
+    // Weights would make an easing curve rational, which cubic-bezier() cannot express
+    if (index === -1 || this.easingBox) return;
+
+    e.preventDefault();
+
+    if (this.weightingIndex !== null && this.weightingIndex !== index) {
+      this.commitWeight();
+    }
+    if (this.weightingIndex === null) {
+      this.weightingIndex = index;
+      this.weightStartPoint = { ...this.points[index] };
+    }
+
+    const current = this.points[index].weight ?? 1;
+    const scaled = e.deltaY < 0 ? current * WEIGHT_STEP : current / WEIGHT_STEP;
+    const weight = Math.round(Math.min(MAX_WEIGHT, Math.max(MIN_WEIGHT, scaled)) * 1000) / 1000;
+    this.points[index] = { ...this.points[index], weight };
+    this.onUpdate();
+
+    if (this.weightCommitTimer) clearTimeout(this.weightCommitTimer);
+    this.weightCommitTimer = setTimeout(() => this.commitWeight(), WEIGHT_COMMIT_DELAY);
+  };
+
+  // Records a wheel weight change that is still waiting out its delay. Called before
+  // anything else changes the curves, so the change lands on the curve it was made to.
+  commitWeight() {
+    if (this.weightCommitTimer) {
+      clearTimeout(this.weightCommitTimer);
+      this.weightCommitTimer = null;
+    }
+
+    const index = this.weightingIndex;
+    const startPoint = this.weightStartPoint;
+    this.weightingIndex = null;
+    this.weightStartPoint = null;
+
+    if (index === null || !startPoint || !this.points[index]) return;
+
+    const endPoint = this.points[index];
+    if ((startPoint.weight ?? 1) !== (endPoint.weight ?? 1)) {
+      this.onUpdate({
+        type: 'weight',
+        point: { ...endPoint },
+        index,
+        oldPoint: startPoint,
+      });
+    }
+  }
+
   getPoints(): Point[] {
     return this.points;
   }
 
+  // A weight change still pending at this point belongs to points the caller has moved
+  // away from, and the active curve may already be another one, so it is dropped
   setPoints(points: Point[]) {
+    if (points !== this.points) {
+      if (this.weightCommitTimer) clearTimeout(this.weightCommitTimer);
+      this.weightCommitTimer = null;
+      this.weightingIndex = null;
+      this.weightStartPoint = null;
+    }
     this.points = points;
   }
 
+  setDragConstraint(constraint: DragConstraint | null) {
+    this.dragConstraint = constraint;
+  }
+
+  setCurveScrubber(scrubber: CurveScrubber | null) {
+    this.curveScrubber = scrubber;
+    this.scrubbing = false;
+  }
+
+  // While on, drags draw freehand strokes instead of adding or moving points
+  setSketchMode(enabled: boolean) {
+    this.sketchMode = enabled;
+    this.sketchPath = null;
+  }
+
+  isSketchMode(): boolean {
+    return this.sketchMode;
+  }
+
+  // The stroke being drawn, for previewing it before it is fitted
+  getSketchPath(): Point[] | null {
+    return this.sketchPath;
+  }
+
+  // While set, the points are an easing curve in this box: only its handles can be dragged,
+  // and only between the box's left and right edges so the curve stays x-monotonic
+  setEasingBox(box: EasingBox | null) {
+    this.easingBox = box;
+    this.sketchPath = null;
+  }
+
+  getEasingBox(): EasingBox | null {
+    return this.easingBox;
+  }
+
+  setHoverHandler(handler: HoverHandler | null) {
+    this.hoverHandler = handler;
+  }
+
   destroy() {
     this.canvas.removeEventListener('mousedown', this.handleMouseDown);
     this.canvas.removeEventListener('mousemove', this.handleMouseMove);
     this.canvas.removeEventListener('mouseup', this.handleMouseUp);
+    this.canvas.removeEventListener('mouseleave', this.handleMouseLeave);
     this.canvas.removeEventListener('contextmenu', this.handleContextMenu);
+    this.canvas.removeEventListener('dblclick', this.handleDoubleClick);
+    this.canvas.removeEventListener('wheel', this.handleWheel);
+    if (this.weightCommitTimer) clearTimeout(this.weightCommitTimer);
   }
 }
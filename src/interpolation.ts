@@ -0,0 +1,166 @@
+import { BezierCurve, Point } from './types';
+import { constrainSplineDrag } from './spline';
+
+// Interpolating curves pass through the clicked points (knots). They are stored as a
+// cubic spline chain (knot, handle, handle, knot, ...), so everything that draws or
+// measures splines works on them unchanged. Handles start out where a Catmull-Rom
+// spline puts them; a handle the user has moved no longer matches that and is kept.
+
+const KNOT_SPACING = 3;
+// Handles closer than this to their derived position still count as derived
+const DERIVED_EPSILON = 1e-6;
+
+interface KnotHandles {
+  before: Point | null;
+  after: Point | null;
+}
+
+export function isKnot(pointIndex: number): boolean {
+  return pointIndex % KNOT_SPACING === 0;
+}
+
+// Knot that a point belongs to: itself for a knot, the knot it sticks out of for a handle
+export function getOwningKnot(pointIndex: number): number {
+  return Math.round(pointIndex / KNOT_SPACING);
+}
+
+export function getKnotPointIndex(knot: number): number {
+  return knot * KNOT_SPACING;
+}
+
+export function getKnots(points: Point[]): Point[] {
+  return points.filter((_, index) => isKnot(index));
+}
+
+// Catmull-Rom tangent (next - previous) / 2, turned into Bezier handles a third of it
+// away on either side. End knots use the one-sided difference to their neighbour.
+function deriveHandles(knots: Point[], i: number): KnotHandles {
+  const knot = knots[i];
+  const previous = knots[i - 1] ?? knot;
+  const next = knots[i + 1] ?? knot;
+  const scale = i > 0 && i < knots.length - 1 ? 1 / 6 : 1 / 3;
+  const dx = (next.x - previous.x) * scale;
+  const dy = (next.y - previous.y) * scale;
+
+  return {
+    before: i > 0 ? { x: knot.x - dx, y: knot.y - dy } : null,
+    after: i < knots.length - 1 ? { x: knot.x + dx, y: knot.y + dy } : null,
+  };
+}
+
+function mirror(knot: Point, handle: Point): Point {
+  return { x: 2 * knot.x - handle.x, y: 2 * knot.y - handle.y };
+}
+
+function isDerived(handle: Point, derived: Point | null): boolean {
+  return (
+    derived !== null &&
+    Math.abs(handle.x - derived.x) < DERIVED_EPSILON &&
+    Math.abs(handle.y - derived.y) < DERIVED_EPSILON
+  );
+}
+
+// Handles of an old knot that the user moved, carried along to the knot's new position
+function getMovedHandles(
+  points: Point[],
+  oldKnots: Point[],
+  source: number,
+  knot: Point
+): KnotHandles {
+  const oldKnot = oldKnots[source];
+  const derived = deriveHandles(oldKnots, source);
+  const dx = knot.x - oldKnot.x;
+  const dy = knot.y - oldKnot.y;
+
+  const keep = (handle: Point | undefined, derivedHandle: Point | null): Point | null =>
+    handle && !isDerived(handle, derivedHandle)
+      ? { ...handle, x: handle.x + dx, y: handle.y + dy }
+      : null;
+
+  return {
+    before: source > 0 ? keep(points[getKnotPointIndex(source) - 1], derived.before) : null,
+    after:
+      source < oldKnots.length - 1
+        ? keep(points[getKnotPointIndex(source) + 1], derived.after)
+        : null,
+  };
+}
+
+// Chain for a new set of knots. sources[i] is the index knots[i] had among the knots of
+// `points` (null for a new knot). Handles that were derived are derived again from the
+// new knots; moved handles are kept.
+export function reinterpolate(
+  points: Point[],
+  knots: Point[],
+  sources: (number | null)[]
+): Point[] {
+  const oldKnots = getKnots(points);
+  const chain: Point[] = [];
+
+  knots.forEach((knot, i) => {
+    const derived = deriveHandles(knots, i);
+    const source = sources[i];
+    const moved =
+      source === null
+        ? { before: null, after: null }
+        : getMovedHandles(points, oldKnots, source, knot);
+
+    if (derived.before) {
+      chain.push(moved.before ?? derived.before);
+    }
+    chain.push({ ...knot });
+    if (derived.after) {
+      // The old last knot only had a handle before it; keep the new one colinear with it
+      const mirrored = source === oldKnots.length - 1 && moved.before && mirror(knot, moved.before);
+      chain.push(moved.after ?? (mirrored || derived.after));
+    }
+  });
+
+  return chain;
+}
+
+// Chain through the knots with every handle derived
+export function interpolateKnots(knots: Point[]): Point[] {
+  const sources = knots.map(() => null);
+  return reinterpolate([], knots, sources);
+}
+
+export function appendKnot(points: Point[], knot: Point): Point[] {
+  const knots = getKnots(points);
+  return reinterpolate(points, [...knots, knot], [...knots.map((_, i) => i), null]);
+}
+
+export function removeKnot(points: Point[], knotIndex: number): Point[] {
+  const knots = getKnots(points);
+  const sources = knots.map((_, i) => i).filter(i => i !== knotIndex);
+  const remaining = sources.map(i => knots[i]);
+  return reinterpolate(points, remaining, sources);
+}
+
+// Put both handles of a knot back where the knots place them
+export function resetHandles(points: Point[], knotIndex: number): Point[] {
+  const derived = deriveHandles(getKnots(points), knotIndex);
+  const chain = points.map(p => ({ ...p }));
+  if (derived.before) chain[getKnotPointIndex(knotIndex) - 1] = derived.before;
+  if (derived.after) chain[getKnotPointIndex(knotIndex) + 1] = derived.after;
+  return chain;
+}
+
+// While dragging a knot, re-derive the handles around it; a dragged handle keeps the
+// knot smooth by turning the opposite handle with it. Mutates `points` in place.
+export function constrainInterpolatingDrag(
+  curve: BezierCurve,
+  points: Point[],
+  index: number,
+  previous: Point
+): void {
+  if (!isKnot(index)) {
+    constrainSplineDrag(curve, points, index, previous);
+    return;
+  }
+
+  const before = points.map((point, i) => (i === index ? previous : point));
+  const knots = getKnots(points);
+  const sources = knots.map((_, i) => i);
+  points.splice(0, points.length, ...reinterpolate(before, knots, sources));
+}
@@ -0,0 +1,237 @@
+import { BezierCurve, Point } from './types';
+import { Bounds, getExtrema, isFlatEnough, projectOntoSegment, splitBezier } from './bezier';
+import { getCurveSegments } from './spline';
+
+// A crossing of two curves (or of one curve with itself), with the parameter on each
+export interface Intersection {
+  t1: number;
+  t2: number;
+  point: Point;
+}
+
+export interface CurveIntersection extends Intersection {
+  curveId1: string;
+  curveId2: string;
+}
+
+// Part of a curve together with the curve-wide t range it covers
+interface Piece {
+  points: Point[];
+  t0: number;
+  t1: number;
+}
+
+// Pieces flatter than this are treated as their chords
+const FLATNESS = 0.01;
+// Flat pieces of coinciding curves each stray up to FLATNESS from the curve, so their
+// chords can be this far apart and still trace the same stretch
+const OVERLAP_TOLERANCE = 2 * FLATNESS;
+const MAX_DEPTH = 48;
+const T_EPSILON = 1e-6;
+
+function getControlBox(points: Point[]): Bounds {
+  return {
+    minX: Math.min(...points.map(p => p.x)),
+    minY: Math.min(...points.map(p => p.y)),
+    maxX: Math.max(...points.map(p => p.x)),
+    maxY: Math.max(...points.map(p => p.y)),
+  };
+}
+
+function boxesOverlap(a: Bounds, b: Bounds): boolean {
+  return a.minX <= b.maxX && b.minX <= a.maxX && a.minY <= b.maxY && b.minY <= a.maxY;
+}
+
+function splitPiece(piece: Piece): [Piece, Piece] {
+  const [left, right] = splitBezier(piece.points, 0.5);
+  const mid = (piece.t0 + piece.t1) / 2;
+  return [
+    { points: left, t0: piece.t0, t1: mid },
+    { points: right, t0: mid, t1: piece.t1 },
+  ];
+}
+
+// Crossing of the two pieces' chords; parallel chords (overlapping curves) yield nothing
+function intersectChords(a: Piece, b: Piece): Intersection | null {
+  const p = a.points[0];
+  const r = { x: a.points[a.points.length - 1].x - p.x, y: a.points[a.points.length - 1].y - p.y };
+  const q = b.points[0];
+  const s = { x: b.points[b.points.length - 1].x - q.x, y: b.points[b.points.length - 1].y - q.y };
+
+  const denominator = r.x * s.y - r.y * s.x;
+  if (Math.abs(denominator) < 1e-12) return null;
+
+  const u = ((q.x - p.x) * s.y - (q.y - p.y) * s.x) / denominator;
+  const v = ((q.x - p.x) * r.y - (q.y - p.y) * r.x) / denominator;
+  if (u < -T_EPSILON || u > 1 + T_EPSILON || v < -T_EPSILON || v > 1 + T_EPSILON) return null;
+
+  return {
+    t1: a.t0 + u * (a.t1 - a.t0),
+    t2: b.t0 + v * (b.t1 - b.t0),
+    point: { x: p.x + u * r.x, y: p.y + u * r.y },
+  };
+}
+
+// Flat pieces overlap, rather than cross, when two different points of one lie on the
+// other: one piece inside the other, or both ends of a stretch the two curves share
+function piecesOverlap(a: Piece, b: Piece): boolean {
+  const [a0, a1] = [a.points[0], a.points[a.points.length - 1]];
+  const [b0, b1] = [b.points[0], b.points[b.points.length - 1]];
+  const shared = [
+    ...[b0, b1].filter(p => projectOntoSegment(p, a0, a1).distance < OVERLAP_TOLERANCE),
+    ...[a0, a1].filter(p => projectOntoSegment(p, b0, b1).distance < OVERLAP_TOLERANCE),
+  ];
+  return shared.some(p => shared.some(q => Math.hypot(p.x - q.x, p.y - q.y) > OVERLAP_TOLERANCE));
+}
+
+// Recursive subdivision: drop pairs whose control boxes are disjoint, split the
+// larger of the rest, and intersect the chords once both pieces are flat. Flat pieces
+// on the same line overlap rather than cross; they are collected in overlaps instead.
+function intersectPieces(
+  a: Piece,
+  b: Piece,
+  depth: number,
+  found: Intersection[],
+  overlaps: [Piece, Piece][]
+) {
+  if (!boxesOverlap(getControlBox(a.points), getControlBox(b.points))) return;
+
+  const aFlat = isFlatEnough(a.points, FLATNESS);
+  const bFlat = isFlatEnough(b.points, FLATNESS);
+  if (aFlat && bFlat && piecesOverlap(a, b)) {
+    overlaps.push([a, b]);
+    return;
+  }
+  if ((aFlat && bFlat) || depth >= MAX_DEPTH) {
+    const hit = intersectChords(a, b);
+    if (hit) found.push(hit);
+    return;
+  }
+
+  if (!aFlat && (bFlat || a.t1 - a.t0 >= b.t1 - b.t0)) {
+    splitPiece(a).forEach(half => intersectPieces(half, b, depth + 1, found, overlaps));
+  } else {
+    splitPiece(b).forEach(half => intersectPieces(a, half, depth + 1, found, overlaps));
+  }
+}
+
+// A crossing on the boundary between two sub-pieces is found by both of them
+function removeDuplicates(intersections: Intersection[]): Intersection[] {
+  const unique: Intersection[] = [];
+  for (const hit of intersections) {
+    const duplicate = unique.some(
+      other =>
+        Math.abs(other.t1 - hit.t1) < T_EPSILON * 10 && Math.abs(other.t2 - hit.t2) < T_EPSILON * 10
+    );
+    if (!duplicate) unique.push(hit);
+  }
+  return unique.sort((a, b) => a.t1 - b.t1);
+}
+
+function withinPiece(t: number, piece: Piece): boolean {
+  return t > piece.t0 - T_EPSILON && t < piece.t1 + T_EPSILON;
+}
+
+// Where curves overlap, neighbouring flat pieces touch at their ends all along the
+// overlap; those touches are not crossings
+function intersectPieceLists(a: Piece[], b: Piece[]): Intersection[] {
+  const found: Intersection[] = [];
+  const overlaps: [Piece, Piece][] = [];
+  a.forEach(pieceA => b.forEach(pieceB => intersectPieces(pieceA, pieceB, 0, found, overlaps)));
+
+  const crossings = found.filter(
+    hit =>
+      !overlaps.some(
+        ([pieceA, pieceB]) => withinPiece(hit.t1, pieceA) && withinPiece(hit.t2, pieceB)
+      )
+  );
+  return removeDuplicates(crossings);
+}
+
+function toPieces(segments: Point[][]): Piece[] {
+  return segments.map((points, index) => ({
+    points,
+    t0: index / segments.length,
+    t1: (index + 1) / segments.length,
+  }));
+}
+
+// Cut every segment at its x/y extrema; a piece monotone in both axes cannot cross itself
+function toMonotonePieces(segments: Point[][]): Piece[] {
+  const pieces: Piece[] = [];
+  segments.forEach((segment, index) => {
+    const toCurveT = (t: number) => (index + t) / segments.length;
+    let remaining = segment;
+    let start = 0;
+
+    const cuts = [...new Set(getExtrema(segment).map(e => e.t))];
+    for (const t of cuts) {
+      const [left, right] = splitBezier(remaining, (t - start) / (1 - start));
+      pieces.push({ points: left, t0: toCurveT(start), t1: toCurveT(t) });
+      remaining = right;
+      start = t;
+    }
+    pieces.push({ points: remaining, t0: toCurveT(start), t1: toCurveT(1) });
+  });
+  return pieces;
+}
+
+export function intersectBeziers(a: Point[], b: Point[]): Intersection[] {
+  if (a.length < 2 || b.length < 2) return [];
+  return intersectPieceLists(toPieces([a]), toPieces([b]));
+}
+
+function selfIntersectSegments(segments: Point[][]): Intersection[] {
+  const pieces = toMonotonePieces(segments.filter(s => s.length >= 2));
+  const found: Intersection[] = [];
+
+  for (let i = 0; i < pieces.length; i++) {
+    for (let j = i + 1; j < pieces.length; j++) {
+      for (const hit of intersectPieceLists([pieces[i]], [pieces[j]])) {
+        // Neighbouring pieces always meet where one ends and the next begins
+        const sharedEnd =
+          j === i + 1 &&
+          Math.abs(hit.t1 - pieces[i].t1) < T_EPSILON &&
+          Math.abs(hit.t2 - pieces[j].t0) < T_EPSILON;
+        // A closed curve meets itself where it starts and ends
+        const closedEnds = hit.t1 < T_EPSILON && hit.t2 > 1 - T_EPSILON;
+        if (!sharedEnd && !closedEnds) found.push(hit);
+      }
+    }
+  }
+
+  return removeDuplicates(found);
+}
+
+function isEndpoint(t: number): boolean {
+  return t < T_EPSILON || t > 1 - T_EPSILON;
+}
+
+// Points where a single curve crosses itself, with t1 < t2
+export function findSelfIntersections(points: Point[]): Intersection[] {
+  return points.length < 4 ? [] : selfIntersectSegments([points]);
+}
+
+// Every crossing between distinct curves plus every self-intersection, in curve-wide t
+export function findCurveIntersections(curves: BezierCurve[]): CurveIntersection[] {
+  const drawable = curves.filter(c => c.points.length >= 2);
+  const pieces = drawable.map(curve => toPieces(getCurveSegments(curve)));
+  const intersections: CurveIntersection[] = [];
+
+  drawable.forEach((curve, i) => {
+    selfIntersectSegments(getCurveSegments(curve)).forEach(hit =>
+      intersections.push({ ...hit, curveId1: curve.id, curveId2: curve.id })
+    );
+
+    for (let j = i + 1; j < drawable.length; j++) {
+      intersectPieceLists(pieces[i], pieces[j]).forEach(hit => {
+        // Curves joined end to end, like the halves of a split, meet without crossing
+        if (!(isEndpoint(hit.t1) && isEndpoint(hit.t2))) {
+          intersections.push({ ...hit, curveId1: curve.id, curveId2: drawable[j].id });
+        }
+      });
+    }
+  });
+
+  return intersections;
+}
@@ -2,8 +2,9 @@ import { Renderer } from './renderer';
 import { InteractionManager } from './interaction';
 import { AnimationManager } from './animation';
 import { HistoryManager } from './history';
-import { VisualizationMode, Point, User } from './types';
+import { BezierCurve, VisualizationMode, Point, User } from './types';
 import { CurveManager } from './managers/CurveManager';
+import { locateSegment, projectOntoCurve } from './spline';
 
 import { FileManager } from './managers/FileManager';
 import { NotificationManager } from './managers/NotificationManager';
@@ -13,6 +14,12 @@ import { UIControlManager } from './managers/UIControlManager';
 import { CollaborationManager } from './collaboration/CollaborationManager';
 import { PresenceRenderer } from './collaboration/PresenceRenderer';
 import { CollaborationUIManager } from './managers/CollaborationUIManager';
+import { BasisPlot } from './basisPlot';
+import { CodeExportManager } from './managers/CodeExportManager';
+import { EasingManager } from './managers/EasingManager';
+
+// How close (in pixels) the mouse must be to a curve to hover or grab it
+const CURVE_HIT_THRESHOLD = 15;
 
 class BezierApp {
   // Core managers
@@ -29,6 +36,7 @@ class BezierApp {
   private stateManager: StateManager;
   private dropdownManager: DropdownManager;
   private uiControlManager: UIControlManager;
+  private easingManager: EasingManager;
 
   // Collaboration
   private collaborationManager: CollaborationManager;
@@ -36,9 +44,16 @@ class BezierApp {
   private presenceRenderer: PresenceRenderer;
   private remoteUsers: User[] = [];
 
+  // Basis function plot
+  private basisPlot: BasisPlot;
+  private basisCanvas: HTMLCanvasElement;
+  private showBasis = false;
+  private basisHighlight: number | null = null;
+
   // App state
   private visualizationMode: VisualizationMode = 'default';
   private manualT = 0;
+  private hoverPos: Point | null = null;
 
   constructor() {
     this.canvas = document.getElementById('canvas') as HTMLCanvasElement;
@@ -52,11 +67,23 @@ class BezierApp {
     });
     this.animation = new AnimationManager(() => this.render());
 
+    this.basisCanvas = document.getElementById('basis-plot') as HTMLCanvasElement;
+    this.basisPlot = new BasisPlot(this.basisCanvas);
+    this.basisPlot.setHoverHandler(index => {
+      this.basisHighlight = index;
+      this.render();
+    });
+
     // Initialize NotificationManager (no dependencies)
     this.notificationManager = new NotificationManager();
 
-    // Create a placeholder interaction manager first
-    this.interaction = new InteractionManager(this.canvas, () => {});
+    // Initialize InteractionManager; its callback only runs on user input, after
+    // StateManager exists. StateManager must hold this same instance so it can flush
+    // pending wheel weights and see the points being edited.
+    this.interaction = new InteractionManager(this.canvas, action => {
+      this.stateManager.syncCurveWithInteraction(action);
+      this.render();
+    });
 
     // Initialize StateManager (uses core managers)
     this.stateManager = new StateManager(this.curveManager, this.interaction, this.history, {
@@ -64,24 +91,51 @@ class BezierApp {
       onUpdateCurveSelector: () => this.dropdownManager.updateCurveSelector(),
     });
 
-    // Re-initialize InteractionManager with StateManager callback
-    this.interaction = new InteractionManager(this.canvas, action => {
-      this.stateManager.syncCurveWithInteraction(action);
+    this.interaction.setHoverHandler(pos => {
+      this.hoverPos = pos;
       this.render();
     });
 
     // Initialize FileManager
-    this.fileManager = new FileManager(
+    this.fileManager = new FileManager(this.curveManager, this.interaction, this.history, {
+      onCurvesLoaded: () => {
+        this.stateManager.syncStateFromHistory(null);
+      },
+      onRender: () => this.render(),
+      onUpdateCurveSelector: () => this.dropdownManager.updateCurveSelector(),
+      onRenderScene: (renderer, canvas, includePresence) => {
+        const presence =
+          includePresence && this.collaborationManager.isEnabled()
+            ? new PresenceRenderer(canvas)
+            : null;
+        this.drawScene(renderer, presence, false);
+      },
+      onGetVisualization: () => ({
+        mode: this.visualizationMode,
+        t: this.getVisualizedT(this.curveManager.getActiveCurve()),
+      }),
+      onGetViewSettings: () => this.uiControlManager.getViewSettings(),
+      onApplyViewSettings: view => this.uiControlManager.applyViewSettings(view),
+      onShowNotification: (message, type) =>
+        this.notificationManager.showNotification(message, type),
+    });
+
+    // The "Export as code" dialog wires up its own controls
+    new CodeExportManager(this.curveManager, this.notificationManager);
+
+    // Timing-function editor: constrains the active curve to an easing curve in a unit box
+    this.easingManager = new EasingManager(
       this.curveManager,
-      this.interaction,
-      this.canvas,
       this.history,
+      this.stateManager,
+      this.notificationManager,
       {
-        onCurvesLoaded: () => {
-          this.stateManager.syncStateFromHistory(null);
+        onEasingModeChange: box => {
+          this.interaction.setEasingBox(box);
+          this.renderer.setEasingBox(box);
+          this.render();
         },
         onRender: () => this.render(),
-        onUpdateCurveSelector: () => this.dropdownManager.updateCurveSelector(),
       }
     );
 
@@ -89,6 +143,8 @@ class BezierApp {
     this.dropdownManager = new DropdownManager(this.curveManager, this.history, this.stateManager, {
       onRender: () => this.render(),
       onUpdateButtonStates: () => this.uiControlManager.updateButtonStates(),
+      onShowNotification: (message, type) =>
+        this.notificationManager.showNotification(message, type),
     });
 
     // Initialize UIControlManager (uses all managers)
@@ -105,12 +161,31 @@ class BezierApp {
         onClearAnimationArtifacts: () => this.clearAnimationArtifacts(),
         onVisualizationModeChange: mode => {
           this.visualizationMode = mode;
+          const scrubbable = mode === 'tslider' || mode === 'curvature' || mode === 'hodograph';
+          this.interaction.setCurveScrubber(scrubbable ? this.scrubManualT : null);
           this.render();
         },
         onManualTChange: t => {
           this.manualT = t;
           this.render();
         },
+        onShowBoundsChange: show => {
+          this.renderer.setShowBounds(show);
+          this.render();
+        },
+        onShowBasisChange: show => {
+          this.showBasis = show;
+          this.basisCanvas.style.display = show ? 'block' : 'none';
+          this.render();
+        },
+        onStrokePreviewChange: style => {
+          this.renderer.setStrokePreview(style);
+          this.render();
+        },
+        onSketchModeChange: enabled => {
+          this.interaction.setSketchMode(enabled);
+          this.render();
+        },
       }
     );
 
@@ -188,42 +263,112 @@ class BezierApp {
     this.render();
   }
 
+  // Dragging along the active curve in t-slider, curvature and hodograph modes moves t to the
+  // closest point
+  private scrubManualT = (pos: Point, start: boolean): boolean => {
+    const activeCurve = this.curveManager.getActiveCurve();
+    const projection = activeCurve ? projectOntoCurve(activeCurve, pos) : null;
+    if (!projection || (start && projection.distance >= CURVE_HIT_THRESHOLD)) return false;
+
+    this.manualT = projection.t;
+    this.uiControlManager.showManualT(projection.t);
+    this.render();
+    return true;
+  };
+
+  // The t the overlays of the active curve show: the slider's in t-slider mode, otherwise
+  // the animation's while it runs
+  private getVisualizedT(activeCurve: BezierCurve | null): number {
+    if (this.visualizationMode === 'tslider') return this.manualT;
+    if (this.animation.isAnimating()) {
+      return activeCurve
+        ? this.animation.getCurveParameter(activeCurve)
+        : this.animation.getProgress();
+    }
+    // Curvature and hodograph modes inspect the manually placed t while nothing is animating
+    const inspecting =
+      this.visualizationMode === 'curvature' || this.visualizationMode === 'hodograph';
+    return inspecting ? this.manualT : 0;
+  }
+
   private render(): void {
+    const presence = this.collaborationManager.isEnabled() ? this.presenceRenderer : null;
+    this.drawScene(this.renderer, presence, true);
+    this.uiControlManager.updateButtonStates();
+    this.easingManager.update();
+  }
+
+  // Draws the curves and every overlay through `renderer`. Only the live view shows the
+  // hover marker and the sketch in progress, and keeps the basis plot up to date.
+  private drawScene(renderer: Renderer, presence: PresenceRenderer | null, live: boolean): void {
     const allCurves = this.curveManager.getAllCurves();
     const curves = allCurves.filter(c => c.points.length > 0);
     const activeCurve = this.curveManager.getActiveCurve();
 
+    const animationProgress = this.getVisualizedT(activeCurve);
     let animatedPoints: Map<string, Point>;
-    let animationProgress: number;
 
     if (this.visualizationMode === 'tslider') {
       animatedPoints = new Map();
-      if (activeCurve && activeCurve.points.length >= 2) {
-        const point = this.animation.getAnimatedPoint(activeCurve.points, this.manualT);
+      const located = activeCurve ? locateSegment(activeCurve, this.manualT) : null;
+      if (activeCurve && located) {
+        const point = this.animation.getAnimatedPoint(located.segment, located.t);
         if (point) {
           animatedPoints.set(activeCurve.id, point);
         }
       }
-      animationProgress = this.manualT;
     } else {
       animatedPoints = this.animation.getAnimatedPoints(curves);
-      animationProgress = this.animation.isAnimating() ? this.animation.getProgress() : 0;
     }
 
-    this.renderer.renderMultipleCurves(
+    renderer.renderMultipleCurves(
       curves,
       activeCurve?.id || null,
       animatedPoints,
       this.visualizationMode,
-      animationProgress
+      animationProgress,
+      this.visualizationMode === 'intersections' ? this.curveManager.findIntersections() : []
     );
 
-    // Render remote user presence if collaboration enabled
-    if (this.collaborationManager.isEnabled()) {
-      this.presenceRenderer.render(this.remoteUsers, allCurves);
+    if (this.animation.isAnimating() && this.animation.isConstantSpeed() && activeCurve) {
+      if (activeCurve.points.length > 1) {
+        renderer.drawArcLengthMapping(
+          this.animation.getArcLengthTable(activeCurve),
+          animationProgress,
+          activeCurve.color
+        );
+      }
     }
 
-    this.uiControlManager.updateButtonStates();
+    if (this.showBasis) {
+      // The plot follows the slider's t, or the animation's while it runs
+      const basisT = this.animation.isAnimating() ? animationProgress : this.manualT;
+      if (live) {
+        this.basisPlot.render(activeCurve, basisT);
+      }
+      if (activeCurve && activeCurve.points.length > 1) {
+        renderer.drawBasisContributions(activeCurve, basisT, this.basisHighlight);
+      }
+    }
+
+    if (this.visualizationMode === 'hodograph' && activeCurve && activeCurve.points.length > 1) {
+      renderer.drawHodograph(activeCurve, animationProgress);
+    }
+
+    const sketchPath = live ? this.interaction.getSketchPath() : null;
+    if (sketchPath) {
+      renderer.drawSketch(sketchPath);
+    }
+
+    if (live && this.hoverPos && activeCurve && !this.interaction.isSketchMode()) {
+      const projection = projectOntoCurve(activeCurve, this.hoverPos);
+      if (projection && projection.distance < CURVE_HIT_THRESHOLD) {
+        renderer.drawHoverMarker(projection.point, projection.t, activeCurve.color);
+      }
+    }
+
+    // Remote user presence, when collaborating
+    presence?.render(this.remoteUsers, allCurves);
   }
 }
 
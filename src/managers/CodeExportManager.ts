@@ -0,0 +1,89 @@
+import { CurveManager } from './CurveManager';
+import { NotificationManager } from './NotificationManager';
+import { CODE_FORMATS, CodeFormat, generateCode } from '../codegen';
+
+// The "Export as code" dialog: the curves as snippets for another language, regenerated
+// whenever it opens or the format changes, with a copy-to-clipboard action
+export class CodeExportManager {
+  private format: CodeFormat = 'canvas';
+
+  constructor(
+    private curveManager: CurveManager,
+    private notificationManager: NotificationManager
+  ) {
+    this.setupDialog();
+  }
+
+  open(): void {
+    this.updateOutput();
+    document.getElementById('code-export-dialog')?.classList.add('open');
+  }
+
+  close(): void {
+    document.getElementById('code-export-dialog')?.classList.remove('open');
+  }
+
+  isOpen(): boolean {
+    return document.getElementById('code-export-dialog')?.classList.contains('open') ?? false;
+  }
+
+  setFormat(format: CodeFormat): void {
+    this.format = format;
+    this.updateOutput();
+  }
+
+  getCode(): string {
+    return generateCode(this.curveManager.getAllCurves(), this.format);
+  }
+
+  async copyToClipboard(): Promise<boolean> {
+    const code = this.getCode();
+    try {
+      await navigator.clipboard.writeText(code);
+      this.notificationManager.showNotification('Copied to clipboard', 'success');
+      return true;
+    } catch {
+      this.notificationManager.showNotification('Could not copy to clipboard', 'error');
+      return false;
+    }
+  }
+
+  private updateOutput(): void {
+    const output = document.getElementById('code-output') as HTMLTextAreaElement | null;
+    if (output) {
+      output.value = this.getCode();
+    }
+  }
+
+  private setupDialog(): void {
+    const dialog = document.getElementById('code-export-dialog');
+    const formatSelect = document.getElementById('code-format') as HTMLSelectElement | null;
+
+    if (formatSelect) {
+      CODE_FORMATS.forEach(({ format, label }) => {
+        const option = document.createElement('option');
+        option.value = format;
+        option.textContent = label;
+        formatSelect.appendChild(option);
+      });
+      formatSelect.value = this.format;
+      formatSelect.addEventListener('change', () => {
+        this.setFormat(formatSelect.value as CodeFormat);
+      });
+    }
+
+    document.getElementById('export-code')?.addEventListener('click', () => this.open());
+    document.getElementById('code-copy')?.addEventListener('click', () => {
+      void this.copyToClipboard();
+    });
+    document.getElementById('code-close')?.addEventListener('click', () => this.close());
+
+    // Clicking outside the dialog or pressing Escape closes it
+    dialog?.addEventListener('click', e => {
+      if (e.target === dialog) this.close();
+    });
+    document.addEventListener('keydown', e => {
+      if (e.key === 'Escape' && this.isOpen()) this.close();
+    });
+  }
+}
@@ -1,20 +1,34 @@
 import { BezierCurve, Point } from '../types';
-import { getBezierPath } from '../bezier';
+import { getCurveSegments, projectOntoCurve } from '../spline';
+import { evaluateMany, getClosestPathPoint, getUniformTs, projectPoint } from '../bezier';
+import { CurveIntersection, findCurveIntersections } from '../intersection';
+
+// Pixels of control polygon per sample when hit-testing, which keeps the chords between
+// samples close to the curve
+const HIT_SAMPLE_SPACING = 4;
+const MIN_HIT_SAMPLES = 8;
 
 export class CurveManager {
   private curves: BezierCurve[] = [];
   private activeCurveId: string | null = null;
   private colorPalette = ['#4a9eff', '#ff4a9e', '#4aff9e', '#ff9e4a', '#9e4aff', '#4afff9'];
   private nextColorIndex = 0;
+  private intersectionCache: { key: string; intersections: CurveIntersection[] } | null = null;
 
   constructor() {
     this.addCurve();
   }
 
-  addCurve(): string {
-    const id = Math.random().toString(36).substr(2, 9);
+  // Next color from the palette, cycling so neighbouring curves differ
+  takeNextColor(): string {
     const color = this.colorPalette[this.nextColorIndex];
     this.nextColorIndex = (this.nextColorIndex + 1) % this.colorPalette.length;
+    return color;
+  }
+
+  addCurve(): string {
+    const id = Math.random().toString(36).substr(2, 9);
+    const color = this.takeNextColor();
 
     this.curves.push({ id, points: [], color });
     this.activeCurveId = id;
@@ -68,20 +82,86 @@ export class CurveManager {
 
   findCurveAtPosition(pos: Point, threshold = 15): string | null {
     for (const curve of this.curves) {
-      if (curve.points.length < 2) continue;
-
-      const path = getBezierPath(curve.points, 50);
-      for (const point of path) {
-        const dx = point.x - pos.x;
-        const dy = point.y - pos.y;
-        if (Math.sqrt(dx * dx + dy * dy) < threshold) {
-          return curve.id;
-        }
+      if (this.isNearCurve(curve, pos, threshold)) {
+        return curve.id;
       }
     }
     return null;
   }
 
+  // Hit test against a polyline sampled in one batch per segment, which rules out
+  // segments cheaply. The chords can stray up to about a sample spacing from the curve,
+  // so a segment that passes gets the exact projection before it counts as a hit
+  private isNearCurve(curve: BezierCurve, pos: Point, threshold: number): boolean {
+    return getCurveSegments(curve).some(segment => {
+      let polygonLength = 0;
+      for (let i = 1; i < segment.length; i++) {
+        polygonLength += Math.hypot(
+          segment[i].x - segment[i - 1].x,
+          segment[i].y - segment[i - 1].y
+        );
+      }
+      const samples = Math.max(MIN_HIT_SAMPLES, Math.ceil(polygonLength / HIT_SAMPLE_SPACING));
+      const ts = getUniformTs(samples);
+      const closest = getClosestPathPoint({ points: evaluateMany(segment, ts), ts: [...ts] }, pos);
+      if (closest === null || closest.distance >= threshold + HIT_SAMPLE_SPACING) return false;
+
+      const projection = projectPoint(segment, pos);
+      return projection !== null && projection.distance < threshold;
+    });
+  }
+
+  // Curve under the position together with the curve-wide t of the closest point
+  findCurveParameterAt(pos: Point, threshold = 15): { curveId: string; t: number } | null {
+    let best: { curveId: string; t: number; distance: number } | null = null;
+
+    for (const curve of this.curves) {
+      const projection = projectOntoCurve(curve, pos);
+      if (
+        projection &&
+        projection.distance < threshold &&
+        (!best || projection.distance < best.distance)
+      ) {
+        best = { curveId: curve.id, t: projection.t, distance: projection.distance };
+      }
+    }
+
+    if (!best) return null;
+    const { curveId, t } = best;
+    return { curveId, t };
+  }
+
+  // Crossings between all curves and of each curve with itself, recomputed only
+  // when the geometry of some curve changes
+  findIntersections(): CurveIntersection[] {
+    const key = JSON.stringify(this.curves.map(({ color: _color, ...geometry }) => geometry));
+    if (this.intersectionCache?.key !== key) {
+      this.intersectionCache = { key, intersections: findCurveIntersections(this.curves) };
+    }
+    return this.intersectionCache.intersections;
+  }
+
+  // Parameter on the given curve of the crossing closest to the position. A curve passes
+  // through its own crossings twice, so the t nearest to nearT is picked for those.
+  findIntersectionNear(pos: Point, curveId: string, nearT: number, threshold = 10): number | null {
+    let best: { t: number; distance: number } | null = null;
+
+    for (const intersection of this.findIntersections()) {
+      const distance = Math.hypot(intersection.point.x - pos.x, intersection.point.y - pos.y);
+      if (distance >= threshold || (best && distance >= best.distance)) continue;
+
+      const ts: number[] = [];
+      if (intersection.curveId1 === curveId) ts.push(intersection.t1);
+      if (intersection.curveId2 === curveId) ts.push(intersection.t2);
+      if (ts.length === 0) continue;
+
+      const t = ts.reduce((a, b) => (Math.abs(b - nearT) < Math.abs(a - nearT) ? b : a));
+      best = { t, distance };
+    }
+
+    return best ? best.t : null;
+  }
+
   toJSON() {
     return { curves: this.curves };
   }
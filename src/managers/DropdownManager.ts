@@ -1,10 +1,14 @@
 import { CurveManager } from './CurveManager';
-import { HistoryManager } from '../history';
+import { HistoryManager, ChangeDegreeCommand, Command, SetKnotsCommand } from '../history';
 import { StateManager } from './StateManager';
+import { NotificationType } from './NotificationManager';
+import { isSpline } from '../spline';
+import { getBSplineDegree, getKnotVector, isValidKnotVector, isBSpline } from '../bspline';
 
 export interface DropdownManagerCallbacks {
   onRender: () => void;
   onUpdateButtonStates: () => void;
+  onShowNotification: (message: string, type: NotificationType) => void;
 }
 
 export class DropdownManager {
@@ -70,6 +74,7 @@ export class DropdownManager {
       item.appendChild(text);
 
       item.addEventListener('click', () => {
+        this.stateManager.commitPendingEdits();
         this.curveManager.setActiveCurve(curve.id);
         this.stateManager.syncStateFromHistory(null);
         dropdownMenu.classList.remove('open');
@@ -89,6 +94,95 @@ export class DropdownManager {
       currentNameSpan.textContent = 'No active curve';
       currentDot.style.backgroundColor = '#555';
     }
+
+    this.appendCurveActions(dropdownMenu);
+  }
+
+  // Actions on the active curve, listed below the curves
+  private appendCurveActions(dropdownMenu: HTMLElement): void {
+    const activeCurve = this.curveManager.getActiveCurve();
+    if (!activeCurve || activeCurve.points.length < 2 || isSpline(activeCurve)) return;
+
+    const separator = document.createElement('div');
+    separator.style.padding = '0.25rem 0.8rem';
+    separator.style.color = '#666';
+    separator.style.fontSize = '12px';
+    separator.style.borderTop = '1px solid #444';
+    separator.textContent = 'Active curve:';
+    dropdownMenu.appendChild(separator);
+
+    const addAction = (label: string, action: () => void) => {
+      const item = document.createElement('div');
+      item.className = 'curve-dropdown-item';
+      item.style.color = '#4a9eff';
+      item.textContent = label;
+      item.addEventListener('click', () => {
+        dropdownMenu.classList.remove('open');
+        action();
+      });
+      dropdownMenu.appendChild(item);
+    };
+
+    if (isBSpline(activeCurve)) {
+      addAction('✎ Edit knots…', () => this.editKnots(activeCurve.id));
+      if (activeCurve.knots) {
+        addAction('↺ Uniform knots', () => {
+          this.executeCurveCommand(
+            new SetKnotsCommand(activeCurve.id, activeCurve.knots, undefined)
+          );
+        });
+      }
+      return;
+    }
+
+    addAction('⤴ Elevate degree', () => {
+      this.executeCurveCommand(new ChangeDegreeCommand(activeCurve.id, 'elevate'));
+      this.callbacks.onShowNotification(
+        `Degree elevated to ${activeCurve.points.length - 1}`,
+        'success'
+      );
+    });
+
+    if (activeCurve.points.length > 2) {
+      addAction('⤵ Reduce degree', () => {
+        const command = new ChangeDegreeCommand(activeCurve.id, 'reduce');
+        this.executeCurveCommand(command);
+        this.callbacks.onShowNotification(
+          `Degree reduced (max error ${command.getApproximationError().toFixed(2)}px)`,
+          'info'
+        );
+      });
+    }
+  }
+
+  // Ask for a new knot vector as comma-separated numbers
+  private editKnots(curveId: string): void {
+    const curve = this.curveManager.getAllCurves().find(c => c.id === curveId);
+    if (!curve) return;
+
+    const knots = getKnotVector(curve);
+    const input = prompt(
+      `Knot vector (${knots.length} non-decreasing values):`,
+      knots.map(k => +k.toFixed(4)).join(', ')
+    );
+    if (input === null) return;
+
+    const newKnots = input.split(',').map(value => parseFloat(value));
+    if (!isValidKnotVector(newKnots, curve.points.length, getBSplineDegree(curve))) {
+      this.callbacks.onShowNotification(
+        `Expected ${knots.length} non-decreasing numbers spanning a non-empty range`,
+        'error'
+      );
+      return;
+    }
+    this.executeCurveCommand(new SetKnotsCommand(curveId, curve.knots, newKnots));
+  }
+
+  private executeCurveCommand(command: Command): void {
+    const affectedCurveId = this.history.executeCommand(command);
+    this.stateManager.syncStateFromHistory(affectedCurveId);
+    this.callbacks.onRender();
+    this.callbacks.onUpdateButtonStates();
   }
 
   updateHistoryDropdown(): void {
@@ -109,6 +203,7 @@ export class DropdownManager {
       jumpForwardBtn.style.color = '#4a9eff';
       jumpForwardBtn.style.borderBottom = '1px solid #444';
       jumpForwardBtn.addEventListener('click', () => {
+        this.stateManager.commitPendingEdits();
         const affectedCurveId = this.history.jumpToNextIntersectionOrEnd();
         this.stateManager.syncStateFromHistory(affectedCurveId);
         this.callbacks.onRender();
@@ -125,6 +220,7 @@ export class DropdownManager {
       jumpBackwardBtn.style.color = '#4a9eff';
       jumpBackwardBtn.style.borderBottom = '1px solid #444';
       jumpBackwardBtn.addEventListener('click', () => {
+        this.stateManager.commitPendingEdits();
         const affectedCurveId = this.history.jumpToPreviousIntersectionOrStart();
         this.stateManager.syncStateFromHistory(affectedCurveId);
         this.callbacks.onRender();
@@ -191,9 +287,12 @@ export class DropdownManager {
       dropdown?.classList.remove('open');
     });
 
+    // Picking an action closes the menu; editing a setting in it (export tolerance) does not
     dropdown?.querySelector('.dropdown-content')?.addEventListener('click', e => {
       e.stopPropagation();
-      dropdown.classList.remove('open');
+      if ((e.target as HTMLElement).closest('button')) {
+        dropdown.classList.remove('open');
+      }
     });
   }
 
@@ -0,0 +1,187 @@
+import { CurveManager } from './CurveManager';
+import { NotificationManager } from './NotificationManager';
+import { StateManager } from './StateManager';
+import { ApplyEasingCommand, HistoryManager } from '../history';
+import { getCSSCubicBezier } from '../codegen';
+import {
+  CubicBezierValues,
+  EASING_PRESETS,
+  EasingBox,
+  findEasingPreset,
+  formatCubicBezier,
+  getEasingBox,
+  getEasingPoints,
+  getEasingValues,
+  isEasingCurve,
+} from '../easing';
+
+export interface EasingManagerCallbacks {
+  onEasingModeChange: (box: EasingBox | null) => void;
+  onRender: () => void;
+}
+
+const DEFAULT_PRESET = 'ease';
+const PREVIEW_DURATION = 1200;
+
+// The timing-function editor: while on, the active curve is a cubic in a unit box on the
+// canvas, and the panel offers presets, a preview of the easing and its cubic-bezier()
+export class EasingManager {
+  private box: EasingBox | null = null;
+
+  constructor(
+    private curveManager: CurveManager,
+    private history: HistoryManager,
+    private stateManager: StateManager,
+    private notificationManager: NotificationManager,
+    private callbacks: EasingManagerCallbacks
+  ) {
+    this.setupPanel();
+  }
+
+  isEnabled(): boolean {
+    return this.box !== null;
+  }
+
+  // Lays the box out on the canvas and fits the active curve into it: a curve that already
+  // is a timing function keeps its shape, anything else starts out as `ease`
+  enable(): void {
+    const canvas = document.getElementById('canvas') as HTMLCanvasElement | null;
+    if (!canvas || this.box) return;
+
+    this.box = getEasingBox(canvas.clientWidth, canvas.clientHeight);
+    document.getElementById('easing')?.classList.add('active');
+    document.getElementById('easing-panel')?.classList.add('open');
+    this.callbacks.onEasingModeChange(this.box);
+
+    const curve = this.curveManager.getActiveCurve();
+    if (curve && !isEasingCurve(curve, this.box)) {
+      const values = getCSSCubicBezier(curve);
+      this.applyValues(values ?? this.getPresetValues(DEFAULT_PRESET)!);
+    } else {
+      this.update();
+    }
+  }
+
+  disable(): void {
+    if (!this.box) return;
+
+    this.box = null;
+    document.getElementById('easing')?.classList.remove('active');
+    document.getElementById('easing-panel')?.classList.remove('open');
+    this.callbacks.onEasingModeChange(null);
+  }
+
+  applyPreset(name: string): void {
+    const values = this.getPresetValues(name);
+    if (values) this.applyValues(values);
+  }
+
+  // The timing function of the active curve, or null when it is not an easing curve
+  getValues(): CubicBezierValues | null {
+    const curve = this.curveManager.getActiveCurve();
+    return curve && this.box ? getEasingValues(curve, this.box) : null;
+  }
+
+  getCubicBezier(): string | null {
+    const values = this.getValues();
+    return values ? formatCubicBezier(values) : null;
+  }
+
+  // Slides the sample across its track with the current timing function
+  preview(): boolean {
+    const cubicBezier = this.getCubicBezier();
+    const track = document.getElementById('easing-track');
+    const sample = document.getElementById('easing-sample');
+    if (!cubicBezier || !track || !sample) return false;
+
+    const distance = Math.max(0, track.clientWidth - sample.offsetWidth);
+    sample.animate([{ transform: 'translateX(0)' }, { transform: `translateX(${distance}px)` }], {
+      duration: PREVIEW_DURATION,
+      easing: cubicBezier,
+      fill: 'forwards',
+    });
+    return true;
+  }
+
+  async copyToClipboard(): Promise<boolean> {
+    const cubicBezier = this.getCubicBezier();
+    if (!cubicBezier) return false;
+    try {
+      await navigator.clipboard.writeText(cubicBezier);
+      this.notificationManager.showNotification('Copied to clipboard', 'success');
+      return true;
+    } catch {
+      this.notificationManager.showNotification('Could not copy to clipboard', 'error');
+      return false;
+    }
+  }
+
+  // Shows the active curve's cubic-bezier() and matching preset; called on every render
+  update(): void {
+    if (!this.box) return;
+
+    const values = this.getValues();
+    const valueLabel = document.getElementById('easing-value');
+    const presetSelect = document.getElementById('easing-preset') as HTMLSelectElement | null;
+    if (valueLabel) {
+      valueLabel.textContent = values
+        ? formatCubicBezier(values)
+        : 'Pick a preset to make the active curve an easing curve';
+    }
+    if (presetSelect) {
+      presetSelect.value = (values && findEasingPreset(values)) ?? 'custom';
+    }
+    ['easing-preview', 'easing-copy'].forEach(id => {
+      const button = document.getElementById(id) as HTMLButtonElement | null;
+      if (button) button.disabled = values === null;
+    });
+  }
+
+  private getPresetValues(name: string): CubicBezierValues | null {
+    return EASING_PRESETS.find(preset => preset.name === name)?.values ?? null;
+  }
+
+  private applyValues(values: CubicBezierValues): void {
+    const curve = this.curveManager.getActiveCurve();
+    if (!curve || !this.box) return;
+
+    const affectedCurveId = this.history.executeCommand(
+      new ApplyEasingCommand(curve.id, getEasingPoints(values, this.box))
+    );
+    this.stateManager.syncStateFromHistory(affectedCurveId);
+    this.callbacks.onRender();
+    this.update();
+  }
+
+  private setupPanel(): void {
+    const easingBtn = document.getElementById('easing');
+    const presetSelect = document.getElementById('easing-preset') as HTMLSelectElement | null;
+
+    if (presetSelect) {
+      const custom = document.createElement('option');
+      custom.value = 'custom';
+      custom.textContent = 'Custom';
+      custom.disabled = true;
+      presetSelect.appendChild(custom);
+      EASING_PRESETS.forEach(({ name }) => {
+        const option = document.createElement('option');
+        option.value = name;
+        option.textContent = name;
+        presetSelect.appendChild(option);
+      });
+      presetSelect.addEventListener('change', () => this.applyPreset(presetSelect.value));
+    }
+
+    easingBtn?.addEventListener('click', () => {
+      if (this.isEnabled()) {
+        this.disable();
+      } else {
+        this.enable();
+      }
+    });
+    document.getElementById('easing-preview')?.addEventListener('click', () => this.preview());
+    document.getElementById('easing-copy')?.addEventListener('click', () => {
+      void this.copyToClipboard();
+    });
+  }
+}
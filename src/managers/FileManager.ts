@@ -1,43 +1,203 @@
 import { CurveManager } from './CurveManager';
+import { NotificationType } from './NotificationManager';
 import { InteractionManager } from '../interaction';
-import { exportToSVG } from '../bezier';
-import { validateCurvesData } from '../fileUtils';
-import { HistoryManager, LoadCurvesCommand } from '../history';
-import { BezierCurve } from '../types';
+import { StrokeStyle } from '../bezier';
+import { SVGExportOptions, exportCurvesToSVG, exportStrokeOutlineToSVG } from '../svg';
+import { PDFExportOptions, exportCurvesToPDF } from '../pdf';
+import { parseSVGDocument, subpathToCurve } from '../svgImport';
+import { createDocument, parseDocument } from '../fileUtils';
+import { HistoryManager, ImportCurvesCommand, LoadCurvesCommand } from '../history';
+import { Renderer } from '../renderer';
+import { ViewSettings, VisualizationMode } from '../types';
 
 export interface FileManagerCallbacks {
   onCurvesLoaded: () => void;
   onRender: () => void;
   onUpdateCurveSelector: () => void;
+  // Draw the current scene through another renderer, e.g. onto an offscreen canvas
+  onRenderScene: (renderer: Renderer, canvas: HTMLCanvasElement, includePresence: boolean) => void;
+  // The current visualization mode and the t its overlays show
+  onGetVisualization: () => { mode: VisualizationMode; t: number };
+  // View settings are saved with the curves and restored when a document is loaded
+  onGetViewSettings: () => ViewSettings;
+  onApplyViewSettings: (view: ViewSettings) => void;
+  onShowNotification: (message: string, type: NotificationType) => void;
 }
 
+export interface PNGExportOptions {
+  scale?: number; // Image pixels per canvas pixel
+  width?: number; // Image width in pixels, overriding scale; the height keeps the view's shape
+  transparent?: boolean;
+  includeControlPolygons?: boolean;
+  includeConstructionLines?: boolean;
+  includePresence?: boolean; // Other users' cursors and curve highlights
+}
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_PNG_SCALE = 2;
+// Largest image side; browsers refuse to create much larger canvases
+const MAX_PNG_SIZE = 8192;
+const PNG_BACKGROUND = '#1a1a1a';
+// Longer error lists are cut short in the dialog
+const MAX_LISTED_ERRORS = 50;
+
 export class FileManager {
+  // When the loaded document was first saved, kept so saving it again does not reset it
+  private createdAt: string | undefined;
+
   constructor(
     private curveManager: CurveManager,
     private interaction: InteractionManager,
-    private canvas: HTMLCanvasElement,
     private history: HistoryManager,
     private callbacks: FileManagerCallbacks
   ) {
     this.setupDragAndDrop();
+    this.setupErrorDialog();
+  }
+
+  // Exports every curve. Returns how far the exported paths stray from the curves where
+  // they had to be approximated with cubics, or null when no curve has enough points to draw.
+  exportToSVG(options: SVGExportOptions = {}): number | null {
+    const { svg, error } = exportCurvesToSVG(this.curveManager.getAllCurves(), options);
+    if (!svg) return null;
+
+    this.downloadSVG(svg);
+    return error;
   }
 
-  exportToSVG(): void {
-    const points = this.curveManager.getActiveCurvePoints();
-    const svgContent = exportToSVG(points, this.canvas.width, this.canvas.height);
-    this.downloadSVG(svgContent);
+  // Exports the active curve's stroke as a filled shape. Returns false, without a
+  // download, when there is no curve to stroke.
+  exportStrokeOutline(style: StrokeStyle): boolean {
+    const activeCurve = this.curveManager.getActiveCurve();
+    const svg = activeCurve ? exportStrokeOutlineToSVG(activeCurve, style) : '';
+    if (!svg) return false;
+
+    this.downloadSVG(svg);
+    return true;
+  }
+
+  // Exports every curve as a vector PDF, with the active curve's control polygon and the
+  // construction of the current visualization mode on top when includeOverlay is set.
+  // Returns how far the paths stray from the curves where they became cubics, or null when
+  // no curve has enough points to draw.
+  exportToPDF(includeOverlay: boolean, options: PDFExportOptions = {}): number | null {
+    const activeCurve = this.curveManager.getActiveCurve();
+    const overlay =
+      includeOverlay && activeCurve
+        ? { curveId: activeCurve.id, ...this.callbacks.onGetVisualization() }
+        : null;
+    const { pdf, error } = exportCurvesToPDF(this.curveManager.getAllCurves(), {
+      ...options,
+      overlay,
+    });
+    if (!pdf) return null;
+
+    this.download(new Blob([pdf], { type: 'application/pdf' }), 'bezier-curves.pdf');
+    return error;
   }
 
+  // Re-renders the scene as it is on screen onto an offscreen canvas at a higher resolution
+  // and downloads it as a PNG. Returns the image size, or null without a canvas to copy.
+  exportToPNG(options: PNGExportOptions = {}): ImageSize | null {
+    const view = document.getElementById('canvas') as HTMLCanvasElement | null;
+    if (!view || view.width === 0 || view.height === 0) return null;
+
+    const requested = options.width ? options.width / view.width : options.scale;
+    const scale = Math.min(
+      requested && requested > 0 ? requested : DEFAULT_PNG_SCALE,
+      MAX_PNG_SIZE / view.width,
+      MAX_PNG_SIZE / view.height
+    );
+
+    const canvas = document.createElement('canvas');
+    const renderer = new Renderer(canvas);
+    renderer.setSize(view.width, view.height, scale);
+    renderer.setBackground(options.transparent ? null : PNG_BACKGROUND);
+    renderer.setLayers({
+      controlPolygons: options.includeControlPolygons ?? true,
+      constructionLines: options.includeConstructionLines ?? true,
+    });
+    this.callbacks.onRenderScene(renderer, canvas, options.includePresence ?? false);
+
+    canvas.toBlob(blob => {
+      if (blob) this.download(blob, 'bezier-curves.png');
+    }, 'image/png');
+    return { width: canvas.width, height: canvas.height };
+  }
+
+  // Saves the curves, the active curve and the view settings as a versioned document
   saveToJSON(): void {
-    const data = this.curveManager.toJSON();
+    const data = createDocument(
+      {
+        curves: this.curveManager.getAllCurves(),
+        activeCurveId: this.curveManager.getActiveCurve()?.id ?? null,
+        view: this.callbacks.onGetViewSettings(),
+      },
+      this.createdAt
+    );
     const json = JSON.stringify(data, null, 2);
-    const blob = new Blob([json], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = 'bezier-curves.json';
-    link.click();
-    URL.revokeObjectURL(url);
+    this.download(new Blob([json], { type: 'application/json' }), 'bezier-curves.json');
+  }
+
+  // Loads a saved document of any version as one undoable step and restores its view
+  // settings. Returns what is wrong with the document instead when it cannot be loaded.
+  loadJSONText(text: string): string[] {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch (error) {
+      return [`The file is not valid JSON: ${(error as Error).message}`];
+    }
+
+    const { document, errors } = parseDocument(data);
+    if (!document) return errors;
+
+    const oldCurves = this.curveManager.getAllCurves();
+    this.history.executeCommand(new LoadCurvesCommand(document.curves, oldCurves));
+
+    const activeCurveId = document.activeCurveId ?? document.curves[0]?.id;
+    if (activeCurveId) {
+      this.curveManager.setActiveCurve(activeCurveId);
+    }
+    this.createdAt = document.metadata.createdAt;
+
+    this.callbacks.onApplyViewSettings(document.view);
+    this.callbacks.onCurvesLoaded();
+    this.interaction.setPoints(this.curveManager.getActiveCurvePoints());
+    this.callbacks.onUpdateCurveSelector();
+    this.callbacks.onRender();
+    return [];
+  }
+
+  // Lists what went wrong in the file error dialog
+  showErrorDialog(title: string, errors: string[]): void {
+    const list = document.getElementById('file-error-list');
+    const titleLabel = document.getElementById('file-error-title');
+    if (titleLabel) {
+      titleLabel.textContent = title;
+    }
+    if (list) {
+      const items = errors.slice(0, MAX_LISTED_ERRORS);
+      if (errors.length > items.length) {
+        items.push(`…and ${errors.length - items.length} more`);
+      }
+      list.replaceChildren(
+        ...items.map(error => {
+          const item = document.createElement('li');
+          item.textContent = error;
+          return item;
+        })
+      );
+    }
+    document.getElementById('file-error-dialog')?.classList.add('open');
+  }
+
+  closeErrorDialog(): void {
+    document.getElementById('file-error-dialog')?.classList.remove('open');
   }
 
   loadFromJSON(): void {
@@ -52,6 +212,40 @@ export class FileManager {
     input.click();
   }
 
+  importSVG(): void {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.svg';
+    input.onchange = e => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+      this.importSVGFromFile(file);
+    };
+    input.click();
+  }
+
+  // Appends one curve per subpath of every <path> in the document, as a single undoable
+  // step, and makes the first of them active. Returns how many curves were added.
+  importSVGText(text: string): number {
+    const curves = parseSVGDocument(text).map(subpath =>
+      subpathToCurve(
+        subpath,
+        Math.random().toString(36).substr(2, 9),
+        this.curveManager.takeNextColor()
+      )
+    );
+    if (curves.length === 0) return 0;
+
+    this.history.executeCommand(new ImportCurvesCommand(curves));
+    this.curveManager.setActiveCurve(curves[0].id);
+
+    this.callbacks.onCurvesLoaded();
+    this.interaction.setPoints(this.curveManager.getActiveCurvePoints());
+    this.callbacks.onUpdateCurveSelector();
+    this.callbacks.onRender();
+    return curves.length;
+  }
+
   private setupDragAndDrop(): void {
     const dropOverlay = document.getElementById('drop-overlay');
     const appContainer = document.getElementById('app');
@@ -86,67 +280,77 @@ export class FileManager {
       if (!files || files.length === 0) return;
 
       const file = files[0];
-      if (!file.name.endsWith('.json')) {
-        alert('Please drop a JSON file');
-        return;
+      const name = file.name.toLowerCase();
+      if (name.endsWith('.json')) {
+        this.loadJSONFromFile(file);
+      } else if (name.endsWith('.svg')) {
+        this.importSVGFromFile(file);
+      } else {
+        this.showErrorDialog(`Cannot open ${file.name}`, ['Drop a JSON or SVG file']);
       }
-
-      this.loadJSONFromFile(file);
     });
   }
 
   private loadJSONFromFile(file: File): void {
     const reader = new FileReader();
     reader.onload = event => {
+      const errors = this.loadJSONText(event.target?.result as string);
+      if (errors.length > 0) {
+        this.showErrorDialog(`Could not load ${file.name}`, errors);
+      }
+    };
+    reader.readAsText(file);
+  }
+
+  private importSVGFromFile(file: File): void {
+    const reader = new FileReader();
+    reader.onload = event => {
+      let count: number;
       try {
-        const json = event.target?.result as string;
-        const data = JSON.parse(json);
-
-        if (!data.curves) {
-          alert(
-            'Invalid JSON format. Expected format:\n{\n  "curves": [...],\n  "activeCurveId": "..."\n}'
-          );
-          return;
-        }
-
-        if (!validateCurvesData(data.curves)) {
-          alert('Invalid curves data. Each curve must have: id, color, and points array.');
-          return;
-        }
-
-        const newCurves: BezierCurve[] = data.curves;
-
-        // Save current state and execute load command through history
-        const oldCurves = this.curveManager.getAllCurves();
-        const command = new LoadCurvesCommand(newCurves, oldCurves);
-        this.history.executeCommand(command);
-
-        // Update active curve to first curve in loaded data
-        if (newCurves.length > 0) {
-          this.curveManager.setActiveCurve(newCurves[0].id);
-        }
-
-        this.callbacks.onCurvesLoaded();
-        this.interaction.setPoints(this.curveManager.getActiveCurvePoints());
-        this.callbacks.onUpdateCurveSelector();
-        this.callbacks.onRender();
+        count = this.importSVGText(event.target?.result as string);
       } catch (error) {
-        if (error instanceof SyntaxError) {
-          alert('Invalid JSON file: Syntax error');
-        } else {
-          alert('Error loading file: ' + (error as Error).message);
-        }
+        this.showErrorDialog(`Could not import ${file.name}`, [(error as Error).message]);
+        return;
+      }
+      if (count === 0) {
+        this.showErrorDialog(`Could not import ${file.name}`, [
+          'The SVG has no drawable paths, only moves',
+        ]);
+      } else {
+        this.callbacks.onShowNotification(
+          `Imported ${count} ${count === 1 ? 'curve' : 'curves'}`,
+          'success'
+        );
       }
     };
     reader.readAsText(file);
   }
 
+  private setupErrorDialog(): void {
+    const dialog = document.getElementById('file-error-dialog');
+
+    document
+      .getElementById('file-error-close')
+      ?.addEventListener('click', () => this.closeErrorDialog());
+
+    // Clicking outside the dialog or pressing Escape closes it
+    dialog?.addEventListener('click', e => {
+      if (e.target === dialog) this.closeErrorDialog();
+    });
+    document.addEventListener('keydown', e => {
+      if (e.key === 'Escape' && dialog?.classList.contains('open')) this.closeErrorDialog();
+    });
+  }
+
   private downloadSVG(svgContent: string): void {
-    const blob = new Blob([svgContent], { type: 'image/svg+xml' });
+    this.download(new Blob([svgContent], { type: 'image/svg+xml' }), 'bezier-curve.svg');
+  }
+
+  private download(blob: Blob, filename: string): void {
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
-    link.download = 'bezier-curve.svg';
+    link.download = filename;
     link.click();
     URL.revokeObjectURL(url);
   }
@@ -1,13 +1,32 @@
 import { CurveManager } from './CurveManager';
-import { InteractionManager, PointAction } from '../interaction';
+import { DragConstraint, InteractionManager, PointAction } from '../interaction';
 import {
   HistoryManager,
   AddPointCommand,
   RemovePointCommand,
   MovePointCommand,
+  MovePointsCommand,
+  AddKnotCommand,
+  RemoveKnotCommand,
+  SetJointContinuityCommand,
+  SetPointWeightCommand,
+  SplitCurveCommand,
+  AddCurvesCommand,
   RemoteStateUpdateCommand,
 } from '../history';
-import { BezierCurve } from '../types';
+import { BezierCurve, Point } from '../types';
+import { getWeight } from '../bezier';
+import {
+  constrainSplineDrag,
+  getJointAtPoint,
+  getJointContinuity,
+  getNextContinuity,
+  isInterpolating,
+  isSpline,
+  joinSegments,
+} from '../spline';
+import { constrainInterpolatingDrag } from '../interpolation';
+import { fitCubicBeziers } from '../fitting';
 import type { CollaborationManager } from '../collaboration/CollaborationManager';
 
 export interface StateManagerCallbacks {
@@ -62,23 +81,79 @@ export class StateManager {
     switch (action.type) {
       case 'add':
         affectedCurveId = this.history.executeCommand(
-          new AddPointCommand(activeCurve.id, action.point)
+          isInterpolating(activeCurve)
+            ? new AddKnotCommand(activeCurve.id, action.point)
+            : new AddPointCommand(activeCurve.id, action.point)
         );
         break;
       case 'remove':
         if (action.index !== undefined) {
           affectedCurveId = this.history.executeCommand(
-            new RemovePointCommand(activeCurve.id, action.index, action.point)
+            isInterpolating(activeCurve)
+              ? new RemoveKnotCommand(activeCurve.id, action.index)
+              : new RemovePointCommand(activeCurve.id, action.index, action.point)
           );
         }
         break;
       case 'move':
-        if (action.index !== undefined && action.oldPoint) {
+        if (action.index !== undefined && action.oldPoint && action.linked) {
+          const moves = [
+            { index: action.index, oldPoint: action.oldPoint, newPoint: action.point },
+            ...action.linked.map(move => ({
+              index: move.index,
+              oldPoint: move.oldPoint,
+              newPoint: move.point,
+            })),
+          ];
+          affectedCurveId = this.history.executeCommand(
+            new MovePointsCommand(activeCurve.id, moves)
+          );
+        } else if (action.index !== undefined && action.oldPoint) {
           affectedCurveId = this.history.executeCommand(
             new MovePointCommand(activeCurve.id, action.index, action.oldPoint, action.point)
           );
         }
         break;
+      case 'weight':
+        if (action.index !== undefined && action.oldPoint) {
+          affectedCurveId = this.history.executeCommand(
+            new SetPointWeightCommand(
+              activeCurve.id,
+              action.index,
+              getWeight(action.oldPoint),
+              getWeight(action.point)
+            )
+          );
+        }
+        break;
+      case 'split': {
+        const hit = this.curveManager.findCurveParameterAt(action.point);
+        if (hit) {
+          // Snap to a nearby crossing so curves can be cut exactly where they intersect
+          const crossing = this.curveManager.findIntersectionNear(action.point, hit.curveId, hit.t);
+          this.splitCurve(hit.curveId, crossing ?? hit.t);
+        }
+        break;
+      }
+      case 'continuity':
+        if (action.index !== undefined) {
+          const joint = getJointAtPoint(activeCurve, action.index);
+          if (joint !== null) {
+            const oldContinuity = getJointContinuity(activeCurve, joint);
+            affectedCurveId = this.history.executeCommand(
+              new SetJointContinuityCommand(
+                activeCurve.id,
+                joint,
+                oldContinuity,
+                getNextContinuity(oldContinuity)
+              )
+            );
+          }
+        }
+        break;
+      case 'sketch':
+        affectedCurveId = this.addSketchedCurve(action.path ?? []);
+        break;
     }
 
     this.syncStateFromHistory(affectedCurveId);
@@ -90,6 +165,35 @@ export class StateManager {
     }
   }
 
+  // Fit the freehand stroke with cubic segments and add them as a new cubic spline
+  private addSketchedCurve(path: Point[]): string | null {
+    const segments = fitCubicBeziers(path);
+    if (segments.length === 0) return null;
+
+    const curve: BezierCurve = {
+      id: Math.random().toString(36).substr(2, 9),
+      color: this.curveManager.takeNextColor(),
+      kind: 'spline',
+      segmentDegree: 3,
+      points: joinSegments(segments),
+    };
+    return this.history.executeCommand(new AddCurvesCommand([curve]));
+  }
+
+  // Cut a curve into two at t; returns false when t is at (or beyond) either end
+  splitCurve(curveId: string, t: number): boolean {
+    const curve = this.curveManager.getAllCurves().find(c => c.id === curveId);
+    if (!curve || curve.points.length < 2 || t <= 0 || t >= 1) return false;
+
+    const newCurveId = Math.random().toString(36).substr(2, 9);
+    const affectedCurveId = this.history.executeCommand(
+      new SplitCurveCommand(curveId, t, newCurveId)
+    );
+    this.syncStateFromHistory(affectedCurveId);
+    this.callbacks.onRender();
+    return true;
+  }
+
   syncStateFromHistory(affectedCurveId: string | null = null): void {
     if (affectedCurveId) {
       const curves = this.curveManager.getAllCurves();
@@ -101,11 +205,30 @@ export class StateManager {
         this.curveManager.setActiveCurve(curves[0].id);
       }
     }
+    const activeCurve = this.curveManager.getActiveCurve();
     this.interaction.setPoints(this.curveManager.getActiveCurvePoints());
+    this.interaction.setDragConstraint(this.getDragConstraint(activeCurve));
     this.callbacks.onUpdateCurveSelector();
   }
 
+  private getDragConstraint(curve: BezierCurve | null): DragConstraint | null {
+    if (!curve || !isSpline(curve)) return null;
+    if (isInterpolating(curve)) {
+      return (points, index, previous) =>
+        constrainInterpolatingDrag(curve, points, index, previous);
+    }
+    return (points, index, previous) => constrainSplineDrag(curve, points, index, previous);
+  }
+
+  // Finishes interactions that commit after a delay, before the history or the active
+  // curve changes under them
+  commitPendingEdits(): void {
+    this.interaction.commitWeight();
+  }
+
   undo(): void {
+    this.commitPendingEdits();
+
     // Use shared undo if collaboration is enabled
     if (this.collaborationManager?.isEnabled() && this.collaborationManager?.isConnected()) {
       console.log('[StateManager] Using shared undo');
@@ -124,6 +247,8 @@ export class StateManager {
   }
 
   redo(): void {
+    this.commitPendingEdits();
+
     // Use shared redo if collaboration is enabled
     if (this.collaborationManager?.isEnabled() && this.collaborationManager?.isConnected()) {
       console.log('[StateManager] Using shared redo');
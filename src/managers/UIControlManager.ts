@@ -1,10 +1,14 @@
 import { CurveManager } from './CurveManager';
 import { AnimationManager } from '../animation';
-import { HistoryManager, AddCurveCommand, RemoveCurveCommand } from '../history';
+import { HistoryManager, AddCurveCommand, RemoveCurveCommand, InsertKnotCommand } from '../history';
 import { StateManager } from './StateManager';
-import { FileManager } from './FileManager';
+import { DEFAULT_PNG_SCALE, FileManager } from './FileManager';
 import { NotificationManager } from './NotificationManager';
-import { VisualizationMode } from '../types';
+import { BezierCurve, ViewSettings, VisualizationMode } from '../types';
+import { DEFAULT_EXPORT_TOLERANCE, StrokeCap, StrokeJoin, StrokeStyle } from '../bezier';
+import { isBSpline } from '../bspline';
+
+const NOTHING_TO_EXPORT = 'Nothing to export: draw a curve with at least two points';
 
 export interface UIControlManagerCallbacks {
   onRender: () => void;
@@ -12,6 +16,10 @@ export interface UIControlManagerCallbacks {
   onClearAnimationArtifacts: () => void;
   onVisualizationModeChange: (mode: VisualizationMode) => void;
   onManualTChange: (t: number) => void;
+  onShowBoundsChange: (show: boolean) => void;
+  onShowBasisChange: (show: boolean) => void;
+  onStrokePreviewChange: (style: StrokeStyle | null) => void;
+  onSketchModeChange: (enabled: boolean) => void;
 }
 
 export class UIControlManager {
@@ -28,6 +36,60 @@ export class UIControlManager {
     this.setupKeyboardShortcuts();
   }
 
+  // Reflect a t chosen outside the slider (e.g. by dragging along the curve)
+  showManualT(t: number): void {
+    const tSlider = document.getElementById('t-slider') as HTMLInputElement;
+    const tValue = document.getElementById('t-value');
+
+    if (tSlider) {
+      tSlider.value = String(Math.round(t * 100));
+    }
+    if (tValue) {
+      tValue.textContent = t.toFixed(2);
+    }
+  }
+
+  // The view controls as they are set now, to be saved with the curves
+  getViewSettings(): ViewSettings {
+    const visualizationSelect = document.getElementById('visualization-mode') as HTMLSelectElement;
+    const tSlider = document.getElementById('t-slider') as HTMLInputElement;
+    const showBoundsToggle = document.getElementById('show-bounds') as HTMLInputElement;
+    const showBasisToggle = document.getElementById('show-basis') as HTMLInputElement;
+
+    return {
+      visualizationMode: (visualizationSelect?.value as VisualizationMode) || 'default',
+      t: tSlider ? parseInt(tSlider.value) / 100 : 0,
+      showBounds: showBoundsToggle?.checked ?? false,
+      showBasis: showBasisToggle?.checked ?? false,
+    };
+  }
+
+  // Sets the view controls as a loaded document had them; they apply the settings through
+  // their usual handlers
+  applyViewSettings(view: ViewSettings): void {
+    const visualizationSelect = document.getElementById('visualization-mode') as HTMLSelectElement;
+    const tSlider = document.getElementById('t-slider') as HTMLInputElement;
+    const showBoundsToggle = document.getElementById('show-bounds') as HTMLInputElement;
+    const showBasisToggle = document.getElementById('show-basis') as HTMLInputElement;
+
+    if (visualizationSelect) {
+      visualizationSelect.value = view.visualizationMode;
+      visualizationSelect.dispatchEvent(new Event('change'));
+    }
+    if (tSlider) {
+      tSlider.value = String(Math.round(view.t * 100));
+      tSlider.dispatchEvent(new Event('input'));
+    }
+    if (showBoundsToggle) {
+      showBoundsToggle.checked = view.showBounds;
+      showBoundsToggle.dispatchEvent(new Event('change'));
+    }
+    if (showBasisToggle) {
+      showBasisToggle.checked = view.showBasis;
+      showBasisToggle.dispatchEvent(new Event('change'));
+    }
+  }
+
   updateButtonStates(): void {
     const undoBtn = document.getElementById('undo') as HTMLButtonElement;
     const redoBtn = document.getElementById('redo') as HTMLButtonElement;
@@ -51,17 +113,42 @@ export class UIControlManager {
     const redoBtn = document.getElementById('redo');
     const clearBtn = document.getElementById('clear');
     const newCurveBtn = document.getElementById('new-curve');
+    const newCurveKindSelect = document.getElementById('new-curve-kind') as HTMLSelectElement;
+    const sketchBtn = document.getElementById('sketch');
     const deleteCurveBtn = document.getElementById('delete-curve');
+    const splitCurveBtn = document.getElementById('split-curve');
+    const insertKnotBtn = document.getElementById('insert-knot');
     const animateBtn = document.getElementById('animate') as HTMLButtonElement;
     const visualizationSelect = document.getElementById('visualization-mode') as HTMLSelectElement;
+    const showBoundsToggle = document.getElementById('show-bounds') as HTMLInputElement;
+    const showBasisToggle = document.getElementById('show-basis') as HTMLInputElement;
+    const strokeControls = ['show-stroke', 'stroke-width', 'stroke-join', 'stroke-cap'].map(id =>
+      document.getElementById(id)
+    );
     const speedContainer = document.getElementById('speed-container');
     const tSliderContainer = document.getElementById('t-slider-container');
     const tSlider = document.getElementById('t-slider') as HTMLInputElement;
     const tValue = document.getElementById('t-value');
     const speedSlider = document.getElementById('speed') as HTMLInputElement;
+    const constantSpeedToggle = document.getElementById('constant-speed') as HTMLInputElement;
     const saveBtn = document.getElementById('save');
     const loadBtn = document.getElementById('load');
+    const importSVGBtn = document.getElementById('import-svg');
     const exportBtn = document.getElementById('export');
+    const exportOutlineBtn = document.getElementById('export-outline');
+    const exportToleranceInput = document.getElementById('export-tolerance') as HTMLInputElement;
+    const exportIdsToggle = document.getElementById('export-ids') as HTMLInputElement;
+    const exportPolygonsToggle = document.getElementById('export-polygons') as HTMLInputElement;
+    const exportPointsToggle = document.getElementById('export-points') as HTMLInputElement;
+    const exportPDFBtn = document.getElementById('export-pdf');
+    const pdfOverlayToggle = document.getElementById('pdf-overlay') as HTMLInputElement;
+    const exportPNGBtn = document.getElementById('export-png');
+    const pngScaleInput = document.getElementById('png-scale') as HTMLInputElement;
+    const pngWidthInput = document.getElementById('png-width') as HTMLInputElement;
+    const pngTransparentToggle = document.getElementById('png-transparent') as HTMLInputElement;
+    const pngControlsToggle = document.getElementById('png-controls') as HTMLInputElement;
+    const pngConstructionToggle = document.getElementById('png-construction') as HTMLInputElement;
+    const pngPresenceToggle = document.getElementById('png-presence') as HTMLInputElement;
 
     undoBtn?.addEventListener('click', () => {
       this.stateManager.undo();
@@ -83,19 +170,23 @@ export class UIControlManager {
     });
 
     newCurveBtn?.addEventListener('click', () => {
-      const newCurve = {
+      const newCurve: BezierCurve = {
         id: Math.random().toString(36).substr(2, 9),
-        color: this.curveManager['colorPalette'][this.curveManager['nextColorIndex']],
+        color: this.curveManager.takeNextColor(),
         points: [],
+        ...this.getCurveKindSettings(newCurveKindSelect?.value),
       };
-      this.curveManager['nextColorIndex'] =
-        (this.curveManager['nextColorIndex'] + 1) % this.curveManager['colorPalette'].length;
 
       const affectedCurveId = this.history.executeCommand(new AddCurveCommand(newCurve));
       this.stateManager.syncStateFromHistory(affectedCurveId);
       this.callbacks.onRender();
     });
 
+    sketchBtn?.addEventListener('click', () => {
+      const enabled = sketchBtn.classList.toggle('active');
+      this.callbacks.onSketchModeChange(enabled);
+    });
+
     deleteCurveBtn?.addEventListener('click', () => {
       const activeCurve = this.curveManager.getActiveCurve();
       if (activeCurve) {
@@ -111,6 +202,53 @@ export class UIControlManager {
       }
     });
 
+    // Where the t-slider or the running animation currently is, if either is in use
+    const getCurrentT = (curve: BezierCurve): number | null => {
+      if (visualizationSelect?.value === 'tslider') {
+        return parseInt(tSlider.value) / 100;
+      }
+      return this.animation.isAnimating() ? this.animation.getCurveParameter(curve) : null;
+    };
+
+    splitCurveBtn?.addEventListener('click', () => {
+      const activeCurve = this.curveManager.getActiveCurve();
+      if (!activeCurve) return;
+
+      const t = getCurrentT(activeCurve);
+      if (t === null) {
+        this.notificationManager.showNotification(
+          'Use the t-slider or Shift+click the curve to split it',
+          'info'
+        );
+      } else if (!this.stateManager.splitCurve(activeCurve.id, t)) {
+        this.notificationManager.showNotification('Cannot split at the ends of a curve', 'error');
+      }
+    });
+
+    insertKnotBtn?.addEventListener('click', () => {
+      const activeCurve = this.curveManager.getActiveCurve();
+      if (!activeCurve) return;
+
+      const t = getCurrentT(activeCurve);
+      if (!isBSpline(activeCurve) || activeCurve.points.length < 2) {
+        this.notificationManager.showNotification(
+          'Knots can only be inserted into B-splines',
+          'info'
+        );
+      } else if (t === null) {
+        this.notificationManager.showNotification(
+          'Use the t-slider or the animation to pick where to insert the knot',
+          'info'
+        );
+      } else {
+        const affectedCurveId = this.history.executeCommand(
+          new InsertKnotCommand(activeCurve.id, t)
+        );
+        this.stateManager.syncStateFromHistory(affectedCurveId);
+        this.callbacks.onRender();
+      }
+    });
+
     animateBtn?.addEventListener('click', () => {
       const curves = this.curveManager.getAllCurves();
       const hasValidCurve = curves.some(c => c.points.length >= 2);
@@ -144,6 +282,21 @@ export class UIControlManager {
       }
     });
 
+    showBoundsToggle?.addEventListener('change', () => {
+      this.callbacks.onShowBoundsChange(showBoundsToggle.checked);
+    });
+
+    showBasisToggle?.addEventListener('change', () => {
+      this.callbacks.onShowBasisChange(showBasisToggle.checked);
+    });
+
+    strokeControls.forEach(control => {
+      control?.addEventListener('change', () => {
+        const showStroke = document.getElementById('show-stroke') as HTMLInputElement;
+        this.callbacks.onStrokePreviewChange(showStroke?.checked ? this.getStrokeStyle() : null);
+      });
+    });
+
     tSlider?.addEventListener('input', () => {
       const value = parseInt(tSlider.value) / 100;
       this.callbacks.onManualTChange(value);
@@ -157,6 +310,11 @@ export class UIControlManager {
       this.animation.setSpeed(speed);
     });
 
+    constantSpeedToggle?.addEventListener('change', () => {
+      this.animation.setConstantSpeed(constantSpeedToggle.checked);
+      this.callbacks.onRender();
+    });
+
     saveBtn?.addEventListener('click', () => {
       this.fileManager.saveToJSON();
     });
@@ -165,11 +323,105 @@ export class UIControlManager {
       this.fileManager.loadFromJSON();
     });
 
+    importSVGBtn?.addEventListener('click', () => {
+      this.fileManager.importSVG();
+    });
+
     exportBtn?.addEventListener('click', () => {
-      this.fileManager.exportToSVG();
+      const tolerance = parseFloat(exportToleranceInput?.value);
+      const error = this.fileManager.exportToSVG({
+        tolerance:
+          Number.isFinite(tolerance) && tolerance > 0 ? tolerance : DEFAULT_EXPORT_TOLERANCE,
+        includeIds: exportIdsToggle?.checked,
+        includeControlPolygons: exportPolygonsToggle?.checked,
+        includeControlPoints: exportPointsToggle?.checked,
+      });
+      if (error === null) {
+        this.notificationManager.showNotification(NOTHING_TO_EXPORT, 'info');
+        return;
+      }
+      this.notificationManager.showNotification(
+        error > 0 ? `Exported SVG (max error ${error.toFixed(2)}px)` : 'Exported SVG exactly',
+        'success'
+      );
+    });
+
+    exportOutlineBtn?.addEventListener('click', () => {
+      // Uses the stroke settings whether or not the preview is shown
+      if (!this.fileManager.exportStrokeOutline(this.getStrokeStyle())) {
+        this.notificationManager.showNotification(NOTHING_TO_EXPORT, 'info');
+        return;
+      }
+      this.notificationManager.showNotification('Exported stroke outline', 'success');
+    });
+
+    exportPDFBtn?.addEventListener('click', () => {
+      const tolerance = parseFloat(exportToleranceInput?.value);
+      const error = this.fileManager.exportToPDF(pdfOverlayToggle?.checked ?? false, {
+        tolerance:
+          Number.isFinite(tolerance) && tolerance > 0 ? tolerance : DEFAULT_EXPORT_TOLERANCE,
+      });
+      if (error === null) {
+        this.notificationManager.showNotification(NOTHING_TO_EXPORT, 'info');
+        return;
+      }
+      this.notificationManager.showNotification(
+        error > 0 ? `Exported PDF (max error ${error.toFixed(2)}px)` : 'Exported PDF exactly',
+        'success'
+      );
+    });
+
+    exportPNGBtn?.addEventListener('click', () => {
+      const scale = parseFloat(pngScaleInput?.value);
+      const width = parseInt(pngWidthInput?.value, 10);
+      const size = this.fileManager.exportToPNG({
+        scale: Number.isFinite(scale) && scale > 0 ? scale : DEFAULT_PNG_SCALE,
+        width: Number.isFinite(width) && width > 0 ? width : undefined,
+        transparent: pngTransparentToggle?.checked,
+        includeControlPolygons: pngControlsToggle?.checked ?? true,
+        includeConstructionLines: pngConstructionToggle?.checked ?? true,
+        includePresence: pngPresenceToggle?.checked,
+      });
+      if (size) {
+        this.notificationManager.showNotification(
+          `Exported PNG (${size.width}×${size.height})`,
+          'success'
+        );
+      }
     });
   }
 
+  // Stroke settings from the stroke controls, used by the preview and the outline export
+  private getStrokeStyle(): StrokeStyle {
+    const strokeWidth = document.getElementById('stroke-width') as HTMLInputElement;
+    const strokeJoin = document.getElementById('stroke-join') as HTMLSelectElement;
+    const strokeCap = document.getElementById('stroke-cap') as HTMLSelectElement;
+
+    const width = parseFloat(strokeWidth?.value);
+    return {
+      width: Number.isFinite(width) && width > 0 ? width : 20,
+      join: (strokeJoin?.value as StrokeJoin) || 'miter',
+      cap: (strokeCap?.value as StrokeCap) || 'butt',
+    };
+  }
+
+  private getCurveKindSettings(kind: string | undefined): Partial<BezierCurve> {
+    switch (kind) {
+      case 'cubic-spline':
+        return { kind: 'spline', segmentDegree: 3 };
+      case 'quadratic-spline':
+        return { kind: 'spline', segmentDegree: 2 };
+      case 'interpolating':
+        return { kind: 'interpolating' };
+      case 'cubic-bspline':
+        return { kind: 'bspline', degree: 3 };
+      case 'quadratic-bspline':
+        return { kind: 'bspline', degree: 2 };
+      default:
+        return {};
+    }
+  }
+
   private setupKeyboardShortcuts(): void {
     window.addEventListener('keydown', e => {
       if ((e.ctrlKey || e.metaKey) && !e.shiftKey && e.key === 'z') {
@@ -182,12 +434,14 @@ export class UIControlManager {
         this.updateButtonStates();
       } else if ((e.ctrlKey || e.metaKey) && e.shiftKey && e.key === 'ArrowRight') {
         e.preventDefault();
+        this.stateManager.commitPendingEdits();
         const affectedCurveId = this.history.jumpToNextIntersectionOrEnd();
         this.stateManager.syncStateFromHistory(affectedCurveId);
         this.callbacks.onRender();
         this.updateButtonStates();
       } else if ((e.ctrlKey || e.metaKey) && e.shiftKey && e.key === 'ArrowLeft') {
         e.preventDefault();
+        this.stateManager.commitPendingEdits();
         const affectedCurveId = this.history.jumpToPreviousIntersectionOrStart();
         this.stateManager.syncStateFromHistory(affectedCurveId);
         this.callbacks.onRender();
@@ -0,0 +1,320 @@
+import { BezierCurve, Point, VisualizationMode } from './types';
+import {
+  Bounds,
+  DEFAULT_EXPORT_TOLERANCE,
+  approximateSegmentsWithCubics,
+  elevateDegree,
+  evaluateBezier,
+  evaluateMany,
+  getBounds,
+  getCurvature,
+  getDeCasteljauLevels,
+  getDerivative,
+  getNormal,
+  getUniformTs,
+  mergeBounds,
+} from './bezier';
+import { getCurveSegments, isInterpolating, locateSegment } from './spline';
+import { getKnotPointIndex, getOwningKnot, isKnot } from './interpolation';
+import {
+  getBSplineDegree,
+  getDeBoorLevels,
+  getKnotParameter,
+  getKnotVector,
+  isBSpline,
+} from './bspline';
+import { findCurveIntersections } from './intersection';
+import {
+  COMB_SAMPLES_PER_SEGMENT,
+  COMB_SCALE,
+  CURVE_STROKE_WIDTH,
+  VELOCITY_SCALE,
+} from './drawingStyle';
+
+// Vector PDF export: every curve as native path operators (lines and cubics) in its own
+// color on a page cropped to the drawing, one PDF unit per canvas pixel. Written by hand,
+// the format needs only a handful of objects.
+
+export interface PDFExportOptions {
+  tolerance?: number; // Largest error allowed where curves are approximated with cubics
+  padding?: number; // Margin around the content, in points
+  strokeWidth?: number;
+  overlay?: PDFOverlay | null;
+}
+
+// What the canvas shows over the active curve in a visualization mode, at parameter t
+export interface PDFOverlay {
+  curveId: string;
+  mode: VisualizationMode;
+  t: number;
+}
+
+export interface PDFExport {
+  pdf: string;
+  error: number; // Largest deviation of any exported path from its curve
+}
+
+type RGB = [number, number, number];
+
+// A stroked chain of segments (lines, quadratics or cubics), or a filled closed one
+interface PDFPath {
+  segments: Point[][];
+  color: RGB;
+  width: number;
+  fill?: boolean;
+}
+
+const DEFAULT_PADDING = 10;
+const CONTROL_POLYGON_COLOR: RGB = [0.4, 0.4, 0.4];
+const HIGHLIGHT_COLOR: RGB = [1, 0.29, 0.29];
+// Handle length of a cubic quarter circle, relative to the radius
+const CIRCLE_KAPPA = (4 / 3) * Math.tan(Math.PI / 8);
+
+function parseColor(color: string): RGB {
+  const hex = color.trim().replace('#', '');
+  const full =
+    hex.length === 3
+      ? hex
+          .split('')
+          .map(c => c + c)
+          .join('')
+      : hex;
+  if (/^[0-9a-f]{6}$/i.test(full)) {
+    return [0, 2, 4].map(i => parseInt(full.substr(i, 2), 16) / 255) as RGB;
+  }
+  const rgb = color.match(/rgba?\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)/);
+  if (rgb) return [1, 2, 3].map(i => Math.min(parseFloat(rgb[i]), 255) / 255) as RGB;
+  return [0, 0, 0];
+}
+
+// PDF has no transparency without extra objects, so translucent overlays are mixed with
+// the white page instead
+function fade(color: RGB, alpha: number): RGB {
+  return color.map(c => c * alpha + (1 - alpha)) as RGB;
+}
+
+function formatNumber(value: number): string {
+  const rounded = Math.round(value * 1000) / 1000;
+  return String(rounded === 0 ? 0 : rounded);
+}
+
+function line(from: Point, to: Point, color: RGB, width = 1): PDFPath {
+  return { segments: [[from, to]], color, width };
+}
+
+function polyline(points: Point[], color: RGB, width = 1): PDFPath {
+  return { segments: points.slice(1).map((p, i) => [points[i], p]), color, width };
+}
+
+function dot(center: Point, radius: number, color: RGB): PDFPath {
+  const at = (angle: number) => ({
+    x: center.x + radius * Math.cos(angle),
+    y: center.y + radius * Math.sin(angle),
+  });
+  const segments = [0, 1, 2, 3].map(quarter => {
+    const a0 = (quarter * Math.PI) / 2;
+    const a1 = a0 + Math.PI / 2;
+    const p0 = at(a0);
+    const p3 = at(a1);
+    const k = CIRCLE_KAPPA * radius;
+    return [
+      p0,
+      { x: p0.x - k * Math.sin(a0), y: p0.y + k * Math.cos(a0) },
+      { x: p3.x + k * Math.sin(a1), y: p3.y - k * Math.cos(a1) },
+      p3,
+    ];
+  });
+  return { segments, color, width: 0, fill: true };
+}
+
+// Like the canvas: interpolating curves show each handle as a stick out of its knot
+function getControlPolygon(curve: BezierCurve): PDFPath[] {
+  const { points } = curve;
+  if (!isInterpolating(curve)) return [polyline(points, CONTROL_POLYGON_COLOR)];
+  return points.flatMap((handle, i) =>
+    isKnot(i)
+      ? []
+      : [line(points[getKnotPointIndex(getOwningKnot(i))], handle, CONTROL_POLYGON_COLOR)]
+  );
+}
+
+function getConstructionLevels(levels: Point[][], color: RGB): PDFPath[] {
+  return levels.slice(1).flatMap((level, i) => {
+    const levelColor = fade(color, 0.3 + (0.5 * (i + 1)) / levels.length);
+    return [polyline(level, levelColor), ...level.map(p => dot(p, 3, levelColor))];
+  });
+}
+
+function getCurvatureComb(segments: Point[][], color: RGB): PDFPath[] {
+  const ts = getUniformTs(COMB_SAMPLES_PER_SEGMENT);
+  const teeth: PDFPath[] = [];
+  const tips: Point[] = [];
+  segments.forEach(segment => {
+    evaluateMany(segment, ts).forEach((point, i) => {
+      const normal = getNormal(segment, ts[i]);
+      const length = getCurvature(segment, ts[i]) * COMB_SCALE;
+      const tip = { x: point.x - normal.x * length, y: point.y - normal.y * length };
+      teeth.push(line(point, tip, fade(color, 0.35)));
+      tips.push(tip);
+    });
+  });
+  return [...teeth, polyline(tips, fade(color, 0.7))];
+}
+
+function getVelocityVector(points: Point[], t: number, color: RGB): PDFPath[] {
+  const point = evaluateBezier(points, t);
+  const velocity = getDerivative(points, t);
+  const tip = {
+    x: point.x + velocity.x * VELOCITY_SCALE,
+    y: point.y + velocity.y * VELOCITY_SCALE,
+  };
+  return [line(point, tip, HIGHLIGHT_COLOR, 2), dot(tip, 3, HIGHLIGHT_COLOR), dot(point, 4, color)];
+}
+
+// The control polygon of the overlay's curve plus whatever its mode constructs, as the
+// canvas draws them
+function getOverlayPaths(curves: BezierCurve[], overlay: PDFOverlay): PDFPath[] {
+  const curve = curves.find(c => c.id === overlay.curveId);
+  if (!curve || curve.points.length < 2) return [];
+
+  const { mode, t } = overlay;
+  const color = parseColor(curve.color);
+  const located = locateSegment(curve, t);
+  const paths = getControlPolygon(curve);
+
+  switch (mode) {
+    case 'decasteljau':
+    case 'tslider':
+    case 'deboor':
+      if (t <= 0) break;
+      if (mode === 'deboor' && isBSpline(curve)) {
+        const u = getKnotParameter(curve, t);
+        const degree = getBSplineDegree(curve);
+        paths.push(
+          ...getConstructionLevels(
+            getDeBoorLevels(curve.points, getKnotVector(curve), degree, u),
+            color
+          )
+        );
+      } else if (located) {
+        paths.push(
+          ...getConstructionLevels(getDeCasteljauLevels(located.segment, located.t), color)
+        );
+      }
+      break;
+    case 'curvature':
+      paths.push(...getCurvatureComb(getCurveSegments(curve), color));
+      break;
+    case 'hodograph':
+      if (located) paths.push(...getVelocityVector(located.segment, located.t, color));
+      break;
+    case 'intersections':
+      findCurveIntersections(curves).forEach(({ point }) => {
+        paths.push(dot(point, 6, [0, 0, 0]), dot(point, 3, HIGHLIGHT_COLOR));
+      });
+      break;
+  }
+
+  curve.points.forEach((point, index) => {
+    const isHandle = isInterpolating(curve) && !isKnot(index);
+    paths.push(dot(point, isHandle ? 4 : 6, color));
+  });
+  return paths;
+}
+
+function getPathOperators(path: PDFPath): string {
+  const [r, g, b] = path.color.map(formatNumber);
+  const operators = path.fill
+    ? [`${r} ${g} ${b} rg`]
+    : [`${r} ${g} ${b} RG`, `${formatNumber(path.width)} w`];
+
+  let current: Point | null = null;
+  path.segments.forEach(segment => {
+    const start = segment[0];
+    if (!current || current.x !== start.x || current.y !== start.y) {
+      operators.push(`${formatNumber(start.x)} ${formatNumber(start.y)} m`);
+    }
+    const cubic = segment.length === 3 ? elevateDegree(segment) : segment;
+    const coordinates = cubic
+      .slice(1)
+      .map(p => `${formatNumber(p.x)} ${formatNumber(p.y)}`)
+      .join(' ');
+    operators.push(`${coordinates} ${cubic.length === 2 ? 'l' : 'c'}`);
+    current = segment[segment.length - 1];
+  });
+
+  operators.push(path.fill ? 'f' : 'S');
+  return operators.join('\n');
+}
+
+function getPathBounds(path: PDFPath): Bounds | null {
+  const bounds = mergeBounds(path.segments.map(getBounds));
+  if (!bounds || path.fill) return bounds;
+  // Strokes reach half their width beyond the path
+  const half = path.width / 2;
+  return {
+    minX: bounds.minX - half,
+    minY: bounds.minY - half,
+    maxX: bounds.maxX + half,
+    maxY: bounds.maxY + half,
+  };
+}
+
+// A single-page PDF 1.4 file around one content stream. Everything in it is ASCII, so
+// string offsets are byte offsets for the cross-reference table.
+function writePDF(width: number, height: number, content: string): string {
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Contents 4 0 R >>`,
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return pdf;
+}
+
+export function exportCurvesToPDF(
+  curves: BezierCurve[],
+  options: PDFExportOptions = {}
+): PDFExport {
+  const tolerance = options.tolerance ?? DEFAULT_EXPORT_TOLERANCE;
+  const padding = options.padding ?? DEFAULT_PADDING;
+  const strokeWidth = options.strokeWidth ?? CURVE_STROKE_WIDTH;
+
+  let error = 0;
+  const paths: PDFPath[] = curves
+    .filter(curve => curve.points.length > 1)
+    .map(curve => {
+      const cubics = approximateSegmentsWithCubics(getCurveSegments(curve), tolerance);
+      error = Math.max(error, cubics.error);
+      return { segments: cubics.segments, color: parseColor(curve.color), width: strokeWidth };
+    });
+  if (options.overlay) paths.push(...getOverlayPaths(curves, options.overlay));
+
+  const content = mergeBounds(paths.map(getPathBounds));
+  if (!content) return { pdf: '', error: 0 };
+
+  const minX = Math.floor(content.minX - padding);
+  const minY = Math.floor(content.minY - padding);
+  const width = Math.ceil(content.maxX + padding) - minX;
+  const height = Math.ceil(content.maxY + padding) - minY;
+
+  // Canvas y grows downwards and PDF y upwards: flip about the page's top edge
+  const stream = [
+    `1 0 0 -1 ${-minX} ${minY + height} cm`,
+    '1 J 1 j',
+    ...paths.map(getPathOperators),
+  ].join('\n');
+  return { pdf: writePDF(width, height, stream), error };
+}
@@ -1,9 +1,71 @@
 import { Point, BezierCurve, VisualizationMode } from './types';
-import { getBezierPath, getDeCasteljauLevels } from './bezier';
+import { CurveIntersection } from './intersection';
+import {
+  ArcLengthTable,
+  evaluateBezier,
+  evaluateMany,
+  getArcLengthAtT,
+  flattenBezier,
+  getCurvature,
+  getDeCasteljauLevels,
+  getDerivative,
+  getHodograph,
+  getNormal,
+  getStrokeOutline,
+  getTangent,
+  getUniformTs,
+  getWeight,
+  StrokeStyle,
+} from './bezier';
+import {
+  getCurveBasis,
+  getCurveBounds,
+  getCurveExtrema,
+  getCurveSegments,
+  getJointAnchorIndex,
+  getJointContinuity,
+  getJointCount,
+  isInterpolating,
+  locateSegment,
+} from './spline';
+import { getKnotPointIndex, getOwningKnot, isKnot } from './interpolation';
+import {
+  getBSplineDegree,
+  getBreakpoints,
+  getDeBoorLevels,
+  getKnotParameter,
+  getKnotVector,
+  isBSpline,
+} from './bspline';
+import { getBasisColor } from './basisPlot';
+import { EasingBox, fromUnitBox } from './easing';
+import {
+  COMB_SAMPLES_PER_SEGMENT,
+  COMB_SCALE,
+  CURVE_STROKE_WIDTH,
+  VELOCITY_SCALE,
+} from './drawingStyle';
+
+const FRAME_VECTOR_LENGTH = 50;
+const HODOGRAPH_SAMPLES_PER_SEGMENT = 48;
+const HODOGRAPH_INSET_SIZE = 180;
+
+// Parts of the scene that can be left out, e.g. for a clean export
+export interface RenderLayers {
+  controlPolygons: boolean; // Control polygons and handles, with their control points
+  constructionLines: boolean; // de Casteljau and de Boor constructions
+}
 
 export class Renderer {
   private ctx: CanvasRenderingContext2D;
   private canvas: HTMLCanvasElement;
+  private showBounds = false;
+  private strokePreview: StrokeStyle | null = null;
+  private layers: RenderLayers = { controlPolygons: true, constructionLines: true };
+  // Canvas pixels per scene pixel; above 1 only when rendering offscreen at a fixed size
+  private scale = 1;
+  private background: string | null = null;
+  private easingBox: EasingBox | null = null;
 
   constructor(canvas: HTMLCanvasElement) {
     this.canvas = canvas;
@@ -18,8 +80,53 @@ export class Renderer {
     this.canvas.height = this.canvas.clientHeight;
   }
 
+  // Render a width x height scene at `scale` canvas pixels per scene pixel, instead of
+  // following the element's size (for offscreen canvases)
+  setSize(width: number, height: number, scale = 1) {
+    this.scale = scale;
+    this.canvas.width = Math.round(width * scale);
+    this.canvas.height = Math.round(height * scale);
+  }
+
+  // Fill color under the scene; null leaves it transparent
+  setBackground(color: string | null) {
+    this.background = color;
+  }
+
+  setLayers(layers: Partial<RenderLayers>) {
+    this.layers = { ...this.layers, ...layers };
+  }
+
+  setShowBounds(show: boolean) {
+    this.showBounds = show;
+  }
+
+  setStrokePreview(style: StrokeStyle | null) {
+    this.strokePreview = style;
+  }
+
+  // Unit box of the timing-function editor, drawn under the curves; null hides it
+  setEasingBox(box: EasingBox | null) {
+    this.easingBox = box;
+  }
+
   clear() {
+    this.ctx.setTransform(1, 0, 0, 1, 0, 0);
     this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+    if (this.background) {
+      this.ctx.fillStyle = this.background;
+      this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+    }
+    this.ctx.setTransform(this.scale, 0, 0, this.scale, 0, 0);
+  }
+
+  // Scene size, in the units curves are drawn in
+  private get sceneWidth(): number {
+    return this.canvas.width / this.scale;
+  }
+
+  private get sceneHeight(): number {
+    return this.canvas.height / this.scale;
   }
 
   drawPoint(point: Point, color = '#4a9eff', radius = 6) {
@@ -46,19 +153,112 @@ export class Renderer {
     }
   }
 
+  // Interpolating curves show each handle as a stick out of its knot
+  drawHandles(points: Point[], color = '#666') {
+    points.forEach((point, index) => {
+      if (!isKnot(index)) {
+        this.drawLine(points[getKnotPointIndex(getOwningKnot(index))], point, color, 1);
+      }
+    });
+  }
+
   drawBezierCurve(points: Point[], color = '#4a9eff') {
-    if (points.length < 2) return;
+    this.drawSegments([points], color);
+  }
+
+  // Stroke a chain of Bezier segments as one path so joints are not drawn twice
+  drawSegments(segments: Point[][], color = '#4a9eff') {
+    const drawable = segments.filter(segment => segment.length >= 2);
+    if (drawable.length === 0) return;
 
-    const path = getBezierPath(points);
     this.ctx.strokeStyle = color;
-    this.ctx.lineWidth = 3;
+    this.ctx.lineWidth = CURVE_STROKE_WIDTH;
     this.ctx.beginPath();
-    this.ctx.moveTo(path[0].x, path[0].y);
 
+    drawable.forEach((segment, index) => {
+      const path = flattenBezier(segment).points;
+      if (index === 0) {
+        this.ctx.moveTo(path[0].x, path[0].y);
+      }
+      for (let i = 1; i < path.length; i++) {
+        this.ctx.lineTo(path[i].x, path[i].y);
+      }
+    });
+
+    this.ctx.stroke();
+  }
+
+  // Closed chain of segments, filled translucently with a thin edge
+  drawOutline(segments: Point[][], color: string) {
+    if (segments.length === 0) return;
+
+    this.ctx.beginPath();
+    segments.forEach((segment, index) => {
+      const path = flattenBezier(segment).points;
+      if (index === 0) {
+        this.ctx.moveTo(path[0].x, path[0].y);
+      }
+      for (let i = 1; i < path.length; i++) {
+        this.ctx.lineTo(path[i].x, path[i].y);
+      }
+    });
+    this.ctx.closePath();
+
+    this.ctx.fillStyle = this.adjustAlpha(color, 0.2);
+    this.ctx.fill('nonzero');
+    this.ctx.strokeStyle = this.adjustAlpha(color, 0.6);
+    this.ctx.lineWidth = 1;
+    this.ctx.stroke();
+  }
+
+  drawPointLabel(point: Point, label: string, color: string, offsetY = -9) {
+    this.ctx.fillStyle = color;
+    this.ctx.font = '11px system-ui, sans-serif';
+    this.ctx.fillText(label, point.x + 9, point.y + offsetY);
+  }
+
+  drawIntersection(point: Point) {
+    this.drawPoint(point, '#fff', 6);
+    this.drawPoint(point, '#ff4a4a', 3);
+  }
+
+  // Closest curve point under the cursor, labelled with its t
+  drawHoverMarker(point: Point, t: number, color: string) {
+    this.drawPoint(point, '#fff', 4);
+    this.drawPointLabel(point, `t=${t.toFixed(2)}`, color, 18);
+  }
+
+  // Halo around each control point sized by its share of the curve point at t, with the
+  // control point whose basis function is hovered in the basis plot ringed
+  drawBasisContributions(curve: BezierCurve, t: number, highlightedIndex: number | null) {
+    const count = curve.points.length;
+    getCurveBasis(curve, t).forEach((value, index) => {
+      const point = curve.points[index];
+      if (value > 0.005) {
+        this.drawPoint(point, getBasisColor(index, count, 0.35), 8 + 24 * value);
+        this.drawPointLabel(point, `${Math.round(value * 100)}%`, getBasisColor(index, count));
+      }
+      if (index === highlightedIndex) {
+        this.ctx.strokeStyle = getBasisColor(index, count);
+        this.ctx.lineWidth = 2;
+        this.ctx.beginPath();
+        this.ctx.arc(point.x, point.y, 12, 0, Math.PI * 2);
+        this.ctx.stroke();
+      }
+    });
+  }
+
+  // Freehand stroke still being drawn in sketch mode, before it is fitted
+  drawSketch(path: Point[]) {
+    if (path.length < 2) return;
+
+    this.ctx.strokeStyle = '#aaa';
+    this.ctx.lineWidth = 1.5;
+    this.ctx.beginPath();
+    this.ctx.moveTo(path[0].x, path[0].y);
     for (let i = 1; i < path.length; i++) {
       this.ctx.lineTo(path[i].x, path[i].y);
     }
-
     this.ctx.stroke();
   }
 
@@ -88,33 +288,91 @@ export class Renderer {
     activeCurveId: string | null,
     animatedPoints: Map<string, Point>,
     visualizationMode: VisualizationMode = 'default',
-    animationProgress = 0
+    animationProgress = 0,
+    intersections: CurveIntersection[] = []
   ) {
     this.clear();
 
+    if (this.easingBox) {
+      this.drawEasingBox(this.easingBox);
+    }
+
     curves.forEach(curve => {
       const isActive = curve.id === activeCurveId;
       const alpha = isActive ? 1 : 0.3;
 
       if (curve.points.length > 1) {
         const dimmedColor = this.adjustAlpha(curve.color, alpha);
-        this.drawBezierCurve(curve.points, dimmedColor);
+        this.drawSegments(getCurveSegments(curve), dimmedColor);
 
-        if (isActive) {
-          this.drawControlPolygon(curve.points, '#666');
+        if (isActive && this.strokePreview) {
+          this.drawOutline(
+            getStrokeOutline(getCurveSegments(curve), this.strokePreview),
+            curve.color
+          );
+        }
+
+        if (isActive && this.layers.controlPolygons) {
+          if (isInterpolating(curve)) {
+            this.drawHandles(curve.points, '#666');
+          } else {
+            this.drawControlPolygon(curve.points, '#666');
+          }
+        }
+        if (isActive && this.showBounds) {
+          this.drawBounds(curve);
+        }
+
+        if (isActive && isBSpline(curve)) {
+          this.drawKnotMarkers(curve, visualizationMode === 'deboor');
         }
 
         if (
           isActive &&
-          (visualizationMode === 'decasteljau' || visualizationMode === 'tslider') &&
+          this.layers.constructionLines &&
+          (visualizationMode === 'decasteljau' ||
+            visualizationMode === 'tslider' ||
+            visualizationMode === 'deboor') &&
           animationProgress > 0
         ) {
-          this.drawConstructionLines(curve.points, animationProgress, curve.color);
+          const located = locateSegment(curve, animationProgress);
+          if (visualizationMode === 'deboor' && isBSpline(curve)) {
+            this.drawDeBoorConstruction(curve, animationProgress);
+          } else if (located) {
+            // On Bezier segments de Boor's algorithm is de Casteljau's
+            this.drawConstructionLines(located.segment, located.t, curve.color);
+          }
+        }
+
+        if (isActive && visualizationMode === 'curvature') {
+          this.drawCurvatureComb(getCurveSegments(curve), curve.color);
+          const located = locateSegment(curve, animationProgress);
+          if (located) {
+            this.drawFrenetFrame(located.segment, located.t, curve.color);
+          }
+        }
+
+        if (isActive && visualizationMode === 'hodograph') {
+          const located = locateSegment(curve, animationProgress);
+          if (located) {
+            this.drawVelocityVector(located.segment, located.t, curve.color);
+          }
         }
       }
 
-      if (isActive) {
-        curve.points.forEach(point => this.drawPoint(point, curve.color));
+      if (isActive && this.layers.controlPolygons) {
+        curve.points.forEach((point, index) => {
+          const isHandle = isInterpolating(curve) && !isKnot(index);
+          this.drawPoint(point, curve.color, isHandle ? 4 : 6);
+          if (getWeight(point) !== 1) {
+            this.drawPointLabel(point, `w=${getWeight(point).toFixed(2)}`, curve.color);
+          }
+        });
+
+        for (let joint = 0; joint < getJointCount(curve); joint++) {
+          const anchor = curve.points[getJointAnchorIndex(curve, joint)];
+          this.drawPointLabel(anchor, getJointContinuity(curve, joint), '#aaa', 16);
+        }
       }
 
       const animatedPoint = animatedPoints.get(curve.id);
@@ -122,11 +380,254 @@ export class Renderer {
         this.drawAnimatedPoint(animatedPoint);
       }
     });
+
+    if (visualizationMode === 'intersections') {
+      intersections.forEach(intersection => this.drawIntersection(intersection.point));
+    }
+  }
+
+  // Tight bounding box with the x/y extrema that define it, labelled with their t
+  drawBounds(curve: BezierCurve) {
+    const bounds = getCurveBounds(curve);
+    if (!bounds) return;
+
+    this.ctx.strokeStyle = '#888';
+    this.ctx.lineWidth = 1;
+    this.ctx.setLineDash([4, 4]);
+    this.ctx.strokeRect(
+      bounds.minX,
+      bounds.minY,
+      bounds.maxX - bounds.minX,
+      bounds.maxY - bounds.minY
+    );
+    this.ctx.setLineDash([]);
+
+    getCurveExtrema(curve).forEach(extremum => {
+      this.drawPoint(extremum.point, '#ffb84a', 4);
+      this.drawPointLabel(extremum.point, `t=${extremum.t.toFixed(2)}`, '#ffb84a');
+    });
+  }
+
+  // Time runs left to right and progress bottom to top; the diagonal is linear easing
+  drawEasingBox(box: EasingBox) {
+    const origin = fromUnitBox(box, { x: 0, y: 0 });
+    const end = fromUnitBox(box, { x: 1, y: 1 });
+
+    this.ctx.fillStyle = 'rgba(255, 255, 255, 0.03)';
+    this.ctx.fillRect(box.left, box.top, box.size, box.size);
+    this.ctx.strokeStyle = '#444';
+    this.ctx.lineWidth = 1;
+    this.ctx.strokeRect(box.left, box.top, box.size, box.size);
+
+    this.ctx.setLineDash([4, 4]);
+    this.drawLine(origin, end, '#444', 1);
+    this.ctx.setLineDash([]);
+
+    this.drawPointLabel(origin, '0', '#aaa', 14);
+    this.drawPointLabel(end, '1', '#aaa', 0);
+    this.drawPointLabel({ x: box.left + box.size / 2 - 24, y: origin.y }, 'time →', '#aaa', 18);
+    this.drawPointLabel({ x: box.left - 78, y: box.top + box.size / 2 }, 'progress ↑', '#aaa', 0);
+  }
+
+  // Inset plot of distance travelled s (vertical) against the parameter t (horizontal)
+  drawArcLengthMapping(table: ArcLengthTable, t: number, color: string) {
+    const size = 120;
+    const margin = 16;
+    const left = this.sceneWidth - size - margin;
+    const top = this.sceneHeight - size - margin;
+    const toCanvas = (u: number, s: number): Point => ({
+      x: left + u * size,
+      y: top + (1 - s) * size,
+    });
+
+    this.ctx.fillStyle = 'rgba(26, 26, 26, 0.85)';
+    this.ctx.fillRect(left, top, size, size);
+    this.ctx.strokeStyle = '#444';
+    this.ctx.lineWidth = 1;
+    this.ctx.strokeRect(left, top, size, size);
+
+    // Uniform speed reference: s grows linearly with t
+    this.drawLine(toCanvas(0, 0), toCanvas(1, 1), '#444', 1);
+
+    this.ctx.strokeStyle = color;
+    this.ctx.lineWidth = 2;
+    this.ctx.beginPath();
+    table.ts.forEach((u, i) => {
+      const point = toCanvas(u, table.total > 0 ? table.lengths[i] / table.total : u);
+      if (i === 0) this.ctx.moveTo(point.x, point.y);
+      else this.ctx.lineTo(point.x, point.y);
+    });
+    this.ctx.stroke();
+
+    this.drawPoint(toCanvas(t, getArcLengthAtT(table, t)), '#ff4a4a', 4);
+    this.drawPointLabel({ x: left - 9, y: top + size }, 't → s', '#aaa', 14);
+  }
+
+  // Teeth along the outside of each bend, as long as the curvature there; the line
+  // through their tips shows how evenly the curvature changes
+  drawCurvatureComb(segments: Point[][], color: string) {
+    const teethColor = this.adjustAlpha(color, 0.35);
+    const tips: Point[] = [];
+
+    const ts = getUniformTs(COMB_SAMPLES_PER_SEGMENT);
+    segments.forEach(segment => {
+      const points = evaluateMany(segment, ts);
+      for (let i = 0; i <= COMB_SAMPLES_PER_SEGMENT; i++) {
+        const t = ts[i];
+        const point = points[i];
+        const normal = getNormal(segment, t);
+        const length = getCurvature(segment, t) * COMB_SCALE;
+        const tip = { x: point.x - normal.x * length, y: point.y - normal.y * length };
+        this.drawLine(point, tip, teethColor, 1);
+        tips.push(tip);
+      }
+    });
+
+    for (let i = 0; i < tips.length - 1; i++) {
+      this.drawLine(tips[i], tips[i + 1], this.adjustAlpha(color, 0.7), 1);
+    }
+  }
+
+  // Unit tangent and normal at t plus the osculating circle, whose radius is 1 / curvature
+  drawFrenetFrame(points: Point[], t: number, color: string) {
+    const point = evaluateBezier(points, t);
+    const tangent = getTangent(points, t);
+    const normal = getNormal(points, t);
+    const curvature = getCurvature(points, t);
+
+    if (Math.abs(curvature) > 1e-4) {
+      const radius = 1 / curvature;
+      this.ctx.strokeStyle = this.adjustAlpha(color, 0.5);
+      this.ctx.lineWidth = 1;
+      this.ctx.beginPath();
+      this.ctx.arc(
+        point.x + normal.x * radius,
+        point.y + normal.y * radius,
+        Math.abs(radius),
+        0,
+        Math.PI * 2
+      );
+      this.ctx.stroke();
+    }
+
+    const along = (direction: Point): Point => ({
+      x: point.x + direction.x * FRAME_VECTOR_LENGTH,
+      y: point.y + direction.y * FRAME_VECTOR_LENGTH,
+    });
+    this.drawLine(point, along(tangent), '#4aff9e', 2);
+    this.drawLine(point, along(normal), '#ffb84a', 2);
+    this.drawPoint(point, color, 4);
+    this.drawPointLabel(point, `κ=${curvature.toFixed(4)}`, color, 18);
+  }
+
+  // Velocity C'(t) drawn from the curve point, labelled with the speed |C'(t)|
+  drawVelocityVector(points: Point[], t: number, color: string) {
+    const point = evaluateBezier(points, t);
+    const velocity = getDerivative(points, t);
+    const tip = {
+      x: point.x + velocity.x * VELOCITY_SCALE,
+      y: point.y + velocity.y * VELOCITY_SCALE,
+    };
+    this.drawLine(point, tip, '#ff4a4a', 2);
+    this.drawPoint(tip, '#ff4a4a', 3);
+    this.drawPoint(point, color, 4);
+    this.drawPointLabel(point, `|C'|=${Math.hypot(velocity.x, velocity.y).toFixed(1)}`, color, 18);
+  }
+
+  // Inset of the hodograph: every velocity C'(t) drawn from one origin. The distance from
+  // the origin is the speed, and where the hodograph passes through the origin the
+  // velocity vanishes, which is where a cusp can form. Each segment has its own piece;
+  // at C1 joints the pieces meet, at G1 joints they jump along the same direction.
+  drawHodograph(curve: BezierCurve, t: number) {
+    const segments = getCurveSegments(curve);
+    const located = locateSegment(curve, t);
+    if (!located) return;
+
+    // Polynomial segments have a Bezier hodograph that can be sampled in one batch; the
+    // derivative of a rational one is evaluated point by point
+    const ts = getUniformTs(HODOGRAPH_SAMPLES_PER_SEGMENT);
+    const polygons = segments.map(getHodograph);
+    const paths = segments.map((segment, i) => {
+      const polygon = polygons[i];
+      return polygon ? evaluateMany(polygon, ts) : Array.from(ts, t => getDerivative(segment, t));
+    });
+    const extent = Math.max(
+      1e-9,
+      ...[...paths, ...polygons].flatMap(points =>
+        (points ?? []).map(p => Math.max(Math.abs(p.x), Math.abs(p.y)))
+      )
+    );
+
+    const size = HODOGRAPH_INSET_SIZE;
+    const margin = 16;
+    const left = this.sceneWidth - size - margin;
+    const top = margin;
+    const origin = { x: left + size / 2, y: top + size / 2 };
+    const scale = (size / 2 - 12) / extent;
+    const toCanvas = (v: Point): Point => ({
+      x: origin.x + v.x * scale,
+      y: origin.y + v.y * scale,
+    });
+
+    this.ctx.fillStyle = 'rgba(26, 26, 26, 0.85)';
+    this.ctx.fillRect(left, top, size, size);
+    this.ctx.strokeStyle = '#444';
+    this.ctx.lineWidth = 1;
+    this.ctx.strokeRect(left, top, size, size);
+    this.drawLine({ x: left, y: origin.y }, { x: left + size, y: origin.y }, '#444', 1);
+    this.drawLine({ x: origin.x, y: top }, { x: origin.x, y: top + size }, '#444', 1);
+
+    polygons.forEach(polygon => {
+      if (polygon) this.drawControlPolygon(polygon.map(toCanvas), '#666');
+    });
+
+    this.ctx.strokeStyle = curve.color;
+    this.ctx.lineWidth = 2;
+    paths.forEach(path => {
+      this.ctx.beginPath();
+      path.map(toCanvas).forEach((point, i) => {
+        if (i === 0) this.ctx.moveTo(point.x, point.y);
+        else this.ctx.lineTo(point.x, point.y);
+      });
+      this.ctx.stroke();
+    });
+
+    const tip = toCanvas(getDerivative(located.segment, located.t));
+    this.drawLine(origin, tip, '#ff4a4a', 2);
+    this.drawPoint(tip, '#ff4a4a', 4);
+    this.drawPointLabel({ x: left - 9, y: top }, "C'(t)", '#aaa', 14);
   }
 
   drawConstructionLines(points: Point[], t: number, color: string) {
-    const levels = getDeCasteljauLevels(points, t);
+    this.drawConstructionLevels(getDeCasteljauLevels(points, t), color);
+  }
+
+  // de Boor's algorithm at the curve-wide t: each level inserts the knot once more
+  drawDeBoorConstruction(curve: BezierCurve, t: number) {
+    const u = getKnotParameter(curve, t);
+    const levels = getDeBoorLevels(curve.points, getKnotVector(curve), getBSplineDegree(curve), u);
+    this.drawConstructionLevels(levels, curve.color);
+    this.drawPointLabel(levels[levels.length - 1][0], `u=${u.toFixed(2)}`, curve.color, 18);
+  }
+
+  // Where the polynomial pieces of a B-spline meet, optionally labelled with their knot
+  drawKnotMarkers(curve: BezierCurve, labelled: boolean) {
+    const segments = getCurveSegments(curve);
+    if (segments.length === 0) return;
+
+    const degree = getBSplineDegree(curve);
+    const knots = getBreakpoints(getKnotVector(curve), degree, curve.points.length);
+    const last = segments[segments.length - 1];
+    const points = [...segments.map(segment => segment[0]), last[last.length - 1]];
+    points.forEach((point, i) => {
+      this.drawPoint(point, '#fff', 3);
+      if (labelled) {
+        this.drawPointLabel(point, knots[i].toFixed(2), '#aaa', 16);
+      }
+    });
+  }
 
+  private drawConstructionLevels(levels: Point[][], color: string) {
     for (let levelIndex = 1; levelIndex < levels.length; levelIndex++) {
       const level = levels[levelIndex];
       const alpha = 0.3 + (0.5 * levelIndex) / levels.length;
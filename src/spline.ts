@@ -0,0 +1,329 @@
+import { BezierCurve, JointContinuity, Point } from './types';
+import {
+  ArcLengthTable,
+  Bounds,
+  Extremum,
+  Projection,
+  buildArcLengthTableFromPath,
+  evaluateBezier,
+  evaluateMany,
+  getBounds,
+  getBernsteinBasis,
+  getExtrema,
+  getUniformTs,
+  mergeBounds,
+  projectPoint,
+  splitBezier,
+} from './bezier';
+import {
+  getBSplineBasis,
+  getBSplineDegree,
+  getKnotParameter,
+  getKnotVector,
+  isBSpline,
+  splitBSpline,
+  toBezierSegments,
+} from './bspline';
+
+export const DEFAULT_CONTINUITY: JointContinuity = 'G1';
+const CONTINUITY_CYCLE: JointContinuity[] = ['C0', 'C1', 'G1'];
+
+// Curves made of joined segments. Interpolating curves are cubic splines whose
+// handles are derived from the points they pass through.
+export function isSpline(curve: BezierCurve): boolean {
+  return curve.kind === 'spline' || isInterpolating(curve);
+}
+
+export function isInterpolating(curve: BezierCurve): boolean {
+  return curve.kind === 'interpolating';
+}
+
+// Interpolating joints are always smooth, so only plain splines expose joint settings
+function hasJointSettings(curve: BezierCurve): boolean {
+  return curve.kind === 'spline';
+}
+
+export function getSegmentDegree(curve: BezierCurve): number {
+  return isInterpolating(curve) ? 3 : (curve.segmentDegree ?? 3);
+}
+
+// Split a curve into the Bezier segments that make it up. A spline's trailing
+// points that do not fill a whole segment yet form a lower-degree segment; a
+// B-spline is converted into one segment per knot span.
+export function getCurveSegments(curve: BezierCurve): Point[][] {
+  const { points } = curve;
+  if (points.length < 2) return [];
+  if (isBSpline(curve)) return toBezierSegments(curve);
+  if (!isSpline(curve)) return [points];
+
+  const degree = getSegmentDegree(curve);
+  const segments: Point[][] = [];
+  for (let start = 0; start < points.length - 1; start += degree) {
+    segments.push(points.slice(start, start + degree + 1));
+  }
+  return segments;
+}
+
+// Map a curve-wide t onto the segment it falls in and the local t within it
+export function locateSegment(
+  curve: BezierCurve,
+  t: number
+): { segment: Point[]; index: number; t: number } | null {
+  const segments = getCurveSegments(curve);
+  if (segments.length === 0) return null;
+
+  const scaled = Math.min(Math.max(t, 0), 1) * segments.length;
+  const index = Math.min(Math.floor(scaled), segments.length - 1);
+  return { segment: segments[index], index, t: scaled - index };
+}
+
+export function evaluateCurve(curve: BezierCurve, t: number): Point | null {
+  const located = locateSegment(curve, t);
+  return located ? evaluateBezier(located.segment, located.t) : null;
+}
+
+// Contribution of each of the curve's control points at a curve-wide t (they sum to 1).
+// On a spline only the points of the segment that t falls in contribute.
+export function getCurveBasis(curve: BezierCurve, t: number): number[] {
+  const { points } = curve;
+  if (points.length < 2) return points.map(() => 1);
+
+  if (isBSpline(curve)) {
+    const u = getKnotParameter(curve, t);
+    return getBSplineBasis(points, getKnotVector(curve), getBSplineDegree(curve), u);
+  }
+
+  const located = locateSegment(curve, t)!;
+  const start = located.index * getSegmentDegree(curve);
+  const basis = points.map(() => 0);
+  getBernsteinBasis(located.segment, located.t).forEach((value, i) => {
+    basis[start + i] = value;
+  });
+  return basis;
+}
+
+// evaluateCurve at many curve-wide ts, evaluating the ts of each segment in one batch
+export function evaluateCurveMany(curve: BezierCurve, ts: ArrayLike<number>): Point[] {
+  const segments = getCurveSegments(curve);
+  if (segments.length === 0) return [];
+
+  const batches = segments.map(() => ({ indices: [] as number[], ts: [] as number[] }));
+  for (let i = 0; i < ts.length; i++) {
+    const scaled = Math.min(Math.max(ts[i], 0), 1) * segments.length;
+    const index = Math.min(Math.floor(scaled), segments.length - 1);
+    batches[index].indices.push(i);
+    batches[index].ts.push(scaled - index);
+  }
+
+  const result: Point[] = new Array(ts.length);
+  batches.forEach((batch, index) => {
+    evaluateMany(segments[index], batch.ts).forEach((point, j) => {
+      result[batch.indices[j]] = point;
+    });
+  });
+  return result;
+}
+
+// Closest point over all segments, with t mapped onto the curve-wide parameter
+export function projectOntoCurve(curve: BezierCurve, pos: Point): Projection | null {
+  const segments = getCurveSegments(curve);
+  let best: Projection | null = null;
+
+  segments.forEach((segment, index) => {
+    const projection = projectPoint(segment, pos);
+    if (projection && (!best || projection.distance < best.distance)) {
+      best = { ...projection, t: (index + projection.t) / segments.length };
+    }
+  });
+
+  return best;
+}
+
+// Arc-length table over the curve-wide t, spanning every segment
+export function getCurveArcLengthTable(curve: BezierCurve, samples = 200): ArcLengthTable {
+  return buildArcLengthTableFromPath(evaluateCurveMany(curve, getUniformTs(samples)));
+}
+
+// Extrema of every segment, with t mapped onto the curve-wide parameter
+export function getCurveExtrema(curve: BezierCurve): Extremum[] {
+  const segments = getCurveSegments(curve);
+  return segments.flatMap((segment, index) =>
+    getExtrema(segment).map(extremum => ({
+      ...extremum,
+      t: (index + extremum.t) / segments.length,
+    }))
+  );
+}
+
+export function getCurveBounds(curve: BezierCurve): Bounds | null {
+  return mergeBounds(getCurveSegments(curve).map(getBounds));
+}
+
+// Cut a curve at a curve-wide t into two curves of the same kind. The first piece
+// keeps the original id. Returns null when t does not fall strictly inside the curve.
+export function splitCurve(
+  curve: BezierCurve,
+  t: number,
+  newCurveId: string
+): [BezierCurve, BezierCurve] | null {
+  if (t <= 0 || t >= 1) return null;
+  if (isBSpline(curve)) return splitBSpline(curve, t, newCurveId);
+
+  const located = locateSegment(curve, t);
+  if (!located) return null;
+
+  const [left, right] = splitBezier(located.segment, located.t);
+  const segments = getCurveSegments(curve);
+  const before = segments.slice(0, located.index);
+  const after = segments.slice(located.index + 1);
+
+  const { points: _points, continuity, ...properties } = curve;
+  const first: BezierCurve = { ...properties, points: joinSegments([...before, left]) };
+  const second: BezierCurve = {
+    ...properties,
+    id: newCurveId,
+    points: joinSegments([right, ...after]),
+  };
+
+  // Joints before the cut stay with the first piece, the rest move to the second
+  if (continuity) {
+    first.continuity = continuity.slice(0, located.index);
+    second.continuity = continuity.slice(located.index);
+  }
+
+  return [first, second];
+}
+
+// Inverse of getCurveSegments: drop the anchor each segment shares with the previous one
+export function joinSegments(segments: Point[][]): Point[] {
+  return segments.flatMap((segment, index) => (index === 0 ? segment : segment.slice(1)));
+}
+
+function countJoints(pointCount: number, degree: number): number {
+  return Math.max(0, Math.ceil((pointCount - 1) / degree) - 1);
+}
+
+function jointAtAnchor(anchorIndex: number, pointCount: number, degree: number): number | null {
+  if (anchorIndex % degree !== 0) return null;
+  const joint = anchorIndex / degree - 1;
+  return joint >= 0 && joint < countJoints(pointCount, degree) ? joint : null;
+}
+
+export function getJointCount(curve: BezierCurve): number {
+  return hasJointSettings(curve) ? countJoints(curve.points.length, getSegmentDegree(curve)) : 0;
+}
+
+export function getJointAnchorIndex(curve: BezierCurve, joint: number): number {
+  return (joint + 1) * getSegmentDegree(curve);
+}
+
+export function getJointAtPoint(curve: BezierCurve, pointIndex: number): number | null {
+  if (!hasJointSettings(curve)) return null;
+  return jointAtAnchor(pointIndex, curve.points.length, getSegmentDegree(curve));
+}
+
+export function getJointContinuity(curve: BezierCurve, joint: number): JointContinuity {
+  return curve.continuity?.[joint] ?? DEFAULT_CONTINUITY;
+}
+
+export function getNextContinuity(continuity: JointContinuity): JointContinuity {
+  return CONTINUITY_CYCLE[(CONTINUITY_CYCLE.indexOf(continuity) + 1) % CONTINUITY_CYCLE.length];
+}
+
+// Place the handle on the other side of the anchor so the joint satisfies its continuity.
+// C1 mirrors the handle, G1 keeps the opposite handle's length but makes it colinear.
+function alignOppositeHandle(
+  points: Point[],
+  anchorIndex: number,
+  handleIndex: number,
+  oppositeIndex: number,
+  continuity: JointContinuity
+): boolean {
+  if (continuity === 'C0') return false;
+
+  const anchor = points[anchorIndex];
+  const handle = points[handleIndex];
+  const opposite = points[oppositeIndex];
+  const dx = anchor.x - handle.x;
+  const dy = anchor.y - handle.y;
+
+  let scale = 1;
+  if (continuity === 'G1') {
+    const handleLength = Math.hypot(dx, dy);
+    if (handleLength === 0) return false;
+    scale = Math.hypot(opposite.x - anchor.x, opposite.y - anchor.y) / handleLength;
+  }
+
+  points[oppositeIndex] = { ...opposite, x: anchor.x + dx * scale, y: anchor.y + dy * scale };
+  return true;
+}
+
+// Walk away from a moved handle, fixing each joint it touches. Quadratic handles
+// are shared by two joints, so a change can ripple until a C0 joint or the end.
+function propagateFromHandle(
+  curve: BezierCurve,
+  points: Point[],
+  handleIndex: number,
+  direction: 1 | -1
+): void {
+  const degree = getSegmentDegree(curve);
+  let current = handleIndex;
+
+  for (;;) {
+    const anchorIndex = current + direction;
+    const oppositeIndex = anchorIndex + direction;
+    const joint = jointAtAnchor(anchorIndex, points.length, degree);
+    if (joint === null || oppositeIndex < 0 || oppositeIndex >= points.length) return;
+
+    const continuity = getJointContinuity(curve, joint);
+    if (!alignOppositeHandle(points, anchorIndex, current, oppositeIndex, continuity)) return;
+    if (degree !== 2) return;
+
+    current = oppositeIndex;
+  }
+}
+
+// Re-apply a joint's continuity by adjusting its outgoing handle
+export function enforceJointContinuity(curve: BezierCurve, points: Point[], joint: number): void {
+  const anchorIndex = getJointAnchorIndex(curve, joint);
+  if (anchorIndex + 1 < points.length) {
+    propagateFromHandle(curve, points, anchorIndex - 1, 1);
+  }
+}
+
+// Keep neighbouring handles consistent after points[index] moved away from `previous`.
+// Mutates `points` in place.
+export function constrainSplineDrag(
+  curve: BezierCurve,
+  points: Point[],
+  index: number,
+  previous: Point
+): void {
+  const degree = getSegmentDegree(curve);
+
+  if (index % degree === 0) {
+    if (degree === 2) {
+      // Quadratic handles belong to two joints, so re-align instead of dragging them along
+      if (index > 0) propagateFromHandle(curve, points, index - 1, 1);
+      return;
+    }
+
+    // Cubic anchors carry their handles with them
+    const dx = points[index].x - previous.x;
+    const dy = points[index].y - previous.y;
+    for (const handleIndex of [index - 1, index + 1]) {
+      const handle = points[handleIndex];
+      if (handle) {
+        points[handleIndex] = { ...handle, x: handle.x + dx, y: handle.y + dy };
+      }
+    }
+    return;
+  }
+
+  if (degree === 2) {
+    propagateFromHandle(curve, points, index, -1);
+    propagateFromHandle(curve, points, index, 1);
+  } else {
+    propagateFromHandle(curve, points, index, index % degree === 1 ? -1 : 1);
+  }
+}
@@ -0,0 +1,148 @@
+import { BezierCurve, Point } from './types';
+import {
+  Bounds,
+  DEFAULT_EXPORT_TOLERANCE,
+  StrokeStyle,
+  approximateSegmentsWithCubics,
+  getBounds,
+  getStrokeOutline,
+  getSVGPathData,
+  mergeBounds,
+} from './bezier';
+import { getCurveBounds, getCurveSegments, isInterpolating } from './spline';
+import { getKnotPointIndex, getOwningKnot, isKnot } from './interpolation';
+
+// Export of a whole drawing: every curve as its own path in its own color, optionally
+// with the control polygons and control points in separate layers for figures
+
+export interface SVGExportOptions {
+  tolerance?: number; // Largest error allowed where curves are approximated with cubics
+  padding?: number; // Margin around the content, in pixels
+  includeIds?: boolean; // Give each path the id of its curve
+  includeControlPolygons?: boolean;
+  includeControlPoints?: boolean;
+}
+
+export interface SVGExport {
+  svg: string;
+  error: number; // Largest deviation of any exported path from its curve
+}
+
+const DEFAULT_PADDING = 10;
+const CONTROL_POINT_RADIUS = 3;
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+function getPointsBounds(points: Point[]): Bounds | null {
+  if (points.length === 0) return null;
+  return {
+    minX: Math.min(...points.map(p => p.x)),
+    minY: Math.min(...points.map(p => p.y)),
+    maxX: Math.max(...points.map(p => p.x)),
+    maxY: Math.max(...points.map(p => p.y)),
+  };
+}
+
+// Like the canvas: interpolating curves show each handle as a stick out of its knot,
+// other curves the polygon through all their control points
+function getControlPolygonData(curve: BezierCurve): string {
+  const { points } = curve;
+  if (!isInterpolating(curve)) {
+    return points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' ');
+  }
+  return points
+    .flatMap((handle, i) => {
+      if (isKnot(i)) return [];
+      const knot = points[getKnotPointIndex(getOwningKnot(i))];
+      return [`M ${knot.x} ${knot.y} L ${handle.x} ${handle.y}`];
+    })
+    .join(' ');
+}
+
+// The content's bounds grown by the padding and rounded out to whole pixels
+function getViewBox(content: Bounds, padding: number) {
+  const minX = Math.floor(content.minX - padding);
+  const minY = Math.floor(content.minY - padding);
+  const width = Math.ceil(content.maxX + padding) - minX;
+  const height = Math.ceil(content.maxY + padding) - minY;
+  return { minX, minY, width, height };
+}
+
+function layer(id: string, elements: string[]): string {
+  return `  <g id="${id}">\n${elements.map(element => `    ${element}`).join('\n')}\n  </g>`;
+}
+
+export function exportCurvesToSVG(
+  curves: BezierCurve[],
+  options: SVGExportOptions = {}
+): SVGExport {
+  const tolerance = options.tolerance ?? DEFAULT_EXPORT_TOLERANCE;
+  const padding = options.padding ?? DEFAULT_PADDING;
+  const drawable = curves.filter(curve => curve.points.length > 1);
+  const showPoints = options.includeControlPolygons || options.includeControlPoints;
+
+  // Control points can lie outside the curve, so they widen the view when shown
+  const content = mergeBounds(
+    drawable.flatMap(curve =>
+      showPoints ? [getCurveBounds(curve), getPointsBounds(curve.points)] : [getCurveBounds(curve)]
+    )
+  );
+  if (!content) return { svg: '', error: 0 };
+
+  const { minX, minY, width, height } = getViewBox(content, padding);
+
+  let error = 0;
+  const paths = drawable.map(curve => {
+    const cubics = approximateSegmentsWithCubics(getCurveSegments(curve), tolerance);
+    error = Math.max(error, cubics.error);
+    const id = options.includeIds ? ` id="${escapeAttribute(curve.id)}"` : '';
+    const color = escapeAttribute(curve.color);
+    return `<path${id} d="${getSVGPathData(cubics.segments)}" fill="none" stroke="${color}" stroke-width="2"/>`;
+  });
+
+  const layers = [layer('curves', paths)];
+  if (options.includeControlPolygons) {
+    const polygons = drawable.map(
+      curve =>
+        `<path d="${getControlPolygonData(curve)}" fill="none" stroke="${escapeAttribute(curve.color)}" stroke-opacity="0.5" stroke-width="1"/>`
+    );
+    layers.push(layer('control-polygons', polygons));
+  }
+  if (options.includeControlPoints) {
+    const points = drawable.flatMap(curve =>
+      curve.points.map(
+        p =>
+          `<circle cx="${p.x}" cy="${p.y}" r="${CONTROL_POINT_RADIUS}" fill="${escapeAttribute(curve.color)}"/>`
+      )
+    );
+    layers.push(layer('control-points', points));
+  }
+
+  const svg = `<svg width="${width}" height="${height}" viewBox="${minX} ${minY} ${width} ${height}" xmlns="http://www.w3.org/2000/svg">
+${layers.join('\n')}
+</svg>`;
+  return { svg, error };
+}
+
+// The stroke of a curve as a filled shape in the curve's color, cropped like the curves
+// export. Empty when the curve has nothing to stroke.
+export function exportStrokeOutlineToSVG(
+  curve: BezierCurve,
+  style: StrokeStyle,
+  padding = DEFAULT_PADDING
+): string {
+  const outline = getStrokeOutline(getCurveSegments(curve), style);
+  const content = mergeBounds(outline.map(getBounds));
+  if (!content) return '';
+
+  const { minX, minY, width, height } = getViewBox(content, padding);
+  return `<svg width="${width}" height="${height}" viewBox="${minX} ${minY} ${width} ${height}" xmlns="http://www.w3.org/2000/svg">
+  <path d="${getSVGPathData(outline)} Z" fill="${escapeAttribute(curve.color)}" fill-rule="nonzero"/>
+</svg>`;
+}
@@ -0,0 +1,431 @@
+import { BezierCurve, JointContinuity, Point } from './types';
+import { elevateDegree } from './bezier';
+import { joinSegments } from './spline';
+
+// Import of SVG path data: every subpath becomes one curve. Lines, quadratics and cubics
+// are kept as exact Bezier segments; elliptical arcs are converted to cubics. Bezier curves
+// follow affine maps of their control points, so transforms stay exact too.
+
+export interface SVGSubpath {
+  segments: Point[][]; // Each starts at the end of the previous one
+  closed: boolean;
+}
+
+// [a, b, c, d, e, f] as in SVG's matrix(): x' = a x + c y + e, y' = b x + d y + f
+export type AffineTransform = [number, number, number, number, number, number];
+
+const IDENTITY: AffineTransform = [1, 0, 0, 1, 0, 0];
+
+// How far apart the handles at a joint may be from colinear, or from mirrored, and
+// still count as smooth
+const JOINT_TOLERANCE = 1e-6;
+
+const NUMBER_PATTERN = /[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/y;
+
+// Tokens of path data. Numbers need no separator between them ("1-2.5.5" is 1, -2.5
+// and .5), and arc flags may run into what follows ("a1 1 0 1010 10").
+class PathScanner {
+  private position = 0;
+
+  constructor(private data: string) {}
+
+  atEnd(): boolean {
+    this.skipSeparators();
+    return this.position >= this.data.length;
+  }
+
+  hasNumber(): boolean {
+    this.skipSeparators();
+    return /[-+.\d]/.test(this.data[this.position] ?? '');
+  }
+
+  readCommand(): string {
+    this.skipSeparators();
+    const command = this.data[this.position];
+    if (!command || !/[MLHVQTCSAZ]/i.test(command)) {
+      throw this.error(`Unknown path command "${command}"`);
+    }
+    this.position++;
+    return command;
+  }
+
+  readNumber(): number {
+    this.skipSeparators();
+    NUMBER_PATTERN.lastIndex = this.position;
+    const match = NUMBER_PATTERN.exec(this.data);
+    if (!match) throw this.error('Expected a number');
+    this.position += match[0].length;
+    return parseFloat(match[0]);
+  }
+
+  readFlag(): boolean {
+    this.skipSeparators();
+    const flag = this.data[this.position];
+    if (flag !== '0' && flag !== '1') throw this.error('Expected an arc flag (0 or 1)');
+    this.position++;
+    return flag === '1';
+  }
+
+  private skipSeparators() {
+    while (/[\s,]/.test(this.data[this.position] ?? '')) this.position++;
+  }
+
+  private error(message: string): Error {
+    return new Error(`${message} at position ${this.position} of path data`);
+  }
+}
+
+function samePoint(a: Point, b: Point): boolean {
+  return a.x === b.x && a.y === b.y;
+}
+
+function reflect(control: Point, about: Point): Point {
+  return { x: 2 * about.x - control.x, y: 2 * about.y - control.y };
+}
+
+// Signed angle from u to v
+function angleBetween(ux: number, uy: number, vx: number, vy: number): number {
+  return Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+}
+
+// Elliptical arc as cubics of at most 90 degrees each, following the endpoint to center
+// conversion in the SVG spec (appendix F.6.5), radii scaled up when they cannot reach
+export function arcToCubics(
+  from: Point,
+  radiusX: number,
+  radiusY: number,
+  rotation: number,
+  largeArc: boolean,
+  sweep: boolean,
+  to: Point
+): Point[][] {
+  if (samePoint(from, to)) return [];
+  let rx = Math.abs(radiusX);
+  let ry = Math.abs(radiusY);
+  if (rx === 0 || ry === 0) return [[from, to]];
+
+  const phi = (rotation * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+
+  // The start point in a frame centered between the endpoints, aligned with the ellipse
+  const dx = (from.x - to.x) / 2;
+  const dy = (from.y - to.y) / 2;
+  const x1 = cos * dx + sin * dy;
+  const y1 = -sin * dx + cos * dy;
+
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+  const coefficient =
+    (largeArc !== sweep ? 1 : -1) * Math.sqrt(Math.max(0, numerator / denominator));
+  const cx1 = (coefficient * rx * y1) / ry;
+  const cy1 = (-coefficient * ry * x1) / rx;
+  const cx = cos * cx1 - sin * cy1 + (from.x + to.x) / 2;
+  const cy = sin * cx1 + cos * cy1 + (from.y + to.y) / 2;
+
+  const startAngle = angleBetween(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry);
+  let sweepAngle = angleBetween(
+    (x1 - cx1) / rx,
+    (y1 - cy1) / ry,
+    (-x1 - cx1) / rx,
+    (-y1 - cy1) / ry
+  );
+  if (!sweep && sweepAngle > 0) sweepAngle -= 2 * Math.PI;
+  if (sweep && sweepAngle < 0) sweepAngle += 2 * Math.PI;
+
+  // Unit circle point (u, v) on the rotated ellipse
+  const toEllipse = (u: number, v: number): Point => ({
+    x: cx + rx * u * cos - ry * v * sin,
+    y: cy + rx * u * sin + ry * v * cos,
+  });
+
+  const pieces = Math.max(1, Math.ceil(Math.abs(sweepAngle) / (Math.PI / 2) - 1e-9));
+  const step = sweepAngle / pieces;
+  const k = (4 / 3) * Math.tan(step / 4);
+  const cubics: Point[][] = [];
+  for (let i = 0; i < pieces; i++) {
+    const a0 = startAngle + i * step;
+    const a1 = a0 + step;
+    cubics.push([
+      i === 0 ? from : toEllipse(Math.cos(a0), Math.sin(a0)),
+      toEllipse(Math.cos(a0) - k * Math.sin(a0), Math.sin(a0) + k * Math.cos(a0)),
+      toEllipse(Math.cos(a1) + k * Math.sin(a1), Math.sin(a1) - k * Math.cos(a1)),
+      i === pieces - 1 ? to : toEllipse(Math.cos(a1), Math.sin(a1)),
+    ]);
+  }
+  return cubics;
+}
+
+// Subpaths of the `d` attribute of a <path>, in absolute coordinates. Throws on
+// malformed data.
+export function parseSVGPathData(data: string): SVGSubpath[] {
+  const scanner = new PathScanner(data);
+  const subpaths: SVGSubpath[] = [];
+  let subpath: SVGSubpath = { segments: [], closed: false };
+  let current: Point = { x: 0, y: 0 };
+  let start: Point = current;
+  // Last cubic or quadratic control point, for the reflections of S and T
+  let lastCubicControl: Point | null = null;
+  let lastQuadraticControl: Point | null = null;
+  let started = false;
+
+  const finishSubpath = () => {
+    if (subpath.segments.length > 0) subpaths.push(subpath);
+    subpath = { segments: [], closed: false };
+  };
+  const addSegment = (segment: Point[]) => {
+    subpath.segments.push(segment);
+    current = segment[segment.length - 1];
+  };
+
+  while (!scanner.atEnd()) {
+    const command = scanner.readCommand();
+    const type = command.toUpperCase();
+    if (!started && type !== 'M') {
+      throw new Error('Path data must start with a moveto (M or m) command');
+    }
+    started = true;
+    const relative = command !== type;
+    let first = true;
+
+    // A command repeats while numbers follow it; Z takes none
+    while (first || (type !== 'Z' && scanner.hasNumber())) {
+      const origin = relative ? current : { x: 0, y: 0 };
+      const readPoint = (): Point => {
+        const x = scanner.readNumber();
+        const y = scanner.readNumber();
+        return { x: origin.x + x, y: origin.y + y };
+      };
+      let cubicControl: Point | null = null;
+      let quadraticControl: Point | null = null;
+
+      // Pairs after the first in a moveto are linetos
+      const effective = type === 'M' && !first ? 'L' : type;
+      switch (effective) {
+        case 'M':
+          finishSubpath();
+          current = readPoint();
+          start = current;
+          break;
+        case 'L':
+          addSegment([current, readPoint()]);
+          break;
+        case 'H':
+          addSegment([current, { x: origin.x + scanner.readNumber(), y: current.y }]);
+          break;
+        case 'V':
+          addSegment([current, { x: current.x, y: origin.y + scanner.readNumber() }]);
+          break;
+        case 'C': {
+          const c1 = readPoint();
+          cubicControl = readPoint();
+          addSegment([current, c1, cubicControl, readPoint()]);
+          break;
+        }
+        case 'S': {
+          const c1 = lastCubicControl ? reflect(lastCubicControl, current) : current;
+          cubicControl = readPoint();
+          addSegment([current, c1, cubicControl, readPoint()]);
+          break;
+        }
+        case 'Q':
+          quadraticControl = readPoint();
+          addSegment([current, quadraticControl, readPoint()]);
+          break;
+        case 'T':
+          quadraticControl = lastQuadraticControl
+            ? reflect(lastQuadraticControl, current)
+            : current;
+          addSegment([current, quadraticControl, readPoint()]);
+          break;
+        case 'A': {
+          const rx = scanner.readNumber();
+          const ry = scanner.readNumber();
+          const rotation = scanner.readNumber();
+          const largeArc = scanner.readFlag();
+          const sweep = scanner.readFlag();
+          const end = readPoint();
+          arcToCubics(current, rx, ry, rotation, largeArc, sweep, end).forEach(addSegment);
+          break;
+        }
+        case 'Z':
+          if (subpath.segments.length > 0) {
+            if (!samePoint(current, start)) addSegment([current, start]);
+            subpath.closed = true;
+          }
+          finishSubpath();
+          current = start;
+          break;
+      }
+
+      lastCubicControl = cubicControl;
+      lastQuadraticControl = quadraticControl;
+      first = false;
+    }
+  }
+
+  finishSubpath();
+  return subpaths;
+}
+
+// The transform that applies n first and then m
+function multiply(m: AffineTransform, n: AffineTransform): AffineTransform {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+  ];
+}
+
+function transformPoint([a, b, c, d, e, f]: AffineTransform, p: Point): Point {
+  return { x: a * p.x + c * p.y + e, y: b * p.x + d * p.y + f };
+}
+
+function getTransformFunction(name: string, args: number[]): AffineTransform | null {
+  const [x, y] = args;
+  switch (name) {
+    case 'matrix':
+      return args.length === 6 ? (args as AffineTransform) : null;
+    case 'translate':
+      return args.length === 1 || args.length === 2 ? [1, 0, 0, 1, x, y ?? 0] : null;
+    case 'scale':
+      return args.length === 1 || args.length === 2 ? [x, 0, 0, y ?? x, 0, 0] : null;
+    case 'rotate': {
+      if (args.length !== 1 && args.length !== 3) return null;
+      const angle = (x * Math.PI) / 180;
+      const [cx, cy] = args.length === 3 ? args.slice(1) : [0, 0];
+      const rotation: AffineTransform = [
+        Math.cos(angle),
+        Math.sin(angle),
+        -Math.sin(angle),
+        Math.cos(angle),
+        0,
+        0,
+      ];
+      // Rotation about (cx, cy): move it to the origin, rotate and move it back
+      return multiply([1, 0, 0, 1, cx, cy], multiply(rotation, [1, 0, 0, 1, -cx, -cy]));
+    }
+    case 'skewX':
+      return args.length === 1 ? [1, 0, Math.tan((x * Math.PI) / 180), 1, 0, 0] : null;
+    case 'skewY':
+      return args.length === 1 ? [1, Math.tan((x * Math.PI) / 180), 0, 1, 0, 0] : null;
+    default:
+      return null;
+  }
+}
+
+// A transform attribute such as "translate(10 20) rotate(45)"; the functions apply right
+// to left, as if each wrapped the element in its own group
+export function parseSVGTransform(value: string): AffineTransform {
+  const functions = /\s*([a-zA-Z]+)\s*\(([^)]*)\)\s*,?/y;
+  const numbers = new RegExp(NUMBER_PATTERN.source, 'g');
+  let transform = IDENTITY;
+  let position = 0;
+  while (position < value.length && value.slice(position).trim() !== '') {
+    functions.lastIndex = position;
+    const match = functions.exec(value);
+    const item =
+      match && getTransformFunction(match[1], (match[2].match(numbers) ?? []).map(Number));
+    if (!match || !item) {
+      throw new Error(`Unsupported transform "${value.slice(position).trim()}"`);
+    }
+    transform = multiply(transform, item);
+    position = functions.lastIndex;
+  }
+  return transform;
+}
+
+// The transforms of the element and every group around it, composed like getCTM() does
+function getElementTransform(element: Element): AffineTransform {
+  let transform = IDENTITY;
+  for (let node: Element | null = element; node; node = node.parentElement) {
+    const attribute = node.getAttribute('transform');
+    if (attribute) transform = multiply(parseSVGTransform(attribute), transform);
+  }
+  return transform;
+}
+
+function transformSubpath(subpath: SVGSubpath, transform: AffineTransform): SVGSubpath {
+  return {
+    ...subpath,
+    segments: subpath.segments.map(segment => segment.map(p => transformPoint(transform, p))),
+  };
+}
+
+// Path data of every <path> in an SVG document, with the transforms of the paths and
+// their groups applied
+export function parseSVGDocument(text: string): SVGSubpath[] {
+  const document = new DOMParser().parseFromString(text, 'image/svg+xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The file is not valid SVG');
+  }
+
+  const paths = Array.from(document.getElementsByTagName('path'));
+  if (paths.length === 0) throw new Error('The SVG contains no <path> elements');
+  return paths.flatMap(path => {
+    const subpaths = parseSVGPathData(path.getAttribute('d') ?? '');
+    const transform = getElementTransform(path);
+    return transform.every((value, i) => value === IDENTITY[i])
+      ? subpaths
+      : subpaths.map(subpath => transformSubpath(subpath, transform));
+  });
+}
+
+// C1 when the handles mirror each other, G1 when they only line up, C0 otherwise
+function getImportedContinuity(incoming: Point, anchor: Point, outgoing: Point): JointContinuity {
+  const inX = anchor.x - incoming.x;
+  const inY = anchor.y - incoming.y;
+  const outX = outgoing.x - anchor.x;
+  const outY = outgoing.y - anchor.y;
+  const inLength = Math.hypot(inX, inY);
+  const outLength = Math.hypot(outX, outY);
+  if (inLength === 0 || outLength === 0) return 'C0';
+
+  const scale = Math.max(inLength, outLength);
+  if (Math.hypot(inX - outX, inY - outY) <= JOINT_TOLERANCE * scale) return 'C1';
+  const cross = (inX * outY - inY * outX) / (inLength * outLength);
+  const dot = inX * outX + inY * outY;
+  return Math.abs(cross) <= JOINT_TOLERANCE && dot > 0 ? 'G1' : 'C0';
+}
+
+function raiseToDegree(segment: Point[], degree: number): Point[] {
+  let raised = segment;
+  while (raised.length - 1 < degree) raised = elevateDegree(raised);
+  return raised;
+}
+
+// A single segment becomes a plain Bezier curve of its own degree; longer subpaths
+// become splines, quadratic when nothing in them is cubic. Joint continuity is read
+// off the imported handles, so smooth joints stay smooth while editing.
+export function subpathToCurve(subpath: SVGSubpath, id: string, color: string): BezierCurve {
+  const { segments } = subpath;
+  if (segments.length === 1) {
+    return { id, color, points: segments[0].map(p => ({ ...p })) };
+  }
+
+  const segmentDegree = segments.some(segment => segment.length > 3) ? 3 : 2;
+  const raised = segments.map(segment => raiseToDegree(segment, segmentDegree));
+  const continuity = raised
+    .slice(1)
+    .map((segment, i) =>
+      getImportedContinuity(raised[i][segmentDegree - 1], segment[0], segment[1])
+    );
+
+  return {
+    id,
+    color,
+    kind: 'spline',
+    segmentDegree,
+    continuity,
+    points: joinSegments(raised).map(p => ({ ...p })),
+  };
+}
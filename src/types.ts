@@ -1,21 +1,63 @@
 export interface Point {
   x: number;
   y: number;
+  weight?: number; // Rational weight of a control point, treated as 1 when omitted
 }
 
+export type CurveKind = 'bezier' | 'spline' | 'interpolating' | 'bspline';
+
+// Continuity at the shared anchor of two spline segments
+export type JointContinuity = 'C0' | 'C1' | 'G1';
+
 export interface BezierCurve {
   id: string;
   points: Point[];
   color: string;
+  kind?: CurveKind; // Defaults to a single 'bezier' segment; 'interpolating' is a cubic spline
+  segmentDegree?: 2 | 3; // Spline only: degree of each joined segment, defaults to cubic
+  continuity?: JointContinuity[]; // Spline only: per-joint setting, missing entries are G1
+  degree?: number; // B-spline only: polynomial degree, defaults to cubic
+  knots?: number[]; // B-spline only: knot vector, uniform when missing or not matching the points
 }
 
 export interface AnimationState {
   isAnimating: boolean;
   progress: number;
   speed: number;
+  constantSpeed: boolean; // Progress is a fraction of arc length instead of t
+}
+
+export type VisualizationMode =
+  | 'default'
+  | 'decasteljau'
+  | 'deboor'
+  | 'tslider'
+  | 'intersections'
+  | 'curvature'
+  | 'hodograph';
+
+// How the canvas was set up when a document was saved
+export interface ViewSettings {
+  visualizationMode: VisualizationMode;
+  t: number; // Position of the t-slider
+  showBounds: boolean;
+  showBasis: boolean;
 }
 
-export type VisualizationMode = 'default' | 'decasteljau' | 'tslider';
+export interface DocumentMetadata {
+  generator: string; // Application that wrote the file
+  createdAt?: string; // ISO 8601 timestamps, unknown for files from before versioning
+  modifiedAt?: string;
+}
+
+// Saved file format. Unversioned files ({ curves } only) predate it and count as version 0.
+export interface BezierDocument {
+  version: number;
+  curves: BezierCurve[];
+  activeCurveId: string | null;
+  view: ViewSettings;
+  metadata: DocumentMetadata;
+}
 
 // Collaborative editing types
 export interface User {
@@ -29,7 +71,25 @@ export interface User {
 
 // Serializable command format for shared history
 export interface SerializedCommand {
-  type: 'AddPoint' | 'RemovePoint' | 'MovePoint' | 'AddCurve' | 'RemoveCurve' | 'ChangeCurveColor';
+  type:
+    | 'AddPoint'
+    | 'RemovePoint'
+    | 'MovePoint'
+    | 'AddCurve'
+    | 'AddCurves'
+    | 'ImportCurves'
+    | 'RemoveCurve'
+    | 'ChangeCurveColor'
+    | 'SetPointWeight'
+    | 'MovePoints'
+    | 'AddKnot'
+    | 'RemoveKnot'
+    | 'SetJointContinuity'
+    | 'SplitCurve'
+    | 'InsertKnot'
+    | 'SetKnots'
+    | 'ApplyEasing'
+    | 'ChangeDegree';
   data: any; // Command-specific data (curveId, point, index, etc.)
 }
 
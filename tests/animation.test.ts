@@ -259,6 +259,54 @@ describe('AnimationManager', () => {
     });
   });
 
+  describe('constant speed', () => {
+    const curve: BezierCurve = {
+      id: 'curve1',
+      color: '#4a9eff',
+      points: [
+        { x: 0, y: 0 },
+        { x: 10, y: 0 },
+        { x: 20, y: 0 },
+        { x: 300, y: 0 },
+      ],
+    };
+
+    it('should be off by default', () => {
+      expect(animationManager.isConstantSpeed()).toBe(false);
+    });
+
+    it('should use progress as t when off', () => {
+      animationManager.setSpeed(0.5);
+      animationManager.start();
+      expect(animationManager.getCurveParameter(curve)).toBe(0.5);
+    });
+
+    it('should travel equal distances per frame when on', () => {
+      animationManager.setConstantSpeed(true);
+      animationManager.setSpeed(0.25);
+      animationManager.start();
+
+      const t = animationManager.getCurveParameter(curve);
+      expect(t).not.toBeCloseTo(0.25, 1);
+      expect(animationManager.getAnimatedPoints([curve]).get('curve1')!.x).toBeCloseTo(75, 0);
+      expect(animationManager.getAnimatedPoint(curve.points)!.x).toBeCloseTo(75, 0);
+    });
+
+    it('should not affect an explicit t', () => {
+      animationManager.setConstantSpeed(true);
+      const point = animationManager.getAnimatedPoint(curve.points, 0.5);
+      expect(point!.x).toBeCloseTo(48.75, 6);
+    });
+
+    it('should reuse the arc-length table until the curve changes', () => {
+      const table = animationManager.getArcLengthTable(curve);
+      expect(animationManager.getArcLengthTable({ ...curve, color: '#fff' })).toBe(table);
+
+      const edited = { ...curve, points: [...curve.points, { x: 400, y: 0 }] };
+      expect(animationManager.getArcLengthTable(edited)).not.toBe(table);
+    });
+  });
+
   describe('animation loop', () => {
     it('should increment progress over time', () => {
       animationManager.start();
@@ -1,5 +1,37 @@
 import { describe, it, expect } from 'vitest';
-import { evaluateBezier, getBezierPath, getDeCasteljauLevels, exportToSVG } from '../src/bezier';
+import {
+  evaluateBezier,
+  getBezierPath,
+  getDeCasteljauLevels,
+  getSVGPathData,
+  getWeight,
+  splitBezier,
+  isRational,
+  elevateDegree,
+  reduceDegree,
+  getMaxDeviation,
+  buildArcLengthTable,
+  getTAtArcLength,
+  getArcLengthAtT,
+  flattenBezier,
+  getClosestPathPoint,
+  getExtrema,
+  getBounds,
+  projectPoint,
+  getDerivative,
+  getSecondDerivative,
+  getCurvature,
+  getTangent,
+  getNormal,
+  offsetBezier,
+  getStrokeOutline,
+  getBernsteinBasis,
+  getHodograph,
+  evaluateMany,
+  getUniformTs,
+  approximateWithCubics,
+  approximateSegmentsWithCubics,
+} from '../src/bezier';
 import { Point } from '../src/types';
 
 describe('bezier', () => {
@@ -93,6 +125,171 @@ describe('bezier', () => {
     });
   });
 
+  describe('evaluateMany', () => {
+    // Zigzag of 24 control points, a degree 23 curve
+    const zigzag: Point[] = Array.from({ length: 24 }, (_, i) => ({
+      x: i * 40,
+      y: i % 2 === 0 ? 0 : 300,
+    }));
+
+    it('should agree with evaluateBezier on polynomial and rational curves', () => {
+      const cubic: Point[] = [
+        { x: 0, y: 0 },
+        { x: 30, y: 90 },
+        { x: 80, y: -40 },
+        { x: 100, y: 0 },
+      ];
+      const weighted = cubic.map((p, i) => (i === 2 ? { ...p, weight: 2.5 } : p));
+      const ts = [0, 0.1, 0.37, 0.5, 0.99, 1];
+
+      [cubic, weighted].forEach(points => {
+        evaluateMany(points, ts).forEach((point, i) => {
+          expect(point.x).toBeCloseTo(evaluateBezier(points, ts[i]).x, 9);
+          expect(point.y).toBeCloseTo(evaluateBezier(points, ts[i]).y, 9);
+        });
+      });
+    });
+
+    it('should stay accurate on high-degree curves', () => {
+      const path = evaluateMany(zigzag, getUniformTs(200));
+
+      expect(path[0]).toEqual(zigzag[0]);
+      expect(path[200]).toEqual(zigzag[23]);
+      path.forEach((point, i) => {
+        const expected = evaluateBezier(zigzag, i / 200);
+        expect(Math.abs(point.x - expected.x)).toBeLessThan(1e-9);
+        expect(Math.abs(point.y - expected.y)).toBeLessThan(1e-9);
+      });
+    });
+
+    it('should repeat a single point and fall back to the origin', () => {
+      expect(evaluateMany([{ x: 3, y: 4 }], [0, 1])).toEqual([
+        { x: 3, y: 4 },
+        { x: 3, y: 4 },
+      ]);
+      expect(evaluateMany([], [0.5])).toEqual([{ x: 0, y: 0 }]);
+    });
+
+    it('should leave the control points alone and return a new point per parameter', () => {
+      const weighted = zigzag.map((p, i) => (i === 5 ? { ...p, weight: 3 } : p));
+      const ts = getUniformTs(50);
+
+      [zigzag, weighted].forEach(points => {
+        const before = structuredClone(points);
+        const path = evaluateMany(points, ts);
+
+        expect(points).toEqual(before);
+        expect(path).toHaveLength(ts.length);
+        expect(new Set(path).size).toBe(ts.length);
+        path.forEach(point => expect(points).not.toContain(point));
+      });
+    });
+  });
+
+  describe('rational curves', () => {
+    // Quarter of the unit circle as a rational quadratic
+    const quarterCircle: Point[] = [
+      { x: 1, y: 0 },
+      { x: 1, y: 1, weight: Math.SQRT1_2 },
+      { x: 0, y: 1 },
+    ];
+
+    it('should detect rational control points', () => {
+      expect(isRational(quarterCircle)).toBe(true);
+      expect(
+        isRational([
+          { x: 0, y: 0, weight: 1 },
+          { x: 1, y: 1 },
+        ])
+      ).toBe(false);
+    });
+
+    it('should treat a missing weight as 1', () => {
+      expect(getWeight({ x: 0, y: 0 })).toBe(1);
+      expect(getWeight({ x: 0, y: 0, weight: 3 })).toBe(3);
+    });
+
+    it('should evaluate an exact circular arc', () => {
+      for (const t of [0, 0.1, 0.25, 0.5, 0.8, 1]) {
+        const p = evaluateBezier(quarterCircle, t);
+        expect(Math.hypot(p.x, p.y)).toBeCloseTo(1, 10);
+      }
+    });
+
+    it('should match the polynomial curve when all weights are equal', () => {
+      const points: Point[] = [
+        { x: 0, y: 0, weight: 2 },
+        { x: 50, y: 100, weight: 2 },
+        { x: 100, y: 0, weight: 2 },
+      ];
+      const plain = points.map(({ x, y }) => ({ x, y }));
+
+      const result = evaluateBezier(points, 0.3);
+      const expected = evaluateBezier(plain, 0.3);
+      expect(result.x).toBeCloseTo(expected.x);
+      expect(result.y).toBeCloseTo(expected.y);
+    });
+
+    it('should pull the curve towards heavier points', () => {
+      const light = evaluateBezier(
+        [
+          { x: 0, y: 0 },
+          { x: 50, y: 100, weight: 0.5 },
+          { x: 100, y: 0 },
+        ],
+        0.5
+      );
+      const heavy = evaluateBezier(
+        [
+          { x: 0, y: 0 },
+          { x: 50, y: 100, weight: 4 },
+          { x: 100, y: 0 },
+        ],
+        0.5
+      );
+      expect(heavy.y).toBeGreaterThan(light.y);
+    });
+
+    it('should carry homogeneous weights through de Casteljau levels', () => {
+      const levels = getDeCasteljauLevels(quarterCircle, 0.5);
+      const final = levels[levels.length - 1][0];
+      expect(final.weight).toBeCloseTo((1 + Math.SQRT1_2) / 2);
+      expect(Math.hypot(final.x, final.y)).toBeCloseTo(1, 10);
+    });
+  });
+
+  describe('getBernsteinBasis', () => {
+    const cubic: Point[] = [
+      { x: 0, y: 0 },
+      { x: 30, y: 60 },
+      { x: 70, y: 60 },
+      { x: 100, y: 0 },
+    ];
+
+    it('should give the cubic Bernstein polynomials', () => {
+      const t = 0.3;
+      const basis = getBernsteinBasis(cubic, t);
+
+      expect(basis[0]).toBeCloseTo((1 - t) ** 3, 12);
+      expect(basis[1]).toBeCloseTo(3 * t * (1 - t) ** 2, 12);
+      expect(basis[2]).toBeCloseTo(3 * t ** 2 * (1 - t), 12);
+      expect(basis[3]).toBeCloseTo(t ** 3, 12);
+    });
+
+    it('should blend the control points into the curve point', () => {
+      const points = cubic.map((p, i) => (i === 1 ? { ...p, weight: 4 } : p));
+      [0, 0.2, 0.5, 0.9].forEach(t => {
+        const basis = getBernsteinBasis(points, t);
+        const x = basis.reduce((sum, value, i) => sum + value * points[i].x, 0);
+        const y = basis.reduce((sum, value, i) => sum + value * points[i].y, 0);
+
+        expect(basis.reduce((sum, value) => sum + value, 0)).toBeCloseTo(1, 12);
+        expect(x).toBeCloseTo(evaluateBezier(points, t).x, 9);
+        expect(y).toBeCloseTo(evaluateBezier(points, t).y, 9);
+      });
+    });
+  });
+
   describe('getBezierPath', () => {
     it('should generate path with correct number of points', () => {
       const points: Point[] = [
@@ -155,6 +352,70 @@ describe('bezier', () => {
     });
   });
 
+  describe('flattenBezier', () => {
+    const arch: Point[] = [
+      { x: 0, y: 0 },
+      { x: 0, y: 100 },
+      { x: 100, y: 100 },
+      { x: 100, y: 0 },
+    ];
+
+    it('should keep a straight line as a single chord', () => {
+      const path = flattenBezier([
+        { x: 0, y: 0 },
+        { x: 50, y: 50 },
+        { x: 100, y: 100 },
+      ]);
+      expect(path.points).toEqual([
+        { x: 0, y: 0 },
+        { x: 100, y: 100 },
+      ]);
+      expect(path.ts).toEqual([0, 1]);
+    });
+
+    it('should stay within the tolerance of the curve', () => {
+      const tolerance = 0.5;
+      const path = flattenBezier(arch, tolerance);
+      for (let i = 0; i < path.points.length - 1; i++) {
+        const midT = (path.ts[i] + path.ts[i + 1]) / 2;
+        const onCurve = evaluateBezier(arch, midT);
+        const chordMid = {
+          x: (path.points[i].x + path.points[i + 1].x) / 2,
+          y: (path.points[i].y + path.points[i + 1].y) / 2,
+        };
+        expect(Math.hypot(onCurve.x - chordMid.x, onCurve.y - chordMid.y)).toBeLessThan(tolerance);
+      }
+    });
+
+    it('should use more points for larger curves', () => {
+      const large = arch.map(p => ({ x: p.x * 20, y: p.y * 20 }));
+      const small = arch.map(p => ({ x: p.x / 20, y: p.y / 20 }));
+      expect(flattenBezier(large).points.length).toBeGreaterThan(flattenBezier(arch).points.length);
+      expect(flattenBezier(small).points.length).toBeLessThan(flattenBezier(arch).points.length);
+    });
+
+    it('should subdivide colinear control points that double back', () => {
+      const path = flattenBezier([
+        { x: 0, y: 0 },
+        { x: 200, y: 0 },
+        { x: -100, y: 0 },
+        { x: 100, y: 0 },
+      ]);
+      expect(path.points.length).toBeGreaterThan(2);
+    });
+
+    it('should return the cached path for unchanged points', () => {
+      expect(flattenBezier(arch)).toBe(flattenBezier(arch.map(p => ({ ...p }))));
+      expect(flattenBezier(arch, 1)).not.toBe(flattenBezier(arch));
+    });
+
+    it('should find the closest point on the path', () => {
+      const closest = getClosestPathPoint(flattenBezier(arch), { x: 50, y: 80 });
+      expect(closest!.t).toBeCloseTo(0.5, 2);
+      expect(closest!.distance).toBeCloseTo(5, 1);
+    });
+  });
+
   describe('getDeCasteljauLevels', () => {
     it('should return all levels for linear curve', () => {
       const points: Point[] = [
@@ -251,90 +512,643 @@ describe('bezier', () => {
     });
   });
 
-  describe('exportToSVG', () => {
-    it('should return empty string for curves with less than 2 points', () => {
-      expect(exportToSVG([], 800, 600)).toBe('');
-      expect(exportToSVG([{ x: 10, y: 20 }], 800, 600)).toBe('');
+  describe('splitBezier', () => {
+    const cubic: Point[] = [
+      { x: 0, y: 0 },
+      { x: 30, y: 100 },
+      { x: 70, y: 100 },
+      { x: 100, y: 0 },
+    ];
+
+    it('should keep the degree and share the split point', () => {
+      const [left, right] = splitBezier(cubic, 0.3);
+      expect(left).toHaveLength(4);
+      expect(right).toHaveLength(4);
+      expect(left[0]).toEqual(cubic[0]);
+      expect(right[3]).toEqual(cubic[3]);
+      expect(left[3]).toEqual(right[0]);
     });
 
-    it('should generate linear path for 2 points', () => {
+    it('should reproduce the original curve exactly', () => {
+      const [left, right] = splitBezier(cubic, 0.3);
+      for (const u of [0.1, 0.5, 0.9]) {
+        const onLeft = evaluateBezier(left, u);
+        const original = evaluateBezier(cubic, 0.3 * u);
+        expect(onLeft.x).toBeCloseTo(original.x, 10);
+        expect(onLeft.y).toBeCloseTo(original.y, 10);
+
+        const onRight = evaluateBezier(right, u);
+        const originalRight = evaluateBezier(cubic, 0.3 + 0.7 * u);
+        expect(onRight.x).toBeCloseTo(originalRight.x, 10);
+        expect(onRight.y).toBeCloseTo(originalRight.y, 10);
+      }
+    });
+
+    it('should split rational curves into rational pieces', () => {
+      const arc: Point[] = [
+        { x: 1, y: 0 },
+        { x: 1, y: 1, weight: Math.SQRT1_2 },
+        { x: 0, y: 1 },
+      ];
+      const [left, right] = splitBezier(arc, 0.5);
+      for (const piece of [left, right]) {
+        const p = evaluateBezier(piece, 0.37);
+        expect(Math.hypot(p.x, p.y)).toBeCloseTo(1, 10);
+      }
+    });
+  });
+
+  describe('elevateDegree', () => {
+    it('should add one control point and keep the shape', () => {
       const points: Point[] = [
         { x: 0, y: 0 },
-        { x: 100, y: 100 },
+        { x: 50, y: 100 },
+        { x: 100, y: 0 },
       ];
+      const elevated = elevateDegree(points);
 
-      const svg = exportToSVG(points, 800, 600);
-      expect(svg).toContain('M 0 0');
-      expect(svg).toContain('L 100 100');
-      expect(svg).toContain('width="800"');
-      expect(svg).toContain('height="600"');
+      expect(elevated).toHaveLength(4);
+      expect(elevated[0]).toEqual(points[0]);
+      expect(elevated[3]).toEqual(points[2]);
+      expect(getMaxDeviation(points, elevated)).toBeLessThan(1e-9);
     });
 
-    it('should generate quadratic path for 3 points', () => {
-      const points: Point[] = [
+    it('should keep rational curves exact', () => {
+      const arc: Point[] = [
+        { x: 1, y: 0 },
+        { x: 1, y: 1, weight: Math.SQRT1_2 },
+        { x: 0, y: 1 },
+      ];
+      const elevated = elevateDegree(arc);
+
+      expect(elevated.every(p => p.weight !== undefined)).toBe(true);
+      const p = evaluateBezier(elevated, 0.4);
+      expect(Math.hypot(p.x, p.y)).toBeCloseTo(1, 10);
+    });
+  });
+
+  describe('reduceDegree', () => {
+    it('should undo an elevation without error', () => {
+      const cubic: Point[] = [
         { x: 0, y: 0 },
-        { x: 50, y: 100 },
+        { x: 30, y: 100 },
+        { x: 70, y: 100 },
         { x: 100, y: 0 },
       ];
+      const { points, error } = reduceDegree(elevateDegree(cubic));
 
-      const svg = exportToSVG(points, 800, 600);
-      expect(svg).toContain('M 0 0');
-      expect(svg).toContain('Q 50 100 100 0');
+      expect(points).toHaveLength(4);
+      expect(error).toBeLessThan(1e-6);
+      points.forEach((p, i) => {
+        expect(p.x).toBeCloseTo(cubic[i].x, 6);
+        expect(p.y).toBeCloseTo(cubic[i].y, 6);
+      });
     });
 
-    it('should generate cubic path for 4 points', () => {
+    it('should keep the endpoints and report the approximation error', () => {
       const points: Point[] = [
         { x: 0, y: 0 },
-        { x: 33, y: 100 },
-        { x: 66, y: 100 },
+        { x: 0, y: 100 },
+        { x: 100, y: 100 },
         { x: 100, y: 0 },
+        { x: 200, y: 0 },
       ];
+      const reduced = reduceDegree(points);
 
-      const svg = exportToSVG(points, 800, 600);
-      expect(svg).toContain('M 0 0');
-      expect(svg).toContain('C 33 100 66 100 100 0');
+      expect(reduced.points).toHaveLength(4);
+      expect(reduced.points[0]).toEqual({ x: 0, y: 0 });
+      expect(reduced.points[3]).toEqual({ x: 200, y: 0 });
+      expect(reduced.error).toBeGreaterThan(0);
+      expect(reduced.error).toBeCloseTo(getMaxDeviation(points, reduced.points));
     });
 
-    it('should generate polyline for more than 4 points', () => {
-      const points: Point[] = [
+    it('should reduce a quadratic to its chord', () => {
+      const { points } = reduceDegree([
         { x: 0, y: 0 },
-        { x: 20, y: 50 },
-        { x: 40, y: 50 },
-        { x: 60, y: 50 },
-        { x: 80, y: 50 },
+        { x: 50, y: 100 },
         { x: 100, y: 0 },
+      ]);
+      expect(points).toEqual([
+        { x: 0, y: 0 },
+        { x: 100, y: 0 },
+      ]);
+    });
+
+    it('should leave lines untouched', () => {
+      const line: Point[] = [
+        { x: 0, y: 0 },
+        { x: 10, y: 10 },
       ];
+      expect(reduceDegree(line)).toEqual({ points: line, error: 0 });
+    });
+  });
 
-      const svg = exportToSVG(points, 800, 600);
-      expect(svg).toContain('M 0 0');
-      expect(svg).toContain('L '); // Should contain line segments
+  describe('approximateWithCubics', () => {
+    const zigzag: Point[] = Array.from({ length: 12 }, (_, i) => ({
+      x: i * 40,
+      y: i % 2 === 0 ? 0 : 300,
+    }));
+
+    it('should keep segments of degree 3 or lower as they are', () => {
+      const cubic: Point[] = [
+        { x: 0, y: 0 },
+        { x: 10, y: 40 },
+        { x: 50, y: 40 },
+        { x: 60, y: 0 },
+      ];
+
+      expect(approximateWithCubics(cubic)).toEqual({ segments: [cubic], error: 0 });
     });
 
-    it('should have proper SVG structure', () => {
-      const points: Point[] = [
+    it('should chain cubics within the tolerance of a high-degree curve', () => {
+      const { segments, error } = approximateWithCubics(zigzag, 0.1);
+
+      expect(error).toBeLessThanOrEqual(0.1);
+      expect(segments.length).toBeGreaterThan(1);
+      segments.forEach(segment => expect(segment).toHaveLength(4));
+      expect(segments[0][0]).toEqual(zigzag[0]);
+      expect(segments[segments.length - 1][3]).toEqual(zigzag[11]);
+      for (let i = 1; i < segments.length; i++) {
+        expect(segments[i][0]).toEqual(segments[i - 1][3]);
+      }
+
+      // Every point of the original lies within the tolerance of the chain
+      const paths = segments.map(segment => flattenBezier(segment, 0.01));
+      getBezierPath(zigzag, 200).forEach(point => {
+        const distance = Math.min(...paths.map(path => getClosestPathPoint(path, point)!.distance));
+        expect(distance).toBeLessThan(0.1 + 0.01);
+      });
+    });
+
+    it('should use fewer cubics for a looser tolerance', () => {
+      const tight = approximateWithCubics(zigzag, 0.05);
+      const loose = approximateWithCubics(zigzag, 5);
+
+      expect(loose.segments.length).toBeLessThan(tight.segments.length);
+      expect(loose.error).toBeLessThanOrEqual(5);
+    });
+
+    it('should report the largest error over a chain of segments', () => {
+      const line: Point[] = [
         { x: 0, y: 0 },
-        { x: 100, y: 100 },
+        { x: 10, y: 0 },
       ];
+      const result = approximateSegmentsWithCubics([line, zigzag], 1);
 
-      const svg = exportToSVG(points, 800, 600);
-      expect(svg).toContain('<svg');
-      expect(svg).toContain('xmlns="http://www.w3.org/2000/svg"');
-      expect(svg).toContain('<path');
-      expect(svg).toContain('fill="none"');
-      expect(svg).toContain('stroke="#4a9eff"');
-      expect(svg).toContain('stroke-width="2"');
-      expect(svg).toContain('</svg>');
+      expect(result.segments[0]).toEqual(line);
+      expect(result.error).toBe(approximateWithCubics(zigzag, 1).error);
     });
+  });
 
-    it('should use provided dimensions', () => {
-      const points: Point[] = [
+  describe('getSVGPathData', () => {
+    it('should chain segments from a single move command', () => {
+      const data = getSVGPathData([
+        [
+          { x: 0, y: 0 },
+          { x: 10, y: 10 },
+          { x: 20, y: 10 },
+          { x: 30, y: 0 },
+        ],
+        [
+          { x: 30, y: 0 },
+          { x: 40, y: 10 },
+          { x: 50, y: 0 },
+        ],
+      ]);
+      expect(data).toBe('M 0 0 C 10 10 20 10 30 0 Q 40 10 50 0');
+    });
+
+    it('should return an empty string without drawable segments', () => {
+      expect(getSVGPathData([[{ x: 0, y: 0 }]])).toBe('');
+    });
+  });
+
+  describe('arc length', () => {
+    // Handles bunched near the start make uniform t move unevenly along the curve
+    const uneven: Point[] = [
+      { x: 0, y: 0 },
+      { x: 10, y: 0 },
+      { x: 20, y: 0 },
+      { x: 300, y: 0 },
+    ];
+
+    it('should measure the length of a straight line', () => {
+      const table = buildArcLengthTable([
+        { x: 0, y: 0 },
+        { x: 30, y: 40 },
+      ]);
+      expect(table.total).toBeCloseTo(50, 6);
+      expect(table.ts[0]).toBe(0);
+      expect(table.ts[table.ts.length - 1]).toBe(1);
+      expect(table.lengths[0]).toBe(0);
+    });
+
+    it('should map a length fraction to the t covering that distance', () => {
+      const table = buildArcLengthTable(uneven);
+      const t = getTAtArcLength(table, 0.5);
+      expect(evaluateBezier(uneven, t).x).toBeCloseTo(150, 0);
+      expect(t).not.toBeCloseTo(0.5, 1);
+    });
+
+    it('should clamp fractions to the ends of the curve', () => {
+      const table = buildArcLengthTable(uneven);
+      expect(getTAtArcLength(table, -1)).toBe(0);
+      expect(getTAtArcLength(table, 2)).toBe(1);
+    });
+
+    it('should invert getTAtArcLength with getArcLengthAtT', () => {
+      const table = buildArcLengthTable(uneven);
+      [0.1, 0.25, 0.6, 0.9].forEach(s => {
+        expect(getArcLengthAtT(table, getTAtArcLength(table, s))).toBeCloseTo(s, 6);
+      });
+    });
+
+    it('should fall back to t for degenerate curves', () => {
+      const table = buildArcLengthTable([
+        { x: 5, y: 5 },
+        { x: 5, y: 5 },
+      ]);
+      expect(table.total).toBeCloseTo(0, 9);
+      expect(getTAtArcLength(table, 0.3)).toBe(0.3);
+    });
+  });
+
+  describe('extrema and bounds', () => {
+    const arch: Point[] = [
+      { x: 0, y: 0 },
+      { x: 0, y: 100 },
+      { x: 100, y: 100 },
+      { x: 100, y: 0 },
+    ];
+
+    it('should find the interior extrema from derivative roots', () => {
+      const extrema = getExtrema(arch);
+      expect(extrema).toHaveLength(1);
+      expect(extrema[0].axis).toBe('y');
+      expect(extrema[0].t).toBeCloseTo(0.5, 10);
+      expect(extrema[0].point.y).toBeCloseTo(75, 10);
+    });
+
+    it('should find extrema on both axes', () => {
+      const loop: Point[] = [
+        { x: 0, y: 0 },
+        { x: 200, y: 100 },
+        { x: -100, y: 100 },
+        { x: 100, y: 0 },
+      ];
+      const axes = getExtrema(loop).map(e => e.axis);
+      expect(axes.filter(a => a === 'x')).toHaveLength(2);
+      expect(axes.filter(a => a === 'y')).toHaveLength(1);
+    });
+
+    it('should have no extrema on straight lines', () => {
+      expect(
+        getExtrema([
+          { x: 0, y: 10 },
+          { x: 50, y: 10 },
+          { x: 100, y: 10 },
+        ])
+      ).toEqual([]);
+    });
+
+    it('should be tighter than the control point hull', () => {
+      expect(getBounds(arch)).toEqual({
+        minX: 0,
+        minY: 0,
+        maxX: 100,
+        maxY: expect.closeTo(75, 10),
+      });
+    });
+
+    it('should bound rational curves', () => {
+      const quarterCircle: Point[] = [
+        { x: 1, y: 0 },
+        { x: 1, y: 1, weight: Math.SQRT1_2 },
+        { x: 0, y: 1 },
+      ];
+      const bounds = getBounds(quarterCircle)!;
+      expect(bounds.maxX).toBeCloseTo(1, 10);
+      expect(bounds.maxY).toBeCloseTo(1, 10);
+    });
+
+    it('should return null without points', () => {
+      expect(getBounds([])).toBeNull();
+    });
+  });
+
+  describe('projectPoint', () => {
+    const arch: Point[] = [
+      { x: 0, y: 0 },
+      { x: 0, y: 100 },
+      { x: 100, y: 100 },
+      { x: 100, y: 0 },
+    ];
+
+    it('should return the foot of the perpendicular on a line', () => {
+      const projection = projectPoint(
+        [
+          { x: 0, y: 0 },
+          { x: 100, y: 0 },
+        ],
+        { x: 30, y: 40 }
+      )!;
+      expect(projection.t).toBeCloseTo(0.3, 8);
+      expect(projection.point.x).toBeCloseTo(30, 6);
+      expect(projection.distance).toBeCloseTo(40, 6);
+    });
+
+    it('should find the closest point to sub-pixel accuracy', () => {
+      const projection = projectPoint(arch, { x: 50, y: 90 })!;
+      expect(projection.t).toBeCloseTo(0.5, 6);
+      expect(projection.distance).toBeCloseTo(15, 6);
+    });
+
+    it('should be perpendicular to the curve away from the ends', () => {
+      const pos = { x: 10, y: 70 };
+      const projection = projectPoint(arch, pos)!;
+      const ahead = evaluateBezier(arch, projection.t + 1e-4);
+      const behind = evaluateBezier(arch, projection.t - 1e-4);
+      const tangent = { x: ahead.x - behind.x, y: ahead.y - behind.y };
+      const normal = { x: pos.x - projection.point.x, y: pos.y - projection.point.y };
+      const cosine =
+        (tangent.x * normal.x + tangent.y * normal.y) /
+        (Math.hypot(tangent.x, tangent.y) * Math.hypot(normal.x, normal.y));
+      expect(Math.abs(cosine)).toBeLessThan(1e-4);
+    });
+
+    it('should clamp to the nearest end', () => {
+      const projection = projectPoint(arch, { x: -20, y: -20 })!;
+      expect(projection.t).toBeCloseTo(0, 6);
+      expect(projection.distance).toBeCloseTo(Math.hypot(20, 20), 4);
+    });
+
+    it('should project onto rational curves', () => {
+      const quarterCircle: Point[] = [
+        { x: 100, y: 0 },
+        { x: 100, y: 100, weight: Math.SQRT1_2 },
+        { x: 0, y: 100 },
+      ];
+      const projection = projectPoint(quarterCircle, { x: 200, y: 200 })!;
+      expect(projection.point.x).toBeCloseTo(100 * Math.SQRT1_2, 4);
+      expect(projection.distance).toBeCloseTo(Math.hypot(200, 200) - 100, 4);
+    });
+
+    it('should return null without points', () => {
+      expect(projectPoint([], { x: 0, y: 0 })).toBeNull();
+    });
+  });
+
+  describe('derivatives and curvature', () => {
+    const arch: Point[] = [
+      { x: 0, y: 0 },
+      { x: 0, y: 100 },
+      { x: 100, y: 100 },
+      { x: 100, y: 0 },
+    ];
+
+    it('should differentiate polynomial curves', () => {
+      expect(getDerivative(arch, 0)).toEqual({ x: 0, y: 300 });
+      expect(getDerivative(arch, 0.5)).toEqual({ x: 150, y: 0 });
+      expect(getSecondDerivative(arch, 0)).toEqual({ x: 600, y: -600 });
+    });
+
+    it('should build the hodograph one degree lower', () => {
+      const hodograph = getHodograph(arch)!;
+
+      expect(hodograph).toEqual([
+        { x: 0, y: 300 },
+        { x: 300, y: 0 },
+        { x: 0, y: -300 },
+      ]);
+      [0, 0.3, 0.5, 1].forEach(t => {
+        const velocity = evaluateBezier(hodograph, t);
+        expect(velocity.x).toBeCloseTo(getDerivative(arch, t).x, 9);
+        expect(velocity.y).toBeCloseTo(getDerivative(arch, t).y, 9);
+      });
+    });
+
+    it('should pass the hodograph through the origin at a cusp', () => {
+      const cusp: Point[] = [
         { x: 0, y: 0 },
         { x: 100, y: 100 },
+        { x: 0, y: 100 },
+        { x: 100, y: 0 },
+      ];
+      const velocity = evaluateBezier(getHodograph(cusp)!, 0.5);
+
+      expect(velocity.x).toBeCloseTo(0, 9);
+      expect(velocity.y).toBeCloseTo(0, 9);
+    });
+
+    it('should have no hodograph for rational or single point curves', () => {
+      expect(
+        getHodograph([
+          { x: 0, y: 0 },
+          { x: 1, y: 1, weight: 2 },
+          { x: 2, y: 0 },
+        ])
+      ).toBeNull();
+      expect(getHodograph([{ x: 0, y: 0 }])).toBeNull();
+    });
+
+    it('should agree with finite differences on rational curves', () => {
+      const weighted: Point[] = [
+        { x: 0, y: 0 },
+        { x: 50, y: 120, weight: 3 },
+        { x: 120, y: 60, weight: 0.5 },
+        { x: 150, y: 0 },
+      ];
+      const h = 1e-5;
+      const t = 0.37;
+      const ahead = evaluateBezier(weighted, t + h);
+      const behind = evaluateBezier(weighted, t - h);
+      const here = evaluateBezier(weighted, t);
+      const derivative = getDerivative(weighted, t);
+      const second = getSecondDerivative(weighted, t);
+
+      expect(derivative.x).toBeCloseTo((ahead.x - behind.x) / (2 * h), 3);
+      expect(derivative.y).toBeCloseTo((ahead.y - behind.y) / (2 * h), 3);
+      expect(second.x).toBeCloseTo((ahead.x - 2 * here.x + behind.x) / (h * h), -1);
+      expect(second.y).toBeCloseTo((ahead.y - 2 * here.y + behind.y) / (h * h), -1);
+    });
+
+    it('should give a circle of radius r a curvature of 1 / r everywhere', () => {
+      const quarterCircle: Point[] = [
+        { x: 100, y: 0 },
+        { x: 100, y: 100, weight: Math.SQRT1_2 },
+        { x: 0, y: 100 },
+      ];
+      [0, 0.3, 0.5, 0.8, 1].forEach(t => {
+        expect(getCurvature(quarterCircle, t)).toBeCloseTo(0.01, 10);
+      });
+    });
+
+    it('should sign curvature by the turning direction', () => {
+      const mirrored = arch.map(p => ({ x: p.x, y: -p.y }));
+      expect(getCurvature(arch, 0.5)).toBeLessThan(0);
+      expect(getCurvature(mirrored, 0.5)).toBeGreaterThan(0);
+      expect(
+        getCurvature(
+          [
+            { x: 0, y: 0 },
+            { x: 100, y: 100 },
+          ],
+          0.5
+        )
+      ).toBe(0);
+    });
+
+    it('should return unit tangents with the normal a quarter turn away', () => {
+      const tangent = getTangent(arch, 0.5);
+      const normal = getNormal(arch, 0.5);
+      expect(tangent).toEqual({ x: 1, y: 0 });
+      expect(normal.x).toBeCloseTo(0, 10);
+      expect(normal.y).toBe(1);
+    });
+
+    it('should point the normal towards the centre of curvature', () => {
+      const t = 0.3;
+      const point = evaluateBezier(arch, t);
+      const normal = getNormal(arch, t);
+      const radius = 1 / getCurvature(arch, t);
+      const centre = { x: point.x + normal.x * radius, y: point.y + normal.y * radius };
+      // The arch bends around a centre below its top
+      expect(centre.y).toBeLessThan(point.y);
+      expect(centre.x).toBeGreaterThan(point.x);
+    });
+
+    it('should handle a vanishing velocity', () => {
+      const cusp: Point[] = [
+        { x: 0, y: 0 },
+        { x: 0, y: 0 },
+        { x: 100, y: 0 },
+      ];
+      expect(getTangent(cusp, 0)).toEqual({ x: 0, y: 0 });
+      expect(getCurvature(cusp, 0)).toBe(0);
+    });
+  });
+
+  describe('offset curves and stroke outlines', () => {
+    const arch: Point[] = [
+      { x: 0, y: 0 },
+      { x: 0, y: 100 },
+      { x: 100, y: 100 },
+      { x: 100, y: 0 },
+    ];
+    const endpointsOf = (segments: Point[][]) => segments.flatMap(s => [s[0], s[s.length - 1]]);
+
+    it('should offset a line into a parallel line', () => {
+      const offset = offsetBezier(
+        [
+          { x: 0, y: 0 },
+          { x: 100, y: 0 },
+        ],
+        10
+      );
+      expect(offset).toEqual([
+        [
+          { x: 0, y: 10 },
+          { x: 100, y: 10 },
+        ],
+      ]);
+    });
+
+    it('should shrink and grow circles by the offset distance', () => {
+      const quarterCircle: Point[] = [
+        { x: 100, y: 0 },
+        { x: 100, y: 100, weight: Math.SQRT1_2 },
+        { x: 0, y: 100 },
       ];
+      [-10, 10].forEach(distance => {
+        offsetBezier(quarterCircle, distance, 0.1).forEach(segment => {
+          for (let i = 0; i <= 10; i++) {
+            const p = evaluateBezier(segment, i / 10);
+            expect(Math.abs(Math.hypot(p.x, p.y) - (100 - distance))).toBeLessThan(0.1);
+          }
+        });
+      });
+    });
+
+    it('should stay within tolerance of the offset distance', () => {
+      const tolerance = 0.25;
+      const segments = offsetBezier(arch, 20, tolerance);
+      expect(segments.length).toBeGreaterThan(1);
+      segments.forEach(segment => {
+        for (let i = 0; i <= 8; i++) {
+          const distance = projectPoint(arch, evaluateBezier(segment, i / 8))!.distance;
+          expect(Math.abs(distance - 20)).toBeLessThan(tolerance);
+        }
+      });
+    });
+
+    it('should form a closed outline', () => {
+      const outline = getStrokeOutline([arch], { width: 20, join: 'miter', cap: 'round' });
+      for (let i = 0; i < outline.length; i++) {
+        const end = outline[i][outline[i].length - 1];
+        const next = outline[(i + 1) % outline.length][0];
+        expect(Math.hypot(end.x - next.x, end.y - next.y)).toBeLessThan(1e-9);
+      }
+    });
+
+    it('should size the caps by their style', () => {
+      const line: Point[] = [
+        { x: 0, y: 0 },
+        { x: 100, y: 0 },
+      ];
+      const width = (cap: 'butt' | 'round' | 'square') => {
+        const xs = getStrokeOutline([line], { width: 20, join: 'miter', cap })
+          .flat()
+          .map(p => p.x);
+        return Math.max(...xs) - Math.min(...xs);
+      };
+      expect(width('butt')).toBeCloseTo(100, 10);
+      expect(width('square')).toBeCloseTo(120, 10);
+      // The control points of round caps bulge just past the arc
+      expect(width('round')).toBeGreaterThanOrEqual(120);
+    });
+
+    it('should join corners by their style', () => {
+      const corner: Point[][] = [
+        [
+          { x: 0, y: 0 },
+          { x: 100, y: 0 },
+        ],
+        [
+          { x: 100, y: 0 },
+          { x: 100, y: 100 },
+        ],
+      ];
+      const hasTip = (join: 'miter' | 'round' | 'bevel') =>
+        endpointsOf(getStrokeOutline(corner, { width: 20, join, cap: 'butt' })).some(
+          p => Math.hypot(p.x - 110, p.y + 10) < 1e-9
+        );
+      expect(hasTip('miter')).toBe(true);
+      expect(hasTip('bevel')).toBe(false);
+
+      const round = getStrokeOutline(corner, { width: 20, join: 'round', cap: 'butt' });
+      const arcMid = evaluateBezier(round.find(s => s.length === 4)!, 0.5);
+      expect(Math.hypot(arcMid.x - 100, arcMid.y)).toBeCloseTo(10, 3);
+    });
+
+    it('should bevel miters that would exceed the limit', () => {
+      const sharp: Point[][] = [
+        [
+          { x: 0, y: 0 },
+          { x: 100, y: 0 },
+        ],
+        [
+          { x: 100, y: 0 },
+          { x: 0, y: 5 },
+        ],
+      ];
+      const outline = getStrokeOutline(sharp, { width: 20, join: 'miter', cap: 'butt' });
+      expect(Math.max(...outline.flat().map(p => p.x))).toBeLessThan(120);
+    });
 
-      const svg = exportToSVG(points, 1920, 1080);
-      expect(svg).toContain('width="1920"');
-      expect(svg).toContain('height="1080"');
+    it('should return an empty outline for nothing to stroke', () => {
+      expect(
+        getStrokeOutline([[{ x: 0, y: 0 }]], { width: 20, join: 'round', cap: 'round' })
+      ).toEqual([]);
     });
   });
 });
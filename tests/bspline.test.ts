@@ -0,0 +1,210 @@
+import { describe, it, expect } from 'vitest';
+import {
+  evaluateBSpline,
+  getBSplineDegree,
+  getBreakpoints,
+  getBSplineBasis,
+  getDeBoorLevels,
+  getKnotParameter,
+  getKnotVector,
+  getUniformKnots,
+  insertKnot,
+  isValidKnotVector,
+  splitBSpline,
+  toBezierSegments,
+} from '../src/bspline';
+import { evaluateBezier } from '../src/bezier';
+import { evaluateCurve, getCurveSegments } from '../src/spline';
+import { BezierCurve, Point } from '../src/types';
+
+const controlPoints: Point[] = [
+  { x: 0, y: 0 },
+  { x: 50, y: 100 },
+  { x: 100, y: 0 },
+  { x: 150, y: 100 },
+  { x: 200, y: 0 },
+  { x: 250, y: 80 },
+];
+
+const bspline = (points: Point[], extra: Partial<BezierCurve> = {}): BezierCurve => ({
+  id: 'b1',
+  color: '#4a9eff',
+  kind: 'bspline',
+  points,
+  ...extra,
+});
+
+const expectSamePoint = (a: Point, b: Point, digits = 6) => {
+  expect(a.x).toBeCloseTo(b.x, digits);
+  expect(a.y).toBeCloseTo(b.y, digits);
+};
+
+describe('bspline', () => {
+  describe('knot vectors', () => {
+    it('should clamp uniform knots at both ends', () => {
+      expect(getUniformKnots(6, 3)).toEqual([0, 0, 0, 0, 1 / 3, 2 / 3, 1, 1, 1, 1]);
+      expect(getUniformKnots(3, 2)).toEqual([0, 0, 0, 1, 1, 1]);
+    });
+
+    it('should validate the length, order and domain of a knot vector', () => {
+      expect(isValidKnotVector([0, 0, 0, 0, 1, 1, 1, 1], 4, 3)).toBe(true);
+      expect(isValidKnotVector([0, 0, 0, 1, 1, 1, 1], 4, 3)).toBe(false);
+      expect(isValidKnotVector([0, 0, 0, 0, 1, 0.5, 1, 1], 4, 3)).toBe(false);
+      expect(isValidKnotVector([0, 0, 0, 0, 0, 0, 0, 0], 4, 3)).toBe(false);
+    });
+
+    it('should fall back to uniform knots when the stored ones do not fit', () => {
+      const curve = bspline(controlPoints, { knots: [0, 0, 0, 0, 1, 1, 1, 1] });
+
+      expect(getKnotVector(curve)).toEqual(getUniformKnots(6, 3));
+    });
+
+    it('should lower the degree for curves with few points', () => {
+      expect(getBSplineDegree(bspline(controlPoints.slice(0, 3)))).toBe(2);
+      expect(getBSplineDegree(bspline(controlPoints, { degree: 2 }))).toBe(2);
+    });
+
+    it('should list the distinct knots inside the domain', () => {
+      expect(getBreakpoints([0, 1, 2, 3, 3, 4, 5, 6], 2, 5)).toEqual([2, 3, 4]);
+    });
+  });
+
+  describe('evaluateBSpline', () => {
+    it('should match a Bezier curve for a single clamped span', () => {
+      const points = controlPoints.slice(0, 4);
+      const knots = [0, 0, 0, 0, 1, 1, 1, 1];
+
+      [0, 0.25, 0.5, 0.8, 1].forEach(u => {
+        expectSamePoint(evaluateBSpline(points, knots, 3, u), evaluateBezier(points, u));
+      });
+    });
+
+    it('should start and end at the end points with clamped knots', () => {
+      const knots = getUniformKnots(6, 3);
+
+      expectSamePoint(evaluateBSpline(controlPoints, knots, 3, 0), controlPoints[0]);
+      expectSamePoint(evaluateBSpline(controlPoints, knots, 3, 1), controlPoints[5]);
+    });
+
+    it('should trace an exact circle arc with NURBS weights', () => {
+      const points = [
+        { x: 100, y: 0 },
+        { x: 100, y: 100, weight: Math.SQRT1_2 },
+        { x: 0, y: 100 },
+      ];
+      const knots = [0, 0, 0, 1, 1, 1];
+
+      [0.1, 0.3, 0.5, 0.9].forEach(u => {
+        const point = evaluateBSpline(points, knots, 2, u);
+        expect(Math.hypot(point.x, point.y)).toBeCloseTo(100, 9);
+      });
+    });
+
+    it('should blend the control points into the curve point with the basis', () => {
+      const points = controlPoints.map((p, i) => (i === 3 ? { ...p, weight: 2 } : p));
+      const knots = getUniformKnots(6, 3);
+      const basis = getBSplineBasis(points, knots, 3, 0.4);
+      const x = basis.reduce((sum, value, i) => sum + value * points[i].x, 0);
+
+      expect(basis.reduce((sum, value) => sum + value, 0)).toBeCloseTo(1, 12);
+      expect(basis[5]).toBe(0);
+      expect(x).toBeCloseTo(evaluateBSpline(points, knots, 3, 0.4).x, 9);
+    });
+
+    it('should build one level fewer per step of de Boor', () => {
+      const levels = getDeBoorLevels(controlPoints, getUniformKnots(6, 3), 3, 0.5);
+
+      expect(levels.map(level => level.length)).toEqual([4, 3, 2, 1]);
+    });
+  });
+
+  describe('insertKnot', () => {
+    it('should add a control point without changing the shape', () => {
+      const knots = getUniformKnots(6, 3);
+      const inserted = insertKnot(controlPoints, knots, 3, 0.5);
+
+      expect(inserted.points).toHaveLength(7);
+      expect(inserted.knots).toEqual([0, 0, 0, 0, 1 / 3, 0.5, 2 / 3, 1, 1, 1, 1]);
+      for (let u = 0; u <= 1; u += 0.05) {
+        expectSamePoint(
+          evaluateBSpline(inserted.points, inserted.knots, 3, u),
+          evaluateBSpline(controlPoints, knots, 3, u)
+        );
+      }
+    });
+  });
+
+  describe('toBezierSegments', () => {
+    it('should produce one Bezier segment per knot span', () => {
+      const segments = toBezierSegments(bspline(controlPoints));
+
+      expect(segments).toHaveLength(3);
+      segments.forEach(segment => expect(segment).toHaveLength(4));
+      expect(segments[0][0]).toEqual(controlPoints[0]);
+      expectSamePoint(segments[2][3], controlPoints[5]);
+      expect(segments[0][3]).toEqual(segments[1][0]);
+    });
+
+    it('should trace the B-spline exactly, including NURBS weights', () => {
+      const points = controlPoints.map((p, i) => (i === 2 ? { ...p, weight: 3 } : p));
+      const curve = bspline(points, { knots: [0, 0, 0, 0, 0.2, 0.7, 1, 1, 1, 1] });
+      const knots = getKnotVector(curve);
+
+      for (let t = 0; t <= 1; t += 0.05) {
+        expectSamePoint(
+          evaluateCurve(curve, t)!,
+          evaluateBSpline(points, knots, 3, getKnotParameter(curve, t))
+        );
+      }
+    });
+
+    it('should convert unclamped knots too', () => {
+      const curve = bspline(controlPoints, { knots: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9] });
+      const segments = getCurveSegments(curve);
+
+      expect(segments).toHaveLength(3);
+      expectSamePoint(segments[0][0], evaluateBSpline(controlPoints, getKnotVector(curve), 3, 3));
+      expectSamePoint(segments[2][3], evaluateBSpline(controlPoints, getKnotVector(curve), 3, 6));
+    });
+
+    it('should return no segments for fewer than two points', () => {
+      expect(toBezierSegments(bspline([{ x: 1, y: 1 }]))).toEqual([]);
+    });
+  });
+
+  describe('getKnotParameter', () => {
+    it('should give each knot span an equal share of t', () => {
+      const curve = bspline(controlPoints, { knots: [0, 0, 0, 0, 0.1, 0.2, 1, 1, 1, 1] });
+
+      expect(getKnotParameter(curve, 0)).toBe(0);
+      expect(getKnotParameter(curve, 1 / 3)).toBeCloseTo(0.1, 12);
+      expect(getKnotParameter(curve, 0.5)).toBeCloseTo(0.15, 12);
+      expect(getKnotParameter(curve, 1)).toBe(1);
+    });
+  });
+
+  describe('splitBSpline', () => {
+    it('should cut a B-spline into two that trace the same shape', () => {
+      const curve = bspline(controlPoints);
+      const pieces = splitBSpline(curve, 0.4, 'b2')!;
+
+      expect(pieces[0].id).toBe('b1');
+      expect(pieces[1].id).toBe('b2');
+      pieces.forEach(piece => {
+        expect(piece.kind).toBe('bspline');
+        expect(isValidKnotVector(piece.knots!, piece.points.length, 3)).toBe(true);
+      });
+
+      const cut = evaluateCurve(curve, 0.4)!;
+      expectSamePoint(pieces[0].points[pieces[0].points.length - 1], cut);
+      expectSamePoint(pieces[1].points[0], cut);
+      expectSamePoint(evaluateCurve(pieces[0], 0)!, controlPoints[0]);
+      expectSamePoint(evaluateCurve(pieces[1], 1)!, controlPoints[5]);
+    });
+
+    it('should not split at the ends', () => {
+      expect(splitBSpline(bspline(controlPoints), 0, 'b2')).toBeNull();
+      expect(splitBSpline(bspline(controlPoints), 1, 'b2')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,259 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CODE_FORMATS,
+  generateCanvasCode,
+  generateCode,
+  generateCSSCode,
+  generateMatplotlibCode,
+  generateTikZCode,
+  generateTypeScriptCode,
+  getCSSCubicBezier,
+} from '../src/codegen';
+import { evaluateBezier } from '../src/bezier';
+import { BezierCurve, Point } from '../src/types';
+
+const curve = (id: string, color: string, points: Point[]): BezierCurve => ({
+  id,
+  color,
+  points,
+});
+
+const arch = curve('arch', '#4a9eff', [
+  { x: 0, y: 0 },
+  { x: 0, y: 100 },
+  { x: 100, y: 100 },
+  { x: 100, y: 0 },
+]);
+const quadratic = curve('quadratic', '#ff4a9e', [
+  { x: 10, y: 10 },
+  { x: 30, y: 60 },
+  { x: 60, y: 10 },
+]);
+const line = curve('line', '#4aff9e', [
+  { x: 200, y: 0 },
+  { x: 300, y: 50.125 },
+]);
+const spline: BezierCurve = {
+  ...curve('spline', '#ff9e4a', [
+    { x: 0, y: 0 },
+    { x: 10, y: 10 },
+    { x: 20, y: 10 },
+    { x: 30, y: 0 },
+    { x: 40, y: -10 },
+    { x: 50, y: -10 },
+    { x: 60, y: 0 },
+  ]),
+  kind: 'spline',
+  segmentDegree: 3,
+};
+
+// Every number in a snippet, in order
+const numbers = (code: string) => (code.match(/-?\d+(\.\d+)?/g) ?? []).map(Number);
+const coordinates = (points: Point[]) => points.flatMap(p => [p.x, p.y]);
+
+describe('codegen', () => {
+  describe('generateCanvasCode', () => {
+    it('should draw each segment with the matching canvas call', () => {
+      const code = generateCanvasCode([arch, quadratic, line]);
+
+      expect(code).toContain(
+        "ctx.strokeStyle = '#4a9eff';\nctx.beginPath();\nctx.moveTo(0, 0);\nctx.bezierCurveTo(0, 100, 100, 100, 100, 0);\nctx.stroke();"
+      );
+      expect(code).toContain('ctx.moveTo(10, 10);\nctx.quadraticCurveTo(30, 60, 60, 10);');
+      expect(code).toContain('ctx.moveTo(200, 0);\nctx.lineTo(300, 50.13);');
+    });
+
+    it('should move only once for a chain of segments', () => {
+      const code = generateCanvasCode([spline]);
+      const calls = code.split('\n').filter(line => line.startsWith('ctx.bezierCurveTo'));
+
+      expect(code.match(/moveTo/g)).toHaveLength(1);
+      expect(calls.flatMap(numbers)).toEqual(coordinates(spline.points.slice(1)));
+    });
+
+    it('should approximate curves canvas cannot draw with cubics', () => {
+      const quartic = curve('quartic', '#fff', [
+        { x: 0, y: 0 },
+        { x: 25, y: 100 },
+        { x: 50, y: -100 },
+        { x: 75, y: 100 },
+        { x: 100, y: 0 },
+      ]);
+      const code = generateCanvasCode([quartic], 0.1);
+
+      expect(code).toContain('// Curve 1: degree 4 curve');
+      expect(code.match(/bezierCurveTo/g)!.length).toBeGreaterThan(1);
+      expect(code).toMatch(/bezierCurveTo\([^)]*, 100, 0\);\nctx.stroke\(\);$/);
+    });
+
+    it('should skip curves without a segment', () => {
+      expect(generateCanvasCode([curve('dot', '#fff', [{ x: 1, y: 1 }])])).toBe('');
+    });
+  });
+
+  describe('generateTypeScriptCode', () => {
+    it('should list the control points of every curve', () => {
+      const code = generateTypeScriptCode([arch, spline]);
+
+      expect(code.startsWith('type Point = { x: number; y: number };')).toBe(true);
+      expect(code).toContain('// cubic, #4a9eff\nconst curve1: Point[] = [\n  { x: 0, y: 0 },');
+      expect(code).toContain('// cubic spline, #ff9e4a\nconst curve2: Point[] = [');
+      const second = code.slice(code.indexOf('const curve2'));
+      expect(numbers(second).slice(1)).toEqual(coordinates(spline.points));
+    });
+
+    it('should keep weights', () => {
+      const rational = curve('r', '#fff', [
+        { x: 0, y: 0 },
+        { x: 50, y: 100, weight: 2.5 },
+        { x: 100, y: 0 },
+      ]);
+      const code = generateTypeScriptCode([rational]);
+
+      expect(code).toContain('weight?: number');
+      expect(code).toContain('// rational quadratic');
+      expect(code).toContain('{ x: 50, y: 100, weight: 2.5 },');
+      expect(code).toContain('{ x: 100, y: 0 },');
+    });
+  });
+
+  describe('getCSSCubicBezier', () => {
+    it('should scale a cubic so it runs from (0, 0) to (1, 1)', () => {
+      // An ease curve drawn rising up the screen from (100, 300) to (300, 100)
+      const ease = curve('ease', '#fff', [
+        { x: 100, y: 300 },
+        { x: 150, y: 280 },
+        { x: 150, y: 100 },
+        { x: 300, y: 100 },
+      ]);
+
+      expect(getCSSCubicBezier(ease)).toEqual([0.25, 0.1, 0.25, 1]);
+    });
+
+    it('should trace the same curve once scaled', () => {
+      const points = [
+        { x: 0, y: 0 },
+        { x: 30, y: 80 },
+        { x: 60, y: 120 },
+        { x: 100, y: 100 },
+      ];
+      const [x1, y1, x2, y2] = getCSSCubicBezier(curve('c', '#fff', points))!;
+      const normalized = [
+        { x: 0, y: 0 },
+        { x: x1, y: y1 },
+        { x: x2, y: y2 },
+        { x: 1, y: 1 },
+      ];
+
+      [0.1, 0.3, 0.8].forEach(t => {
+        const original = evaluateBezier(points, t);
+        const scaled = evaluateBezier(normalized, t);
+        expect(scaled.x).toBeCloseTo(original.x / 100);
+        expect(scaled.y).toBeCloseTo(original.y / 100);
+      });
+    });
+
+    it('should elevate quadratics', () => {
+      const rising = curve('q', '#fff', [
+        { x: 0, y: 0 },
+        { x: 30, y: 0 },
+        { x: 60, y: 60 },
+      ]);
+      const values = getCSSCubicBezier(rising)!;
+
+      [1 / 3, 0, 2 / 3, 1 / 3].forEach((expected, i) => {
+        expect(values[i]).toBeCloseTo(expected);
+      });
+    });
+
+    it('should reject curves that are not timing functions', () => {
+      const backwards = curve('b', '#fff', [
+        { x: 0, y: 0 },
+        { x: -20, y: 50 },
+        { x: 100, y: 50 },
+        { x: 100, y: 100 },
+      ]);
+
+      expect(getCSSCubicBezier(backwards)).toBeNull(); // A handle left of the start
+      expect(getCSSCubicBezier(arch)).toBeNull(); // Ends at the height it starts
+      expect(getCSSCubicBezier(quadratic)).toBeNull();
+      expect(getCSSCubicBezier(spline)).toBeNull(); // Several segments
+      expect(getCSSCubicBezier(line)).toBeNull();
+    });
+  });
+
+  describe('generateCSSCode', () => {
+    it('should emit a rule per timing curve and explain the others', () => {
+      const ease = curve('ease', '#fff', [
+        { x: 0, y: 100 },
+        { x: 25, y: 90 },
+        { x: 25, y: 0 },
+        { x: 100, y: 0 },
+      ]);
+      const code = generateCSSCode([ease, spline]);
+
+      expect(code).toContain(
+        '.curve-1 {\n  transition-timing-function: cubic-bezier(0.25, 0.1, 0.25, 1);\n}'
+      );
+      expect(code).toContain('/* Curve 2 (cubic spline) is not a timing curve');
+    });
+  });
+
+  describe('generateMatplotlibCode', () => {
+    it('should build a Path with the codes of each segment', () => {
+      const code = generateMatplotlibCode([arch, quadratic, line]);
+
+      expect(code).toContain('from matplotlib.path import Path');
+      expect(code).toContain('codes = [Path.MOVETO, Path.CURVE4, Path.CURVE4, Path.CURVE4]');
+      expect(code).toContain('codes = [Path.MOVETO, Path.CURVE3, Path.CURVE3]');
+      expect(code).toContain('codes = [Path.MOVETO, Path.LINETO]');
+      expect(code).toContain("edgecolor='#ff4a9e'");
+      expect(code).toContain('ax.invert_yaxis()');
+    });
+
+    it('should list one vertex per code', () => {
+      const code = generateMatplotlibCode([spline]);
+      const vertices = code.slice(code.indexOf('vertices = ['), code.indexOf(']\ncodes'));
+      const codes = code.match(/codes = \[(.*)\]/)![1].split(', ');
+
+      expect(numbers(vertices)).toEqual(coordinates(spline.points));
+      expect(codes).toHaveLength(spline.points.length);
+    });
+  });
+
+  describe('generateTikZCode', () => {
+    it('should draw cubics with controls and lines with --', () => {
+      const code = generateTikZCode([arch, line]);
+
+      expect(code).toContain('\\definecolor{curve1}{HTML}{4A9EFF}');
+      expect(code).toContain('\\begin{tikzpicture}[x=1pt, y=-1pt]');
+      expect(code).toContain(
+        '\\draw[curve1, line width=1pt] (0,0)\n    .. controls (0,100) and (100,100) .. (100,0);'
+      );
+      expect(code).toContain('(200,0)\n    -- (300,50.13);');
+      expect(code.endsWith('\\end{tikzpicture}')).toBe(true);
+    });
+
+    it('should elevate quadratics, which TikZ would read as cubics', () => {
+      const code = generateTikZCode([quadratic]);
+
+      expect(code).toContain('.. controls (23.33,43.33) and (40,43.33) .. (60,10);');
+    });
+
+    it('should leave out colors it cannot name', () => {
+      const code = generateTikZCode([curve('named', 'tomato', line.points)]);
+
+      expect(code).not.toContain('definecolor');
+      expect(code).toContain('\\draw[line width=1pt]');
+    });
+  });
+
+  describe('generateCode', () => {
+    it('should produce something for every format', () => {
+      CODE_FORMATS.forEach(({ format }) => {
+        expect(generateCode([arch], format).length).toBeGreaterThan(0);
+      });
+      expect(generateCode([arch], 'tikz')).toBe(generateTikZCode([arch]));
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+  EASING_PRESETS,
+  constrainEasingHandle,
+  findEasingPreset,
+  formatCubicBezier,
+  fromUnitBox,
+  getEasingBox,
+  getEasingPoints,
+  getEasingValues,
+  isEasingCurve,
+  toUnitBox,
+} from '../src/easing';
+import { getCSSCubicBezier } from '../src/codegen';
+import { BezierCurve, Point } from '../src/types';
+
+const box = { left: 100, top: 100, size: 200 };
+
+const curve = (points: Point[]): BezierCurve => ({ id: 'easing', color: '#4a9eff', points });
+
+describe('easing', () => {
+  describe('getEasingBox', () => {
+    it('should center a square half the size of the smaller side', () => {
+      expect(getEasingBox(800, 600)).toEqual({ left: 250, top: 150, size: 300 });
+      expect(getEasingBox(400, 1000)).toEqual({ left: 100, top: 400, size: 200 });
+    });
+  });
+
+  describe('unit box coordinates', () => {
+    it('should put (0, 0) at the bottom-left and (1, 1) at the top-right corner', () => {
+      expect(fromUnitBox(box, { x: 0, y: 0 })).toEqual({ x: 100, y: 300 });
+      expect(fromUnitBox(box, { x: 1, y: 1 })).toEqual({ x: 300, y: 100 });
+      expect(fromUnitBox(box, { x: 0.5, y: 1.5 })).toEqual({ x: 200, y: 0 });
+    });
+
+    it('should map canvas points back', () => {
+      expect(toUnitBox(box, { x: 150, y: 250 })).toEqual({ x: 0.25, y: 0.25 });
+    });
+  });
+
+  describe('getEasingPoints', () => {
+    it('should lay out the control points of a timing function in the box', () => {
+      expect(getEasingPoints([0.25, 0.1, 0.25, 1], box)).toEqual([
+        { x: 100, y: 300 },
+        { x: 150, y: 280 },
+        { x: 150, y: 100 },
+        { x: 300, y: 100 },
+      ]);
+    });
+
+    it('should round trip through getEasingValues for every preset', () => {
+      EASING_PRESETS.forEach(({ values }) => {
+        const points = getEasingPoints(values, box);
+        getEasingValues(curve(points), box)!.forEach((value, i) => {
+          expect(value).toBeCloseTo(values[i]);
+        });
+      });
+    });
+
+    it('should agree with the CSS export for the same curve', () => {
+      const values = getCSSCubicBezier(curve(getEasingPoints([0.42, 0, 0.58, 1], box)))!;
+
+      [0.42, 0, 0.58, 1].forEach((value, i) => expect(values[i]).toBeCloseTo(value));
+    });
+  });
+
+  describe('isEasingCurve', () => {
+    const easing = getEasingPoints([0.25, 0.1, 0.25, 1], box);
+
+    it('should accept a cubic from corner to corner', () => {
+      expect(isEasingCurve(curve(easing), box)).toBe(true);
+    });
+
+    it('should accept handles that overshoot vertically', () => {
+      expect(isEasingCurve(curve(getEasingPoints([0.5, -0.5, 0.5, 1.5], box)), box)).toBe(true);
+    });
+
+    it('should reject everything cubic-bezier() cannot express', () => {
+      const moved = easing.map((p, i) => (i === 0 ? { x: p.x + 5, y: p.y } : p));
+      const outside = easing.map((p, i) => (i === 1 ? { x: 90, y: p.y } : p));
+      const weighted = easing.map((p, i) => (i === 1 ? { ...p, weight: 2 } : p));
+
+      expect(isEasingCurve(curve(moved), box)).toBe(false);
+      expect(isEasingCurve(curve(outside), box)).toBe(false);
+      expect(isEasingCurve(curve(weighted), box)).toBe(false);
+      expect(isEasingCurve(curve(easing.slice(0, 3)), box)).toBe(false);
+      expect(isEasingCurve({ ...curve(easing), kind: 'spline' }, box)).toBe(false);
+      expect(getEasingValues(curve(moved), box)).toBeNull();
+    });
+  });
+
+  describe('constrainEasingHandle', () => {
+    it('should clamp x to the box and leave y alone', () => {
+      expect(constrainEasingHandle({ x: 50, y: 500 }, box)).toEqual({ x: 100, y: 500 });
+      expect(constrainEasingHandle({ x: 350, y: -20 }, box)).toEqual({ x: 300, y: -20 });
+      expect(constrainEasingHandle({ x: 180, y: 120 }, box)).toEqual({ x: 180, y: 120 });
+    });
+  });
+
+  describe('formatCubicBezier', () => {
+    it('should round to three decimals', () => {
+      expect(formatCubicBezier([0.25, 0.1, 0.25, 1])).toBe('cubic-bezier(0.25, 0.1, 0.25, 1)');
+      expect(formatCubicBezier([1 / 3, -0.00001, 2 / 3, 1.23456])).toBe(
+        'cubic-bezier(0.333, 0, 0.667, 1.235)'
+      );
+    });
+  });
+
+  describe('findEasingPreset', () => {
+    it('should name the preset the values round to', () => {
+      expect(findEasingPreset([0.42, 0, 0.58, 1])).toBe('ease-in-out');
+      expect(findEasingPreset([0.2500001, 0.1, 0.25, 1])).toBe('ease');
+      expect(findEasingPreset([0.3, 0.1, 0.25, 1])).toBeNull();
+    });
+  });
+});
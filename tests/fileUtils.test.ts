@@ -0,0 +1,197 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_VIEW_SETTINGS,
+  DOCUMENT_VERSION,
+  createDocument,
+  getCurvesErrors,
+  getDocumentErrors,
+  getPointErrors,
+  parseDocument,
+} from '../src/fileUtils';
+import { BezierCurve } from '../src/types';
+
+const curve = (id: string, extra: Record<string, unknown> = {}) => ({
+  id,
+  color: '#4a9eff',
+  points: [
+    { x: 0, y: 0 },
+    { x: 10, y: 20 },
+  ],
+  ...extra,
+});
+
+const document = (extra: Record<string, unknown> = {}) => ({
+  version: DOCUMENT_VERSION,
+  curves: [curve('a'), curve('b')],
+  activeCurveId: 'b',
+  view: { visualizationMode: 'tslider', t: 0.25, showBounds: true, showBasis: false },
+  metadata: { generator: 'bezier', createdAt: '2026-01-02T03:04:05.000Z' },
+  ...extra,
+});
+
+describe('fileUtils', () => {
+  describe('getPointErrors', () => {
+    it('should accept points with and without a weight', () => {
+      expect(getPointErrors({ x: 1, y: 2 }, 'p')).toEqual([]);
+      expect(getPointErrors({ x: 1, y: 2, weight: 0.5 }, 'p')).toEqual([]);
+    });
+
+    it('should say which coordinate is wrong and how', () => {
+      expect(getPointErrors({ x: NaN, y: '2' }, 'p')).toEqual([
+        'p.x is NaN',
+        'p.y is not a number',
+      ]);
+      expect(getPointErrors({ y: Infinity }, 'p')).toEqual(['p.x is missing', 'p.y is not finite']);
+      expect(getPointErrors(null, 'p')).toEqual(['p is not an object']);
+    });
+
+    it('should reject weights that are not positive', () => {
+      expect(getPointErrors({ x: 1, y: 2, weight: 0 }, 'p')).toEqual([
+        'p.weight must be a positive number',
+      ]);
+    });
+  });
+
+  describe('getCurvesErrors', () => {
+    it('should qualify errors with the curve and point index', () => {
+      const curves = [curve('a'), curve('b'), curve('c')];
+      curves[2].points[1] = { x: NaN, y: 0 };
+
+      expect(getCurvesErrors(curves)).toEqual(['curves[2].points[1].x is NaN']);
+    });
+
+    it('should check the fields each curve kind adds', () => {
+      const errors = getCurvesErrors([
+        curve('a', { kind: 'nurbs' }),
+        curve('b', { kind: 'interpolating' }),
+        curve('c', { kind: 'bspline', degree: 1.5, knots: [0, 1, 0.5] }),
+        curve('d', { kind: 'spline', continuity: ['C1', 'C3'] }),
+      ]);
+
+      expect(errors).toEqual([
+        'curves[0].kind must be one of bezier, spline, interpolating, bspline',
+        'curves[1].points has 2 points; interpolating curves need 3n + 1',
+        'curves[2].degree must be a whole number of at least 1',
+        'curves[2].knots[2] is smaller than the knot before it',
+        'curves[3].continuity[1] must be one of C0, C1, G1',
+      ]);
+    });
+
+    it('should report missing fields and repeated ids', () => {
+      const errors = getCurvesErrors([curve('a'), { id: 'a', color: 3 }]);
+
+      expect(errors).toEqual([
+        'curves[1].color is not a string',
+        'curves[1].points is missing',
+        'curves[1].id "a" is already used by curves[0]',
+      ]);
+    });
+
+    it('should reject anything but an array', () => {
+      expect(getCurvesErrors(undefined)).toEqual(['curves is missing']);
+      expect(getCurvesErrors({})).toEqual(['curves is not an array']);
+    });
+  });
+
+  describe('getDocumentErrors', () => {
+    it('should accept a complete document', () => {
+      expect(getDocumentErrors(document())).toEqual([]);
+    });
+
+    it('should check the active curve, view settings and metadata', () => {
+      const errors = getDocumentErrors(
+        document({
+          activeCurveId: 'z',
+          view: { visualizationMode: 'sketch', t: 2, showBounds: 'yes', showBasis: false },
+          metadata: { generator: 'bezier', modifiedAt: 'yesterday' },
+        })
+      );
+
+      expect(errors).toEqual([
+        'activeCurveId "z" does not match any curve',
+        'view.visualizationMode must be one of default, decasteljau, deboor, tslider, intersections, curvature, hodograph',
+        'view.t must be between 0 and 1',
+        'view.showBounds must be true or false',
+        'metadata.modifiedAt is not a date',
+      ]);
+    });
+  });
+
+  describe('parseDocument', () => {
+    it('should load a current document as it is', () => {
+      const { document: loaded, errors } = parseDocument(document());
+
+      expect(errors).toEqual([]);
+      expect(loaded).toEqual(document());
+    });
+
+    it('should migrate unversioned files', () => {
+      const { document: loaded, errors } = parseDocument({ curves: [curve('a')] });
+
+      expect(errors).toEqual([]);
+      expect(loaded).toEqual({
+        version: DOCUMENT_VERSION,
+        curves: [curve('a')],
+        activeCurveId: null,
+        view: DEFAULT_VIEW_SETTINGS,
+        metadata: { generator: 'bezier' },
+      });
+    });
+
+    it('should keep the active curve of an unversioned file', () => {
+      const { document: loaded } = parseDocument({
+        curves: [curve('a'), curve('b')],
+        activeCurveId: 'b',
+      });
+
+      expect(loaded?.activeCurveId).toBe('b');
+    });
+
+    it('should validate migrated files too', () => {
+      expect(parseDocument({ points: [] }).errors).toEqual(['curves is missing']);
+    });
+
+    it('should refuse files from a newer editor', () => {
+      const { document: loaded, errors } = parseDocument(
+        document({ version: DOCUMENT_VERSION + 1 })
+      );
+
+      expect(loaded).toBeNull();
+      expect(errors[0]).toContain('newer than this editor supports');
+    });
+
+    it('should refuse versions that are not whole numbers', () => {
+      expect(parseDocument(document({ version: '1' })).errors).toEqual([
+        'version must be a whole number',
+      ]);
+      expect(parseDocument([]).errors).toEqual(['The file does not hold a JSON object']);
+    });
+  });
+
+  describe('createDocument', () => {
+    const curves: BezierCurve[] = [curve('a')];
+
+    it('should stamp the version and dates', () => {
+      const created = createDocument({ curves, activeCurveId: 'a', view: DEFAULT_VIEW_SETTINGS });
+
+      expect(created.version).toBe(DOCUMENT_VERSION);
+      expect(created.metadata.createdAt).toBe(created.metadata.modifiedAt);
+      expect(getDocumentErrors(created)).toEqual([]);
+    });
+
+    it('should keep the creation date of a loaded document', () => {
+      const created = createDocument(
+        { curves, activeCurveId: null, view: DEFAULT_VIEW_SETTINGS },
+        '2026-01-02T03:04:05.000Z'
+      );
+
+      expect(created.metadata.createdAt).toBe('2026-01-02T03:04:05.000Z');
+    });
+
+    it('should round trip through JSON and parseDocument', () => {
+      const created = createDocument({ curves, activeCurveId: 'a', view: DEFAULT_VIEW_SETTINGS });
+
+      expect(parseDocument(JSON.parse(JSON.stringify(created))).document).toEqual(created);
+    });
+  });
+});
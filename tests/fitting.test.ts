@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { fitCubicBeziers, DEFAULT_FIT_ERROR } from '../src/fitting';
+import { projectPoint } from '../src/bezier';
+import { Point } from '../src/types';
+
+const distanceToSegments = (segments: Point[][], point: Point): number =>
+  Math.min(...segments.map(segment => projectPoint(segment, point)?.distance ?? Infinity));
+
+const direction = (from: Point, to: Point): Point => {
+  const length = Math.hypot(to.x - from.x, to.y - from.y);
+  return { x: (to.x - from.x) / length, y: (to.y - from.y) / length };
+};
+
+describe('fitting', () => {
+  describe('fitCubicBeziers', () => {
+    it('should return no segments for fewer than two distinct points', () => {
+      expect(fitCubicBeziers([])).toEqual([]);
+      expect(fitCubicBeziers([{ x: 5, y: 5 }])).toEqual([]);
+      expect(
+        fitCubicBeziers([
+          { x: 5, y: 5 },
+          { x: 5.2, y: 5.1 },
+        ])
+      ).toEqual([]);
+    });
+
+    it('should fit a straight stroke with a single cubic', () => {
+      const path = Array.from({ length: 20 }, (_, i) => ({ x: i * 10, y: i * 5 }));
+
+      const segments = fitCubicBeziers(path);
+
+      expect(segments).toHaveLength(1);
+      expect(segments[0]).toHaveLength(4);
+      expect(segments[0][0]).toEqual(path[0]);
+      expect(segments[0][3]).toEqual(path[path.length - 1]);
+    });
+
+    it('should keep every sketched point within the error tolerance', () => {
+      const path = Array.from({ length: 120 }, (_, i) => {
+        const angle = (i / 119) * Math.PI * 3;
+        return { x: 200 + (60 + i) * Math.cos(angle), y: 200 + (60 + i) * Math.sin(angle) };
+      });
+
+      const segments = fitCubicBeziers(path);
+
+      expect(segments.length).toBeGreaterThan(1);
+      path.forEach(point => {
+        expect(distanceToSegments(segments, point)).toBeLessThanOrEqual(DEFAULT_FIT_ERROR + 1e-6);
+      });
+    });
+
+    it('should use more segments for a tighter tolerance', () => {
+      const path = Array.from({ length: 80 }, (_, i) => ({
+        x: i * 5,
+        y: 100 + 50 * Math.sin(i / 5),
+      }));
+
+      expect(fitCubicBeziers(path, 0.5).length).toBeGreaterThan(fitCubicBeziers(path, 8).length);
+    });
+
+    it('should join consecutive segments smoothly (G1)', () => {
+      const path = Array.from({ length: 80 }, (_, i) => ({
+        x: i * 5,
+        y: 100 + 50 * Math.sin(i / 5),
+      }));
+
+      const segments = fitCubicBeziers(path, 1);
+
+      expect(segments.length).toBeGreaterThan(1);
+      for (let i = 0; i < segments.length - 1; i++) {
+        const [, , handleIn, joint] = segments[i];
+        const [next, handleOut] = segments[i + 1];
+        expect(next).toEqual(joint);
+        const incoming = direction(handleIn, joint);
+        const outgoing = direction(joint, handleOut);
+        expect(incoming.x).toBeCloseTo(outgoing.x, 6);
+        expect(incoming.y).toBeCloseTo(outgoing.y, 6);
+      }
+    });
+  });
+});
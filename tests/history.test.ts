@@ -4,8 +4,20 @@ import {
   AddPointCommand,
   RemovePointCommand,
   MovePointCommand,
+  MovePointsCommand,
+  AddKnotCommand,
+  RemoveKnotCommand,
+  SetJointContinuityCommand,
+  SetPointWeightCommand,
   AddCurveCommand,
+  AddCurvesCommand,
+  ImportCurvesCommand,
   RemoveCurveCommand,
+  SplitCurveCommand,
+  ChangeDegreeCommand,
+  InsertKnotCommand,
+  SetKnotsCommand,
+  ApplyEasingCommand,
 } from '../src/history';
 import { BezierCurve, Point } from '../src/types';
 
@@ -132,7 +144,320 @@ describe('HistoryManager', () => {
     });
   });
 
+  describe('MovePointsCommand', () => {
+    it('should move and restore all points together', () => {
+      initialState.curves[0].points = [
+        { x: 0, y: 0 },
+        { x: 10, y: 10 },
+        { x: 20, y: 20 },
+      ];
+
+      history.executeCommand(
+        new MovePointsCommand('curve1', [
+          { index: 0, oldPoint: { x: 0, y: 0 }, newPoint: { x: 5, y: 5 } },
+          { index: 2, oldPoint: { x: 20, y: 20 }, newPoint: { x: 25, y: 25 } },
+        ])
+      );
+
+      expect(initialState.curves[0].points).toEqual([
+        { x: 5, y: 5 },
+        { x: 10, y: 10 },
+        { x: 25, y: 25 },
+      ]);
+
+      history.undo();
+
+      expect(initialState.curves[0].points).toEqual([
+        { x: 0, y: 0 },
+        { x: 10, y: 10 },
+        { x: 20, y: 20 },
+      ]);
+    });
+  });
+
+  describe('AddKnotCommand and RemoveKnotCommand', () => {
+    beforeEach(() => {
+      initialState.curves[0].kind = 'interpolating';
+    });
+
+    it('should add knots with derived handles and undo them', () => {
+      history.executeCommand(new AddKnotCommand('curve1', { x: 0, y: 0 }));
+      history.executeCommand(new AddKnotCommand('curve1', { x: 90, y: 0 }));
+
+      expect(initialState.curves[0].points).toEqual([
+        { x: 0, y: 0 },
+        { x: 30, y: 0 },
+        { x: 60, y: 0 },
+        { x: 90, y: 0 },
+      ]);
+
+      history.undo();
+
+      expect(initialState.curves[0].points).toEqual([{ x: 0, y: 0 }]);
+    });
+
+    it('should remove a knot and restore it on undo', () => {
+      [0, 90, 180].forEach(x => history.executeCommand(new AddKnotCommand('curve1', { x, y: 0 })));
+      const before = initialState.curves[0].points.map(p => ({ ...p }));
+
+      history.executeCommand(new RemoveKnotCommand('curve1', 3));
+      expect(initialState.curves[0].points).toHaveLength(4);
+      expect(initialState.curves[0].points[3]).toEqual({ x: 180, y: 0 });
+
+      history.undo();
+      expect(initialState.curves[0].points).toEqual(before);
+    });
+
+    it('should reset handles when given a handle', () => {
+      [0, 90].forEach(x => history.executeCommand(new AddKnotCommand('curve1', { x, y: 0 })));
+      initialState.curves[0].points[1] = { x: 10, y: 40 };
+
+      history.executeCommand(new RemoveKnotCommand('curve1', 1));
+
+      expect(initialState.curves[0].points[1]).toEqual({ x: 30, y: 0 });
+    });
+
+    it('should describe knot removal and handle resets', () => {
+      [0, 90].forEach(x => history.executeCommand(new AddKnotCommand('curve1', { x, y: 0 })));
+      history.executeCommand(new RemoveKnotCommand('curve1', 3));
+      history.undo();
+      history.executeCommand(new RemoveKnotCommand('curve1', 2));
+
+      const descriptions = history.getBranches().map(b => b.description);
+      expect(descriptions).toEqual(['Remove knot from blue', 'Reset handles in blue']);
+    });
+  });
+
+  describe('SetJointContinuityCommand', () => {
+    beforeEach(() => {
+      initialState.curves[0].kind = 'spline';
+      initialState.curves[0].points = [
+        { x: 0, y: 0 },
+        { x: 30, y: 50 },
+        { x: 70, y: 50 },
+        { x: 100, y: 0 },
+        { x: 100, y: 80 },
+        { x: 170, y: -50 },
+        { x: 200, y: 0 },
+      ];
+    });
+
+    it('should set the continuity and snap the outgoing handle', () => {
+      history.executeCommand(new SetJointContinuityCommand('curve1', 0, 'G1', 'C1'));
+
+      expect(initialState.curves[0].continuity).toEqual(['C1']);
+      expect(initialState.curves[0].points[4]).toEqual({ x: 130, y: -50 });
+    });
+
+    it('should restore continuity and points on undo', () => {
+      history.executeCommand(new SetJointContinuityCommand('curve1', 0, 'G1', 'C1'));
+      history.undo();
+
+      expect(initialState.curves[0].continuity).toEqual(['G1']);
+      expect(initialState.curves[0].points[4]).toEqual({ x: 100, y: 80 });
+    });
+  });
+
+  describe('SplitCurveCommand', () => {
+    beforeEach(() => {
+      initialState.curves[0].points = [
+        { x: 0, y: 0 },
+        { x: 50, y: 100 },
+        { x: 100, y: 0 },
+      ];
+    });
+
+    it('should replace the curve with two pieces', () => {
+      history.executeCommand(new SplitCurveCommand('curve1', 0.5, 'curve2'));
+
+      expect(initialState.curves.map(c => c.id)).toEqual(['curve1', 'curve2']);
+      expect(initialState.curves[0].points[2]).toEqual({ x: 50, y: 50 });
+      expect(initialState.curves[1].points[0]).toEqual({ x: 50, y: 50 });
+      expect(initialState.curves[1].points[2]).toEqual({ x: 100, y: 0 });
+    });
+
+    it('should restore the original curve on undo', () => {
+      history.executeCommand(new SplitCurveCommand('curve1', 0.5, 'curve2'));
+      history.undo();
+
+      expect(initialState.curves).toHaveLength(1);
+      expect(initialState.curves[0].points).toEqual([
+        { x: 0, y: 0 },
+        { x: 50, y: 100 },
+        { x: 100, y: 0 },
+      ]);
+    });
+
+    it('should split again on redo', () => {
+      history.executeCommand(new SplitCurveCommand('curve1', 0.5, 'curve2'));
+      history.undo();
+      history.redo();
+
+      expect(initialState.curves).toHaveLength(2);
+    });
+
+    it('should serialize the split parameters', () => {
+      const cmd = new SplitCurveCommand('curve1', 0.25, 'curve2');
+      expect(cmd.serialize()).toEqual({ curveId: 'curve1', t: 0.25, newCurveId: 'curve2' });
+    });
+  });
+
+  describe('ChangeDegreeCommand', () => {
+    const quadratic: Point[] = [
+      { x: 0, y: 0 },
+      { x: 50, y: 100 },
+      { x: 100, y: 0 },
+    ];
+
+    it('should elevate and restore the degree', () => {
+      initialState.curves[0].points = quadratic.map(p => ({ ...p }));
+
+      history.executeCommand(new ChangeDegreeCommand('curve1', 'elevate'));
+      expect(initialState.curves[0].points).toHaveLength(4);
+
+      history.undo();
+      expect(initialState.curves[0].points).toEqual(quadratic);
+    });
+
+    it('should report the reduction error', () => {
+      initialState.curves[0].points = quadratic.map(p => ({ ...p }));
+      const cmd = new ChangeDegreeCommand('curve1', 'reduce');
+
+      history.executeCommand(cmd);
+
+      expect(initialState.curves[0].points).toHaveLength(2);
+      expect(cmd.getApproximationError()).toBeCloseTo(50);
+    });
+  });
+
+  describe('InsertKnotCommand and SetKnotsCommand', () => {
+    beforeEach(() => {
+      initialState.curves[0] = {
+        ...createMockCurve('curve1', '#4a9eff', [
+          { x: 0, y: 0 },
+          { x: 50, y: 100 },
+          { x: 100, y: 0 },
+          { x: 150, y: 100 },
+        ]),
+        kind: 'bspline',
+        degree: 3,
+      };
+    });
+
+    it('should insert a knot and undo it', () => {
+      history.executeCommand(new InsertKnotCommand('curve1', 0.5));
+
+      expect(initialState.curves[0].points).toHaveLength(5);
+      expect(initialState.curves[0].knots).toEqual([0, 0, 0, 0, 0.5, 1, 1, 1, 1]);
+
+      history.undo();
+
+      expect(initialState.curves[0].points).toHaveLength(4);
+      expect(initialState.curves[0].knots).toBeUndefined();
+    });
+
+    it('should set knots and restore the previous ones on undo', () => {
+      const knots = [0, 0, 0, 0, 2, 2, 2, 2];
+      history.executeCommand(new SetKnotsCommand('curve1', undefined, knots));
+
+      expect(initialState.curves[0].knots).toEqual(knots);
+
+      history.undo();
+
+      expect('knots' in initialState.curves[0]).toBe(false);
+    });
+  });
+
+  describe('ApplyEasingCommand', () => {
+    const easing = [
+      { x: 0, y: 100 },
+      { x: 25, y: 90 },
+      { x: 25, y: 0 },
+      { x: 100, y: 0 },
+    ];
+
+    it('should turn a spline into a plain cubic and restore it on undo', () => {
+      const spline: BezierCurve = {
+        ...createMockCurve('curve1', '#4a9eff', [
+          { x: 0, y: 0 },
+          { x: 10, y: 10, weight: 2 },
+          { x: 20, y: 10 },
+          { x: 30, y: 0 },
+        ]),
+        kind: 'spline',
+        segmentDegree: 3,
+        continuity: ['C1'],
+      };
+      initialState.curves[0] = JSON.parse(JSON.stringify(spline));
+
+      history.executeCommand(new ApplyEasingCommand('curve1', easing));
+
+      expect(initialState.curves[0]).toEqual(createMockCurve('curve1', '#4a9eff', easing));
+
+      history.undo();
+
+      expect(initialState.curves[0]).toEqual(spline);
+    });
+
+    it('should describe the change', () => {
+      history.executeCommand(new ApplyEasingCommand('curve1', easing));
+      history.undo();
+      history.executeCommand(new AddPointCommand('curve1', { x: 5, y: 5 }));
+
+      const descriptions = history.getBranches().map(b => b.description);
+      expect(descriptions).toContain('Set easing of blue');
+    });
+  });
+
+  describe('SetPointWeightCommand', () => {
+    it('should set the weight of a point', () => {
+      initialState.curves[0].points = [{ x: 10, y: 20 }];
+
+      history.executeCommand(new SetPointWeightCommand('curve1', 0, 1, 2.5));
+
+      expect(initialState.curves[0].points[0]).toEqual({ x: 10, y: 20, weight: 2.5 });
+    });
+
+    it('should restore the default weight on undo', () => {
+      initialState.curves[0].points = [{ x: 10, y: 20 }];
+
+      history.executeCommand(new SetPointWeightCommand('curve1', 0, 1, 2.5));
+      history.undo();
+
+      expect(initialState.curves[0].points[0]).toEqual({ x: 10, y: 20 });
+      expect('weight' in initialState.curves[0].points[0]).toBe(false);
+    });
+
+    it('should describe the weight change', () => {
+      initialState.curves[0].points = [{ x: 10, y: 20 }];
+      history.executeCommand(new AddPointCommand('curve1', { x: 30, y: 40 }));
+      history.undo();
+      history.executeCommand(new SetPointWeightCommand('curve1', 0, 1, 2));
+
+      const descriptions = history.getBranches().map(b => b.description);
+      expect(descriptions).toContain('Change point weight in blue');
+    });
+  });
+
   describe('AddCurveCommand', () => {
+    it('should keep the spline settings of a new curve', () => {
+      const newCurve: BezierCurve = {
+        ...createMockCurve('curve2', '#ff4a9e', [{ x: 1, y: 2 }]),
+        kind: 'spline',
+        segmentDegree: 2,
+      };
+
+      history.executeCommand(new AddCurveCommand(newCurve));
+
+      expect(initialState.curves[1]).toEqual({
+        id: 'curve2',
+        color: '#ff4a9e',
+        kind: 'spline',
+        segmentDegree: 2,
+        points: [],
+      });
+    });
+
     it('should add new curve', () => {
       const newCurve = createMockCurve('curve2', '#ff4a9e', []);
       const cmd = new AddCurveCommand(newCurve);
@@ -156,6 +481,63 @@ describe('HistoryManager', () => {
     });
   });
 
+  describe('AddCurvesCommand', () => {
+    it('should add curves with their points', () => {
+      const sketched: BezierCurve = {
+        ...createMockCurve('curve2', '#ff4a9e', [
+          { x: 0, y: 0 },
+          { x: 10, y: 0 },
+          { x: 20, y: 10 },
+          { x: 30, y: 10 },
+        ]),
+        kind: 'spline',
+        segmentDegree: 3,
+      };
+
+      const affected = history.executeCommand(new AddCurvesCommand([sketched]));
+
+      expect(affected).toBe('curve2');
+      expect(initialState.curves).toHaveLength(2);
+      expect(initialState.curves[1]).toEqual(sketched);
+      expect(initialState.curves[1].points).not.toBe(sketched.points);
+    });
+
+    it('should undo all added curves in one step', () => {
+      history.executeCommand(
+        new AddCurvesCommand([
+          createMockCurve('curve2', '#ff4a9e', [{ x: 1, y: 1 }]),
+          createMockCurve('curve3', '#4aff9e', [{ x: 2, y: 2 }]),
+        ])
+      );
+      expect(initialState.curves).toHaveLength(3);
+
+      history.undo();
+
+      expect(initialState.curves.map(c => c.id)).toEqual(['curve1']);
+    });
+  });
+
+  describe('ImportCurvesCommand', () => {
+    it('should append imported curves and describe the import', () => {
+      const imported = [
+        createMockCurve('curve2', '#ff4a9e', [{ x: 1, y: 1 }]),
+        createMockCurve('curve3', '#4aff9e', [{ x: 2, y: 2 }]),
+      ];
+      history.executeCommand(new ImportCurvesCommand(imported));
+
+      // Branch off so the import shows up in the branch list
+      history.undo();
+      history.executeCommand(new AddPointCommand('curve1', { x: 5, y: 5 }));
+
+      const importBranch = history.getBranches().find(b => b.description === 'Import 2 curves');
+      expect(importBranch).toBeDefined();
+      expect(initialState.curves.map(c => c.id)).toEqual(['curve1']);
+
+      history.switchToBranch(importBranch!.node);
+      expect(initialState.curves.map(c => c.id)).toEqual(['curve1', 'curve2', 'curve3']);
+    });
+  });
+
   describe('RemoveCurveCommand', () => {
     it('should remove curve', () => {
       const curve2 = createMockCurve('curve2', '#ff4a9e', [{ x: 10, y: 20 }]);
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { InteractionManager } from '../src/interaction';
 import { Point } from '../src/types';
 
@@ -290,6 +290,308 @@ describe('InteractionManager', () => {
     });
   });
 
+  describe('mouse interactions - point weights', () => {
+    // happy-dom's WheelEvent ignores the mouse coordinates passed to its constructor
+    const createWheelEvent = (x: number, y: number, deltaY: number): WheelEvent => {
+      const event = new WheelEvent('wheel', { deltaY, bubbles: true, cancelable: true });
+      Object.defineProperty(event, 'clientX', { value: x });
+      Object.defineProperty(event, 'clientY', { value: y });
+      return event;
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should increase weight when scrolling up over a point', () => {
+      interaction.setPoints([{ x: 100, y: 100 }]);
+
+      canvas.dispatchEvent(createWheelEvent(100, 100, -1));
+
+      expect(interaction.getPoints()[0].weight).toBeCloseTo(1.1);
+      expect(onUpdate).toHaveBeenCalledWith();
+    });
+
+    it('should ignore wheel events away from points', () => {
+      interaction.setPoints([{ x: 100, y: 100 }]);
+
+      canvas.dispatchEvent(createWheelEvent(300, 300, -1));
+
+      expect(interaction.getPoints()[0].weight).toBeUndefined();
+      expect(onUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should merge consecutive wheel ticks into one weight action', () => {
+      interaction.setPoints([{ x: 100, y: 100 }]);
+
+      canvas.dispatchEvent(createWheelEvent(100, 100, 1));
+      canvas.dispatchEvent(createWheelEvent(100, 100, 1));
+      vi.runAllTimers();
+
+      const weightActions = onUpdate.mock.calls.filter(([action]) => action?.type === 'weight');
+      expect(weightActions).toHaveLength(1);
+      expect(weightActions[0][0]).toMatchObject({
+        type: 'weight',
+        index: 0,
+        oldPoint: { x: 100, y: 100 },
+      });
+      expect(weightActions[0][0].point.weight).toBeCloseTo(1 / 1.21);
+    });
+
+    it('should commit a pending weight at once when asked to', () => {
+      interaction.setPoints([{ x: 100, y: 100 }]);
+
+      canvas.dispatchEvent(createWheelEvent(100, 100, -1));
+      interaction.commitWeight();
+
+      expect(onUpdate).toHaveBeenCalledWith(expect.objectContaining({ type: 'weight', index: 0 }));
+    });
+
+    it('should drop a pending weight when the points are replaced', () => {
+      interaction.setPoints([{ x: 100, y: 100 }]);
+
+      canvas.dispatchEvent(createWheelEvent(100, 100, -1));
+      interaction.setPoints([{ x: 300, y: 300 }]);
+      vi.runAllTimers();
+
+      expect(onUpdate).not.toHaveBeenCalledWith(expect.objectContaining({ type: 'weight' }));
+    });
+
+    it('should keep the weight when dragging a weighted point', () => {
+      interaction.setPoints([{ x: 100, y: 100, weight: 2 }]);
+
+      canvas.dispatchEvent(createMouseEvent('mousedown', 100, 100));
+      canvas.dispatchEvent(createMouseEvent('mousemove', 150, 150));
+
+      expect(interaction.getPoints()[0]).toEqual({ x: 150, y: 150, weight: 2 });
+    });
+  });
+
+  describe('mouse interactions - splitting', () => {
+    it('should emit a split action on shift+click away from points', () => {
+      const event = new MouseEvent('mousedown', {
+        clientX: 100,
+        clientY: 200,
+        shiftKey: true,
+        bubbles: true,
+      });
+      canvas.dispatchEvent(event);
+
+      expect(onUpdate).toHaveBeenCalledWith({ type: 'split', point: { x: 100, y: 200 } });
+      expect(onUpdate).not.toHaveBeenCalledWith(expect.objectContaining({ type: 'add' }));
+    });
+  });
+
+  describe('mouse interactions - constrained drags', () => {
+    it('should report points moved by the drag constraint as linked moves', () => {
+      interaction.setPoints([
+        { x: 100, y: 100 },
+        { x: 200, y: 100 },
+      ]);
+      interaction.setDragConstraint((points, index, previous) => {
+        const other = index === 0 ? 1 : 0;
+        points[other] = {
+          x: points[other].x + points[index].x - previous.x,
+          y: points[other].y + points[index].y - previous.y,
+        };
+      });
+
+      canvas.dispatchEvent(createMouseEvent('mousedown', 100, 100));
+      canvas.dispatchEvent(createMouseEvent('mousemove', 110, 120));
+      canvas.dispatchEvent(createMouseEvent('mouseup', 110, 120));
+
+      expect(onUpdate).toHaveBeenCalledWith({
+        type: 'move',
+        point: { x: 110, y: 120 },
+        index: 0,
+        oldPoint: { x: 100, y: 100 },
+        linked: [{ index: 1, oldPoint: { x: 200, y: 100 }, point: { x: 210, y: 120 } }],
+      });
+    });
+
+    it('should emit a continuity action when double-clicking a point', () => {
+      interaction.setPoints([{ x: 100, y: 100 }]);
+
+      canvas.dispatchEvent(createMouseEvent('dblclick', 100, 100));
+
+      expect(onUpdate).toHaveBeenCalledWith({
+        type: 'continuity',
+        point: { x: 100, y: 100 },
+        index: 0,
+      });
+    });
+  });
+
+  describe('mouse interactions - hovering and scrubbing', () => {
+    it('should report the hover position until the mouse leaves', () => {
+      const onHover = vi.fn();
+      interaction.setHoverHandler(onHover);
+
+      canvas.dispatchEvent(createMouseEvent('mousemove', 40, 30));
+      canvas.dispatchEvent(new MouseEvent('mouseleave'));
+
+      expect(onHover).toHaveBeenNthCalledWith(1, { x: 40, y: 30 });
+      expect(onHover).toHaveBeenNthCalledWith(2, null);
+    });
+
+    it('should not report hovering while dragging a point', () => {
+      const onHover = vi.fn();
+      interaction.setHoverHandler(onHover);
+      interaction.setPoints([{ x: 50, y: 50 }]);
+
+      canvas.dispatchEvent(createMouseEvent('mousedown', 50, 50));
+      canvas.dispatchEvent(createMouseEvent('mousemove', 60, 60));
+
+      expect(onHover).not.toHaveBeenCalled();
+    });
+
+    it('should scrub instead of adding a point when the scrubber grabs the click', () => {
+      const scrubber = vi.fn(() => true);
+      interaction.setCurveScrubber(scrubber);
+
+      canvas.dispatchEvent(createMouseEvent('mousedown', 100, 100));
+      canvas.dispatchEvent(createMouseEvent('mousemove', 120, 110));
+      canvas.dispatchEvent(createMouseEvent('mouseup', 120, 110));
+      canvas.dispatchEvent(createMouseEvent('mousemove', 130, 110));
+
+      expect(scrubber).toHaveBeenCalledTimes(2);
+      expect(scrubber).toHaveBeenNthCalledWith(1, { x: 100, y: 100 }, true);
+      expect(scrubber).toHaveBeenNthCalledWith(2, { x: 120, y: 110 }, false);
+      expect(onUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should add a point when the scrubber declines the click', () => {
+      interaction.setCurveScrubber(() => false);
+
+      canvas.dispatchEvent(createMouseEvent('mousedown', 100, 100));
+
+      expect(onUpdate).toHaveBeenCalledWith({ type: 'add', point: { x: 100, y: 100 } });
+    });
+
+    it('should prefer dragging a point over scrubbing', () => {
+      const scrubber = vi.fn(() => true);
+      interaction.setCurveScrubber(scrubber);
+      interaction.setPoints([{ x: 50, y: 50 }]);
+
+      canvas.dispatchEvent(createMouseEvent('mousedown', 50, 50));
+
+      expect(scrubber).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('mouse interactions - sketching', () => {
+    beforeEach(() => {
+      interaction.setSketchMode(true);
+    });
+
+    it('should emit the drawn path as a sketch action on release', () => {
+      canvas.dispatchEvent(createMouseEvent('mousedown', 10, 10));
+      canvas.dispatchEvent(createMouseEvent('mousemove', 20, 15));
+      canvas.dispatchEvent(createMouseEvent('mousemove', 30, 25));
+      expect(interaction.getSketchPath()).toHaveLength(3);
+
+      canvas.dispatchEvent(createMouseEvent('mouseup', 30, 25));
+
+      expect(onUpdate).toHaveBeenLastCalledWith({
+        type: 'sketch',
+        point: { x: 10, y: 10 },
+        path: [
+          { x: 10, y: 10 },
+          { x: 20, y: 15 },
+          { x: 30, y: 25 },
+        ],
+      });
+      expect(interaction.getSketchPath()).toBeNull();
+    });
+
+    it('should not add or drag points while sketching', () => {
+      interaction.setPoints([{ x: 10, y: 10 }]);
+
+      canvas.dispatchEvent(createMouseEvent('mousedown', 10, 10));
+      canvas.dispatchEvent(createMouseEvent('mousemove', 40, 40));
+      canvas.dispatchEvent(createMouseEvent('mouseup', 40, 40));
+
+      expect(interaction.getPoints()).toEqual([{ x: 10, y: 10 }]);
+      const actions = onUpdate.mock.calls.map(call => call[0]?.type).filter(Boolean);
+      expect(actions).toEqual(['sketch']);
+    });
+
+    it('should go back to editing points when turned off', () => {
+      interaction.setSketchMode(false);
+
+      canvas.dispatchEvent(createMouseEvent('mousedown', 10, 10));
+
+      expect(interaction.isSketchMode()).toBe(false);
+      expect(onUpdate).toHaveBeenCalledWith({ type: 'add', point: { x: 10, y: 10 } });
+    });
+  });
+
+  describe('mouse interactions - easing box', () => {
+    const box = { left: 100, top: 100, size: 200 };
+    const easing = [
+      { x: 100, y: 300 },
+      { x: 150, y: 280 },
+      { x: 150, y: 100 },
+      { x: 300, y: 100 },
+    ];
+
+    beforeEach(() => {
+      interaction.setPoints(easing.map(p => ({ ...p })));
+      interaction.setEasingBox(box);
+    });
+
+    it('should keep dragged handles between the left and right edges of the box', () => {
+      canvas.dispatchEvent(createMouseEvent('mousedown', 150, 280));
+      canvas.dispatchEvent(createMouseEvent('mousemove', 40, 350));
+      expect(interaction.getPoints()[1]).toEqual({ x: 100, y: 350 });
+
+      canvas.dispatchEvent(createMouseEvent('mousemove', 360, 20));
+      canvas.dispatchEvent(createMouseEvent('mouseup', 360, 20));
+
+      // Overshooting vertically is fine
+      expect(onUpdate).toHaveBeenLastCalledWith({
+        type: 'move',
+        point: { x: 300, y: 20 },
+        index: 1,
+        oldPoint: { x: 150, y: 280 },
+      });
+    });
+
+    it('should keep the end points on the corners', () => {
+      canvas.dispatchEvent(createMouseEvent('mousedown', 100, 300));
+      canvas.dispatchEvent(createMouseEvent('mousemove', 120, 320));
+      canvas.dispatchEvent(createMouseEvent('mouseup', 120, 320));
+
+      expect(interaction.getPoints()).toEqual(easing);
+      expect(onUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should not add, remove, weight or sketch points', () => {
+      interaction.setSketchMode(true);
+      canvas.dispatchEvent(createMouseEvent('mousedown', 500, 500));
+      canvas.dispatchEvent(createMouseEvent('mouseup', 500, 500));
+      canvas.dispatchEvent(createMouseEvent('contextmenu', 150, 100));
+      canvas.dispatchEvent(createMouseEvent('dblclick', 150, 100));
+      canvas.dispatchEvent(new WheelEvent('wheel', { clientX: 150, clientY: 100, deltaY: -1 }));
+
+      expect(interaction.getPoints()).toEqual(easing);
+      expect(onUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should edit freely again once the box is cleared', () => {
+      interaction.setEasingBox(null);
+
+      canvas.dispatchEvent(createMouseEvent('mousedown', 500, 500));
+
+      expect(interaction.getEasingBox()).toBeNull();
+      expect(onUpdate).toHaveBeenCalledWith({ type: 'add', point: { x: 500, y: 500 } });
+    });
+  });
+
   describe('destroy', () => {
     it('should remove event listeners', () => {
       const removeEventListenerSpy = vi.spyOn(canvas, 'removeEventListener');
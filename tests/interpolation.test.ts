@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import {
+  appendKnot,
+  constrainInterpolatingDrag,
+  getKnots,
+  getOwningKnot,
+  interpolateKnots,
+  isKnot,
+  removeKnot,
+  resetHandles,
+} from '../src/interpolation';
+import { evaluateCurve } from '../src/spline';
+import { BezierCurve, Point } from '../src/types';
+
+const knots: Point[] = [
+  { x: 0, y: 0 },
+  { x: 60, y: 60 },
+  { x: 120, y: 0 },
+  { x: 180, y: 60 },
+];
+
+const interpolating = (points: Point[]): BezierCurve => ({
+  id: 'c1',
+  color: '#4a9eff',
+  kind: 'interpolating',
+  points,
+});
+
+describe('interpolation', () => {
+  describe('knot indices', () => {
+    it('should place knots every third point with handles in between', () => {
+      expect([0, 1, 2, 3, 4, 5, 6].map(isKnot)).toEqual([
+        true,
+        false,
+        false,
+        true,
+        false,
+        false,
+        true,
+      ]);
+      expect([0, 1, 2, 3, 4, 5, 6].map(getOwningKnot)).toEqual([0, 0, 1, 1, 1, 2, 2]);
+    });
+  });
+
+  describe('interpolateKnots', () => {
+    it('should build a cubic chain that passes through every knot', () => {
+      const points = interpolateKnots(knots);
+      const curve = interpolating(points);
+
+      expect(points).toHaveLength(10);
+      expect(getKnots(points)).toEqual(knots);
+      knots.forEach((knot, i) => {
+        const point = evaluateCurve(curve, i / (knots.length - 1))!;
+        expect(point.x).toBeCloseTo(knot.x, 9);
+        expect(point.y).toBeCloseTo(knot.y, 9);
+      });
+    });
+
+    it('should use Catmull-Rom handles', () => {
+      const points = interpolateKnots(knots);
+
+      // Interior knot 1: (knot 2 - knot 0) / 6 on either side
+      expect(points[2]).toEqual({ x: 40, y: 60 });
+      expect(points[4]).toEqual({ x: 80, y: 60 });
+      // End knots: a third of the way to their neighbour
+      expect(points[1]).toEqual({ x: 20, y: 20 });
+      expect(points[8]).toEqual({ x: 160, y: 40 });
+    });
+
+    it('should handle a single knot and no knots', () => {
+      expect(interpolateKnots([{ x: 5, y: 5 }])).toEqual([{ x: 5, y: 5 }]);
+      expect(interpolateKnots([])).toEqual([]);
+    });
+  });
+
+  describe('appendKnot', () => {
+    it('should start a curve from the first knot', () => {
+      expect(appendKnot([], { x: 5, y: 5 })).toEqual([{ x: 5, y: 5 }]);
+    });
+
+    it('should give the same chain as interpolating all knots at once', () => {
+      let points: Point[] = [];
+      knots.forEach(knot => {
+        points = appendKnot(points, knot);
+      });
+
+      expect(points).toEqual(interpolateKnots(knots));
+    });
+
+    it('should keep handles the user moved', () => {
+      const points = interpolateKnots(knots.slice(0, 3));
+      points[1] = { x: 0, y: 40 };
+
+      const appended = appendKnot(points, knots[3]);
+
+      expect(appended[1]).toEqual({ x: 0, y: 40 });
+      expect(appended.slice(3)).toEqual(interpolateKnots(knots).slice(3));
+    });
+
+    it('should mirror a moved handle of the old last knot', () => {
+      const points = interpolateKnots(knots.slice(0, 2));
+      points[2] = { x: 60, y: 30 };
+
+      const appended = appendKnot(points, knots[2]);
+
+      expect(appended[2]).toEqual({ x: 60, y: 30 });
+      expect(appended[4]).toEqual({ x: 60, y: 90 });
+    });
+  });
+
+  describe('removeKnot', () => {
+    it('should re-derive the handles of the remaining knots', () => {
+      const points = removeKnot(interpolateKnots(knots), 1);
+
+      expect(points).toEqual(interpolateKnots([knots[0], knots[2], knots[3]]));
+    });
+
+    it('should remove the last knot', () => {
+      expect(removeKnot(interpolateKnots(knots), 3)).toEqual(interpolateKnots(knots.slice(0, 3)));
+    });
+  });
+
+  describe('resetHandles', () => {
+    it('should put a knot handles back where they are derived', () => {
+      const points = interpolateKnots(knots);
+      points[2] = { x: 10, y: 10 };
+      points[4] = { x: 90, y: 90 };
+
+      expect(resetHandles(points, 1)).toEqual(interpolateKnots(knots));
+    });
+  });
+
+  describe('constrainInterpolatingDrag', () => {
+    it('should re-derive the handles around a dragged knot', () => {
+      const points = interpolateKnots(knots);
+      const curve = interpolating(points);
+      const previous = points[3];
+      points[3] = { x: 60, y: 100 };
+
+      constrainInterpolatingDrag(curve, points, 3, previous);
+
+      expect(points).toEqual(interpolateKnots([knots[0], { x: 60, y: 100 }, knots[2], knots[3]]));
+    });
+
+    it('should carry moved handles along with their knot', () => {
+      const points = interpolateKnots(knots);
+      points[2] = { x: 30, y: 60 };
+      points[4] = { x: 90, y: 60 };
+      const curve = interpolating(points);
+      const previous = points[3];
+      points[3] = { x: 60, y: 70 };
+
+      constrainInterpolatingDrag(curve, points, 3, previous);
+
+      expect(points[2]).toEqual({ x: 30, y: 70 });
+      expect(points[4]).toEqual({ x: 90, y: 70 });
+    });
+
+    it('should keep a knot smooth when one of its handles is dragged', () => {
+      const points = interpolateKnots(knots);
+      const curve = interpolating(points);
+      const previous = points[2];
+      points[2] = { x: 60, y: 30 };
+
+      constrainInterpolatingDrag(curve, points, 2, previous);
+
+      // The opposite handle turns to stay colinear and keeps its length
+      expect(points[4].x).toBeCloseTo(60, 9);
+      expect(points[4].y).toBeCloseTo(80, 9);
+    });
+  });
+});
@@ -0,0 +1,225 @@
+import { describe, it, expect } from 'vitest';
+import {
+  intersectBeziers,
+  findSelfIntersections,
+  findCurveIntersections,
+} from '../src/intersection';
+import { evaluateBezier, splitBezier } from '../src/bezier';
+import { BezierCurve, Point } from '../src/types';
+
+const arch: Point[] = [
+  { x: 0, y: 0 },
+  { x: 0, y: 100 },
+  { x: 100, y: 100 },
+  { x: 100, y: 0 },
+];
+
+// Cubic whose handles cross over, forming a loop
+const loop: Point[] = [
+  { x: 0, y: 0 },
+  { x: 200, y: 100 },
+  { x: -100, y: 100 },
+  { x: 100, y: 0 },
+];
+
+describe('intersection', () => {
+  describe('intersectBeziers', () => {
+    it('should intersect two straight lines', () => {
+      const hits = intersectBeziers(
+        [
+          { x: 0, y: 0 },
+          { x: 100, y: 100 },
+        ],
+        [
+          { x: 0, y: 100 },
+          { x: 100, y: 0 },
+        ]
+      );
+      expect(hits).toHaveLength(1);
+      expect(hits[0].t1).toBeCloseTo(0.5, 10);
+      expect(hits[0].t2).toBeCloseTo(0.5, 10);
+      expect(hits[0].point.x).toBeCloseTo(50, 10);
+    });
+
+    it('should find both crossings of a line through an arch', () => {
+      const line: Point[] = [
+        { x: -50, y: 50 },
+        { x: 150, y: 50 },
+      ];
+      const hits = intersectBeziers(arch, line);
+      expect(hits).toHaveLength(2);
+
+      hits.forEach(hit => {
+        const onArch = evaluateBezier(arch, hit.t1);
+        const onLine = evaluateBezier(line, hit.t2);
+        expect(onArch.y).toBeCloseTo(50, 2);
+        expect(Math.hypot(onArch.x - onLine.x, onArch.y - onLine.y)).toBeLessThan(0.05);
+      });
+      expect(hits[0].t1).toBeLessThan(hits[1].t1);
+    });
+
+    it('should return nothing for curves that do not meet', () => {
+      const below: Point[] = [
+        { x: 0, y: 200 },
+        { x: 50, y: 300 },
+        { x: 100, y: 200 },
+      ];
+      expect(intersectBeziers(arch, below)).toEqual([]);
+    });
+
+    it('should ignore curves with fewer than 2 points', () => {
+      expect(intersectBeziers(arch, [{ x: 50, y: 75 }])).toEqual([]);
+    });
+  });
+
+  describe('findSelfIntersections', () => {
+    it('should find the crossing of a looped cubic', () => {
+      const hits = findSelfIntersections(loop);
+      expect(hits).toHaveLength(1);
+      expect(hits[0].t1).toBeLessThan(hits[0].t2);
+
+      const a = evaluateBezier(loop, hits[0].t1);
+      const b = evaluateBezier(loop, hits[0].t2);
+      expect(Math.hypot(a.x - b.x, a.y - b.y)).toBeLessThan(0.05);
+      expect(hits[0].point.x).toBeCloseTo(50, 1);
+    });
+
+    it('should not report curves without a loop', () => {
+      expect(findSelfIntersections(arch)).toEqual([]);
+    });
+
+    it('should not report a closed curve meeting itself at its ends', () => {
+      const closed: Point[] = [
+        { x: 0, y: 0 },
+        { x: 100, y: 100 },
+        { x: -100, y: 100 },
+        { x: 0, y: 0 },
+      ];
+      expect(findSelfIntersections(closed)).toEqual([]);
+    });
+  });
+
+  describe('findCurveIntersections', () => {
+    const curve = (id: string, points: Point[], overrides: Partial<BezierCurve> = {}) => ({
+      id,
+      color: '#4a9eff',
+      points,
+      ...overrides,
+    });
+
+    it('should report crossings between curves with both curve ids', () => {
+      const hits = findCurveIntersections([
+        curve('a', arch),
+        curve('b', [
+          { x: -50, y: 50 },
+          { x: 150, y: 50 },
+        ]),
+      ]);
+      expect(hits).toHaveLength(2);
+      expect(hits.every(h => h.curveId1 === 'a' && h.curveId2 === 'b')).toBe(true);
+    });
+
+    it('should report self-intersections with the same curve id twice', () => {
+      const hits = findCurveIntersections([curve('a', loop)]);
+      expect(hits).toHaveLength(1);
+      expect(hits[0].curveId1).toBe('a');
+      expect(hits[0].curveId2).toBe('a');
+    });
+
+    it('should find crossings between segments of one spline', () => {
+      // Second segment swings back across the first
+      const spline = curve(
+        's',
+        [
+          { x: 0, y: 0 },
+          { x: 33, y: 0 },
+          { x: 66, y: 0 },
+          { x: 100, y: 0 },
+          { x: 100, y: 100 },
+          { x: 50, y: 100 },
+          { x: 50, y: -50 },
+        ],
+        { kind: 'spline', segmentDegree: 3 }
+      );
+      const hits = findCurveIntersections([spline]);
+      expect(hits).toHaveLength(1);
+      expect(hits[0].t1).toBeLessThan(0.5);
+      expect(hits[0].t2).toBeGreaterThan(0.5);
+    });
+
+    it('should not report curves joined end to end', () => {
+      const [left, right] = splitBezier(arch, 0.5);
+      const hits = findCurveIntersections([
+        curve('left', left),
+        curve('right', right),
+        // Starts where the arch ends and turns back over it
+        curve('hook', [
+          { x: 100, y: 0 },
+          { x: 150, y: 0 },
+          { x: 150, y: 60 },
+          { x: 50, y: 60 },
+        ]),
+      ]);
+
+      // Only the hook crossing back over the right half remains
+      expect(hits).toHaveLength(1);
+      expect(hits[0].curveId1).toBe('right');
+      expect(hits[0].curveId2).toBe('hook');
+      expect(hits[0].t1).toBeGreaterThan(0);
+      expect(hits[0].t1).toBeLessThan(1);
+    });
+
+    it('should not report crossings between identical curves', () => {
+      expect(findCurveIntersections([curve('a', arch), curve('b', arch)])).toEqual([]);
+      expect(findCurveIntersections([curve('a', arch), curve('b', [...arch].reverse())])).toEqual(
+        []
+      );
+    });
+
+    it('should not report crossings along a stretch two curves share', () => {
+      const [start] = splitBezier(arch, 0.6);
+      const line = curve('line', [
+        { x: -50, y: 50 },
+        { x: 150, y: 50 },
+      ]);
+
+      const hits = findCurveIntersections([curve('a', arch), curve('b', start), line]);
+
+      // The line still crosses both sides of the arch and the one side of its start
+      expect(hits.filter(h => h.curveId1 === 'a' && h.curveId2 === 'b')).toEqual([]);
+      expect(hits.filter(h => h.curveId1 === 'a' && h.curveId2 === 'line')).toHaveLength(2);
+      expect(hits.filter(h => h.curveId1 === 'b' && h.curveId2 === 'line')).toHaveLength(1);
+    });
+
+    it('should keep crossings where one curve ends on the other', () => {
+      const hits = findCurveIntersections([
+        curve('a', arch),
+        curve('b', [
+          { x: 50, y: 0 },
+          { x: 50, y: 75 },
+        ]),
+      ]);
+
+      expect(hits).toHaveLength(1);
+      expect(hits[0].t1).toBeCloseTo(0.5);
+      expect(hits[0].t2).toBeCloseTo(1);
+    });
+
+    it('should not report the joints of a spline', () => {
+      const spline = curve(
+        's',
+        [
+          { x: 0, y: 0 },
+          { x: 30, y: 50 },
+          { x: 70, y: 50 },
+          { x: 100, y: 0 },
+          { x: 130, y: -50 },
+          { x: 170, y: -50 },
+          { x: 200, y: 0 },
+        ],
+        { kind: 'spline', segmentDegree: 3 }
+      );
+      expect(findCurveIntersections([spline])).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { CodeExportManager } from '../../src/managers/CodeExportManager';
+import { CurveManager } from '../../src/managers/CurveManager';
+import { NotificationManager } from '../../src/managers/NotificationManager';
+import { generateCanvasCode, generateTikZCode } from '../../src/codegen';
+
+describe('CodeExportManager', () => {
+  let codeExportManager: CodeExportManager;
+  let curveManager: CurveManager;
+  let notificationManager: NotificationManager;
+
+  const getDialog = () => document.getElementById('code-export-dialog')!;
+  const getOutput = () => document.getElementById('code-output') as HTMLTextAreaElement;
+  const getFormatSelect = () => document.getElementById('code-format') as HTMLSelectElement;
+
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <button id="export-code"></button>
+      <div id="code-export-dialog">
+        <div class="dialog">
+          <select id="code-format"></select>
+          <textarea id="code-output" readonly></textarea>
+          <button id="code-copy"></button>
+          <button id="code-close"></button>
+        </div>
+      </div>
+    `;
+
+    curveManager = new CurveManager();
+    curveManager.setActiveCurvePoints([
+      { x: 0, y: 100 },
+      { x: 25, y: 90 },
+      { x: 25, y: 0 },
+      { x: 100, y: 0 },
+    ]);
+    notificationManager = new NotificationManager();
+    vi.spyOn(notificationManager, 'showNotification').mockImplementation(() => {});
+    codeExportManager = new CodeExportManager(curveManager, notificationManager);
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+    vi.restoreAllMocks();
+  });
+
+  it('should list every format, starting with Canvas', () => {
+    const options = Array.from(getFormatSelect().options).map(option => option.value);
+
+    expect(options).toEqual(['canvas', 'typescript', 'css', 'matplotlib', 'tikz']);
+    expect(getFormatSelect().value).toBe('canvas');
+  });
+
+  it('should open with the code for the current curves', () => {
+    document.getElementById('export-code')!.click();
+
+    expect(codeExportManager.isOpen()).toBe(true);
+    expect(getOutput().value).toBe(generateCanvasCode(curveManager.getAllCurves()));
+    expect(getOutput().value).toContain('ctx.bezierCurveTo(25, 90, 25, 0, 100, 0);');
+  });
+
+  it('should regenerate the code when the format changes', () => {
+    codeExportManager.open();
+    getFormatSelect().value = 'tikz';
+    getFormatSelect().dispatchEvent(new Event('change'));
+
+    expect(getOutput().value).toBe(generateTikZCode(curveManager.getAllCurves()));
+  });
+
+  it('should pick up curves changed since it was last opened', () => {
+    codeExportManager.open();
+    codeExportManager.close();
+    curveManager.addCurve();
+    curveManager.setActiveCurvePoints([
+      { x: 0, y: 0 },
+      { x: 50, y: 50 },
+    ]);
+    codeExportManager.open();
+
+    expect(getOutput().value).toContain('// Curve 2');
+  });
+
+  it('should close from the close button, the backdrop and Escape', () => {
+    codeExportManager.open();
+    document.getElementById('code-close')!.click();
+    expect(codeExportManager.isOpen()).toBe(false);
+
+    codeExportManager.open();
+    getDialog().click();
+    expect(codeExportManager.isOpen()).toBe(false);
+
+    codeExportManager.open();
+    document.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }));
+    expect(codeExportManager.isOpen()).toBe(false);
+  });
+
+  it('should stay open when clicking inside the dialog', () => {
+    codeExportManager.open();
+    getOutput().click();
+
+    expect(codeExportManager.isOpen()).toBe(true);
+  });
+
+  describe('copyToClipboard', () => {
+    const mockClipboard = (writeText: ReturnType<typeof vi.fn>) => {
+      Object.defineProperty(navigator, 'clipboard', {
+        value: { writeText },
+        configurable: true,
+      });
+    };
+
+    it('should copy the code and confirm it', async () => {
+      const writeText = vi.fn(() => Promise.resolve());
+      mockClipboard(writeText);
+      codeExportManager.setFormat('css');
+
+      expect(await codeExportManager.copyToClipboard()).toBe(true);
+      expect(writeText).toHaveBeenCalledWith(
+        '.curve-1 {\n  transition-timing-function: cubic-bezier(0.25, 0.1, 0.25, 1);\n}'
+      );
+      expect(notificationManager.showNotification).toHaveBeenCalledWith(
+        'Copied to clipboard',
+        'success'
+      );
+    });
+
+    it('should report when the clipboard refuses', async () => {
+      mockClipboard(vi.fn(() => Promise.reject(new Error('Not allowed'))));
+
+      expect(await codeExportManager.copyToClipboard()).toBe(false);
+      expect(notificationManager.showNotification).toHaveBeenCalledWith(
+        'Could not copy to clipboard',
+        'error'
+      );
+    });
+  });
+});
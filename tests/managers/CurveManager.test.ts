@@ -1,5 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { CurveManager } from '../../src/managers/CurveManager';
+import { evaluateBezier } from '../../src/bezier';
+import { projectOntoCurve } from '../../src/spline';
 import { Point } from '../../src/types';
 
 describe('CurveManager', () => {
@@ -194,6 +196,56 @@ describe('CurveManager', () => {
       expect(found2).toBe(curveId);
     });
 
+    it('should hit a curve between far-apart samples with a tight threshold', () => {
+      curveManager.setActiveCurvePoints([
+        { x: 0, y: 0 },
+        { x: 1000, y: 0 },
+      ]);
+
+      expect(curveManager.findCurveAtPosition({ x: 437, y: 1 }, 2)).toBe(
+        curveManager.getActiveCurve()!.id
+      );
+    });
+
+    it('should follow a curve rather than its control polygon', () => {
+      curveManager.setActiveCurvePoints([
+        { x: 0, y: 0 },
+        { x: 0, y: 200 },
+        { x: 200, y: 200 },
+        { x: 200, y: 0 },
+      ]);
+      const curveId = curveManager.getActiveCurve()!.id;
+
+      // The apex of the arch is at (100, 150)
+      expect(curveManager.findCurveAtPosition({ x: 100, y: 152 }, 5)).toBe(curveId);
+      expect(curveManager.findCurveAtPosition({ x: 100, y: 195 }, 5)).toBeNull();
+    });
+
+    it('should agree with the exact distance to the curve just around the threshold', () => {
+      // A hairpin 3px wide, whose turn is far sharper than the sample spacing
+      const hairpin: Point[] = [
+        { x: 0, y: 0 },
+        { x: 400, y: 0 },
+        { x: 400, y: 3 },
+        { x: 0, y: 3 },
+      ];
+      curveManager.setActiveCurvePoints(hairpin);
+      const curve = curveManager.getActiveCurve()!;
+
+      // Positions either side of the curve, just inside and just outside the threshold
+      for (let t = 0.005; t < 1; t += 0.005) {
+        const p = evaluateBezier(hairpin, t);
+        const q = evaluateBezier(hairpin, t + 1e-6);
+        const length = Math.hypot(q.x - p.x, q.y - p.y);
+        const normal = { x: (p.y - q.y) / length, y: (q.x - p.x) / length };
+        for (const offset of [-1.05, -0.95, 0.95, 1.05]) {
+          const pos = { x: p.x + normal.x * offset, y: p.y + normal.y * offset };
+          const near = projectOntoCurve(curve, pos)!.distance < 1;
+          expect(curveManager.findCurveAtPosition(pos, 1) === curve.id).toBe(near);
+        }
+      }
+    });
+
     it('should skip curves with less than 2 points', () => {
       const singlePoint: Point[] = [{ x: 100, y: 100 }];
       curveManager.setActiveCurvePoints(singlePoint);
@@ -203,6 +255,73 @@ describe('CurveManager', () => {
     });
   });
 
+  describe('findCurveParameterAt', () => {
+    it('should return the curve and the t of the closest point', () => {
+      curveManager.setActiveCurvePoints([
+        { x: 100, y: 100 },
+        { x: 200, y: 200 },
+      ]);
+      const curveId = curveManager.getActiveCurve()?.id;
+
+      const hit = curveManager.findCurveParameterAt({ x: 126, y: 124 });
+      expect(hit?.curveId).toBe(curveId);
+      expect(hit?.t).toBeCloseTo(0.25);
+    });
+
+    it('should return null away from all curves', () => {
+      curveManager.setActiveCurvePoints([
+        { x: 100, y: 100 },
+        { x: 200, y: 200 },
+      ]);
+
+      expect(curveManager.findCurveParameterAt({ x: 500, y: 100 })).toBeNull();
+    });
+  });
+
+  describe('findIntersections', () => {
+    beforeEach(() => {
+      curveManager.setActiveCurvePoints([
+        { x: 0, y: 0 },
+        { x: 100, y: 100 },
+      ]);
+      curveManager.addCurve();
+      curveManager.setActiveCurvePoints([
+        { x: 0, y: 100 },
+        { x: 100, y: 0 },
+      ]);
+    });
+
+    it('should find crossings between curves', () => {
+      const [first, second] = curveManager.getAllCurves();
+      const intersections = curveManager.findIntersections();
+
+      expect(intersections).toHaveLength(1);
+      expect(intersections[0].curveId1).toBe(first.id);
+      expect(intersections[0].curveId2).toBe(second.id);
+      expect(intersections[0].point.x).toBeCloseTo(50, 6);
+    });
+
+    it('should reuse the result until a curve changes', () => {
+      const intersections = curveManager.findIntersections();
+      expect(curveManager.findIntersections()).toBe(intersections);
+
+      curveManager.setActiveCurvePoints([
+        { x: 0, y: 100 },
+        { x: 100, y: 50 },
+      ]);
+      expect(curveManager.findIntersections()).not.toBe(intersections);
+    });
+
+    it('should return the t of a nearby crossing on the given curve', () => {
+      const [first] = curveManager.getAllCurves();
+      expect(curveManager.findIntersectionNear({ x: 53, y: 50 }, first.id, 0.6)).toBeCloseTo(
+        0.5,
+        6
+      );
+      expect(curveManager.findIntersectionNear({ x: 80, y: 50 }, first.id, 0.6)).toBeNull();
+    });
+  });
+
   describe('toJSON and fromJSON', () => {
     it('should serialize curves to JSON', () => {
       const points: Point[] = [
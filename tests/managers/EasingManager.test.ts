@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { EasingManager } from '../../src/managers/EasingManager';
+import { CurveManager } from '../../src/managers/CurveManager';
+import { NotificationManager } from '../../src/managers/NotificationManager';
+import { StateManager } from '../../src/managers/StateManager';
+import { InteractionManager } from '../../src/interaction';
+import { HistoryManager } from '../../src/history';
+import { getEasingPoints } from '../../src/easing';
+
+describe('EasingManager', () => {
+  let easingManager: EasingManager;
+  let curveManager: CurveManager;
+  let history: HistoryManager;
+  let stateManager: StateManager;
+  let notificationManager: NotificationManager;
+  let callbacks: {
+    onEasingModeChange: ReturnType<typeof vi.fn>;
+    onRender: ReturnType<typeof vi.fn>;
+  };
+
+  // The canvas is 800 x 600, so the box is 300 pixels wide from (250, 150)
+  const box = { left: 250, top: 150, size: 300 };
+
+  const getPresetSelect = () => document.getElementById('easing-preset') as HTMLSelectElement;
+  const getValueLabel = () => document.getElementById('easing-value')!;
+
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <canvas id="canvas"></canvas>
+      <button id="easing"></button>
+      <div id="easing-panel">
+        <select id="easing-preset"></select>
+        <button id="easing-preview"></button>
+        <button id="easing-copy"></button>
+        <code id="easing-value"></code>
+        <div id="easing-track"><div id="easing-sample"></div></div>
+      </div>
+    `;
+    const canvas = document.getElementById('canvas') as HTMLCanvasElement;
+    Object.defineProperty(canvas, 'clientWidth', { value: 800 });
+    Object.defineProperty(canvas, 'clientHeight', { value: 600 });
+
+    curveManager = new CurveManager();
+    history = new HistoryManager({ curves: curveManager.getAllCurves() });
+    const interaction = new InteractionManager(canvas, () => {});
+    stateManager = new StateManager(curveManager, interaction, history, {
+      onRender: vi.fn(),
+      onUpdateCurveSelector: vi.fn(),
+    });
+    notificationManager = new NotificationManager();
+    vi.spyOn(notificationManager, 'showNotification').mockImplementation(() => {});
+    callbacks = {
+      onEasingModeChange: vi.fn(),
+      onRender: vi.fn(),
+    };
+    easingManager = new EasingManager(
+      curveManager,
+      history,
+      stateManager,
+      notificationManager,
+      callbacks
+    );
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+    vi.restoreAllMocks();
+  });
+
+  describe('enable and disable', () => {
+    it('should lay out the box and start the active curve as ease', () => {
+      document.getElementById('easing')!.click();
+
+      expect(easingManager.isEnabled()).toBe(true);
+      expect(callbacks.onEasingModeChange).toHaveBeenCalledWith(box);
+      expect(curveManager.getActiveCurvePoints()).toEqual(
+        getEasingPoints([0.25, 0.1, 0.25, 1], box)
+      );
+      expect(easingManager.getCubicBezier()).toBe('cubic-bezier(0.25, 0.1, 0.25, 1)');
+      expect(document.getElementById('easing-panel')!.classList.contains('open')).toBe(true);
+    });
+
+    it('should keep the timing function of a curve drawn elsewhere', () => {
+      curveManager.setActiveCurvePoints([
+        { x: 0, y: 100 },
+        { x: 42, y: 100 },
+        { x: 58, y: 0 },
+        { x: 100, y: 0 },
+      ]);
+
+      easingManager.enable();
+
+      expect(easingManager.getCubicBezier()).toBe('cubic-bezier(0.42, 0, 0.58, 1)');
+      expect(getPresetSelect().value).toBe('ease-in-out');
+    });
+
+    it('should undo the conversion in one step', () => {
+      easingManager.enable();
+      history.undo();
+
+      expect(curveManager.getActiveCurvePoints()).toEqual([]);
+    });
+
+    it('should leave a curve that already fits the box alone', () => {
+      curveManager.setActiveCurvePoints(getEasingPoints([0, 0, 0.58, 1], box));
+
+      easingManager.enable();
+
+      expect(history.canUndo()).toBe(false);
+      expect(getValueLabel().textContent).toBe('cubic-bezier(0, 0, 0.58, 1)');
+    });
+
+    it('should turn off with a second click', () => {
+      const easingBtn = document.getElementById('easing')!;
+      easingBtn.click();
+      easingBtn.click();
+
+      expect(easingManager.isEnabled()).toBe(false);
+      expect(callbacks.onEasingModeChange).toHaveBeenLastCalledWith(null);
+      expect(easingBtn.classList.contains('active')).toBe(false);
+    });
+  });
+
+  describe('presets', () => {
+    beforeEach(() => {
+      easingManager.enable();
+    });
+
+    it('should list the presets after a custom entry', () => {
+      const options = Array.from(getPresetSelect().options).map(option => option.value);
+
+      expect(options).toEqual(['custom', 'linear', 'ease', 'ease-in', 'ease-out', 'ease-in-out']);
+    });
+
+    it('should apply the chosen preset as an undoable step', () => {
+      getPresetSelect().value = 'ease-out';
+      getPresetSelect().dispatchEvent(new Event('change'));
+
+      expect(easingManager.getValues()).toEqual([0, 0, 0.58, 1]);
+      expect(callbacks.onRender).toHaveBeenCalled();
+
+      history.undo();
+      easingManager.update();
+
+      expect(getPresetSelect().value).toBe('ease');
+    });
+
+    it('should show custom values once a handle moves', () => {
+      const points = curveManager.getActiveCurvePoints();
+      points[1] = { x: points[1].x + 30, y: points[1].y };
+      easingManager.update();
+
+      expect(getPresetSelect().value).toBe('custom');
+      expect(getValueLabel().textContent).toBe('cubic-bezier(0.35, 0.1, 0.25, 1)');
+    });
+
+    it('should explain what to do when the active curve is not an easing curve', () => {
+      curveManager.addCurve();
+      easingManager.update();
+
+      expect(easingManager.getValues()).toBeNull();
+      expect(getValueLabel().textContent).toContain('Pick a preset');
+      expect((document.getElementById('easing-copy') as HTMLButtonElement).disabled).toBe(true);
+    });
+  });
+
+  describe('preview', () => {
+    it('should animate the sample with the cubic-bezier()', () => {
+      const sample = document.getElementById('easing-sample')!;
+      sample.animate = vi.fn() as unknown as typeof sample.animate;
+      easingManager.enable();
+
+      document.getElementById('easing-preview')!.click();
+
+      expect(sample.animate).toHaveBeenCalledWith(
+        expect.any(Array),
+        expect.objectContaining({ easing: 'cubic-bezier(0.25, 0.1, 0.25, 1)' })
+      );
+    });
+
+    it('should do nothing without an easing curve', () => {
+      expect(easingManager.preview()).toBe(false);
+    });
+  });
+
+  describe('copyToClipboard', () => {
+    it('should copy the cubic-bezier()', async () => {
+      const writeText = vi.fn(() => Promise.resolve());
+      Object.defineProperty(navigator, 'clipboard', {
+        value: { writeText },
+        configurable: true,
+      });
+      easingManager.enable();
+      easingManager.applyPreset('linear');
+
+      expect(await easingManager.copyToClipboard()).toBe(true);
+      expect(writeText).toHaveBeenCalledWith('cubic-bezier(0, 0, 1, 1)');
+      expect(notificationManager.showNotification).toHaveBeenCalledWith(
+        'Copied to clipboard',
+        'success'
+      );
+    });
+  });
+});
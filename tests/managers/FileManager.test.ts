@@ -3,6 +3,7 @@ import { FileManager } from '../../src/managers/FileManager';
 import { CurveManager } from '../../src/managers/CurveManager';
 import { InteractionManager } from '../../src/interaction';
 import { HistoryManager, LoadCurvesCommand } from '../../src/history';
+import { Renderer } from '../../src/renderer';
 
 const createMockCanvas = (): HTMLCanvasElement => {
   const canvas = document.createElement('canvas');
@@ -21,6 +22,11 @@ describe('FileManager', () => {
     onCurvesLoaded: ReturnType<typeof vi.fn>;
     onRender: ReturnType<typeof vi.fn>;
     onUpdateCurveSelector: ReturnType<typeof vi.fn>;
+    onRenderScene: ReturnType<typeof vi.fn>;
+    onGetVisualization: ReturnType<typeof vi.fn>;
+    onGetViewSettings: ReturnType<typeof vi.fn>;
+    onApplyViewSettings: ReturnType<typeof vi.fn>;
+    onShowNotification: ReturnType<typeof vi.fn>;
   };
 
   beforeEach(() => {
@@ -35,6 +41,16 @@ describe('FileManager', () => {
       onCurvesLoaded: vi.fn(),
       onRender: vi.fn(),
       onUpdateCurveSelector: vi.fn(),
+      onRenderScene: vi.fn(),
+      onGetVisualization: vi.fn(() => ({ mode: 'decasteljau', t: 0.5 })),
+      onGetViewSettings: vi.fn(() => ({
+        visualizationMode: 'tslider',
+        t: 0.3,
+        showBounds: true,
+        showBasis: false,
+      })),
+      onApplyViewSettings: vi.fn(),
+      onShowNotification: vi.fn(),
     };
 
     // Mock URL.createObjectURL and revokeObjectURL
@@ -57,7 +73,7 @@ describe('FileManager', () => {
       return element;
     });
 
-    fileManager = new FileManager(curveManager, interaction, canvas, history, callbacks);
+    fileManager = new FileManager(curveManager, interaction, history, callbacks);
   });
 
   afterEach(() => {
@@ -78,7 +94,7 @@ describe('FileManager', () => {
       expect(global.URL.revokeObjectURL).toHaveBeenCalledWith('blob:mock-url');
     });
 
-    it('should use correct canvas dimensions in SVG', () => {
+    it('should size the SVG to the curve bounds', async () => {
       const createObjectURLSpy = vi.spyOn(global.URL, 'createObjectURL');
 
       curveManager.setActiveCurvePoints([
@@ -93,6 +109,86 @@ describe('FileManager', () => {
 
       const blobCall = createObjectURLSpy.mock.calls[0][0] as Blob;
       expect(blobCall.type).toBe('image/svg+xml');
+      const svg = await blobCall.text();
+      expect(svg).toContain('width="120"');
+      expect(svg).toContain('viewBox="-10 -10 120 120"');
+    });
+
+    it('should export a filled stroke outline when given a stroke style', async () => {
+      const createObjectURLSpy = vi.spyOn(global.URL, 'createObjectURL');
+
+      curveManager.setActiveCurvePoints([
+        { x: 0, y: 0 },
+        { x: 100, y: 0 },
+      ]);
+
+      expect(fileManager.exportStrokeOutline({ width: 20, join: 'round', cap: 'square' })).toBe(
+        true
+      );
+
+      const svg = await (createObjectURLSpy.mock.calls[0][0] as Blob).text();
+      expect(svg).toContain(`fill="${curveManager.getActiveCurve()!.color}"`);
+      expect(svg).not.toContain('stroke-width');
+      expect(svg).toContain('viewBox="-20 -20 140 40"');
+    });
+
+    it('should export a high-degree curve as cubics and report the error', async () => {
+      const createObjectURLSpy = vi.spyOn(global.URL, 'createObjectURL');
+
+      curveManager.setActiveCurvePoints(
+        Array.from({ length: 8 }, (_, i) => ({ x: i * 50, y: i % 2 === 0 ? 0 : 200 }))
+      );
+
+      const error = fileManager.exportToSVG({ tolerance: 0.2 });
+
+      const svg = await (createObjectURLSpy.mock.calls[0][0] as Blob).text();
+      expect(svg).toContain(' C ');
+      expect(svg).not.toContain(' L ');
+      expect(error).toBeGreaterThan(0);
+      expect(error).toBeLessThanOrEqual(0.2);
+    });
+
+    it('should not download an outline without a curve to stroke', () => {
+      curveManager.setActiveCurvePoints([{ x: 0, y: 0 }]);
+
+      expect(fileManager.exportStrokeOutline({ width: 20, join: 'round', cap: 'round' })).toBe(
+        false
+      );
+      expect(global.URL.createObjectURL).not.toHaveBeenCalled();
+    });
+
+    it('should report no error for cubics', () => {
+      curveManager.setActiveCurvePoints([
+        { x: 0, y: 0 },
+        { x: 30, y: 80 },
+        { x: 70, y: 80 },
+        { x: 100, y: 0 },
+      ]);
+
+      expect(fileManager.exportToSVG()).toBe(0);
+    });
+
+    it('should export every curve in its own color', async () => {
+      const createObjectURLSpy = vi.spyOn(global.URL, 'createObjectURL');
+
+      curveManager.setActiveCurvePoints([
+        { x: 0, y: 0 },
+        { x: 100, y: 100 },
+      ]);
+      curveManager.addCurve();
+      curveManager.setActiveCurvePoints([
+        { x: 200, y: 0 },
+        { x: 300, y: 100 },
+      ]);
+
+      fileManager.exportToSVG({ includeIds: true });
+
+      const svg = await (createObjectURLSpy.mock.calls[0][0] as Blob).text();
+      curveManager.getAllCurves().forEach(curve => {
+        expect(svg).toContain(`id="${curve.id}"`);
+        expect(svg).toContain(`stroke="${curve.color}"`);
+      });
+      expect(svg).toContain('viewBox="-10 -10 320 120"');
     });
 
     it('should handle empty curve', () => {
@@ -101,6 +197,159 @@ describe('FileManager', () => {
       // Should not throw
       expect(() => fileManager.exportToSVG()).not.toThrow();
     });
+
+    it('should not download anything without a curve to draw', () => {
+      curveManager.setActiveCurvePoints([{ x: 0, y: 0 }]);
+
+      expect(fileManager.exportToSVG()).toBeNull();
+      expect(global.URL.createObjectURL).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('exportToPDF', () => {
+    beforeEach(() => {
+      curveManager.setActiveCurvePoints([
+        { x: 0, y: 0 },
+        { x: 0, y: 100 },
+        { x: 100, y: 100 },
+        { x: 100, y: 0 },
+      ]);
+    });
+
+    it('should download every curve as a PDF', async () => {
+      const createObjectURLSpy = vi.spyOn(global.URL, 'createObjectURL');
+
+      expect(fileManager.exportToPDF(false)).toBe(0);
+
+      const blob = createObjectURLSpy.mock.calls[0][0] as Blob;
+      expect(blob.type).toBe('application/pdf');
+      const pdf = await blob.text();
+      expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+      expect(pdf).toContain('0 100 100 100 100 0 c');
+      expect(callbacks.onGetVisualization).not.toHaveBeenCalled();
+    });
+
+    it('should not download anything without a curve to draw', () => {
+      curveManager.setActiveCurvePoints([{ x: 0, y: 0 }]);
+
+      expect(fileManager.exportToPDF(false)).toBeNull();
+      expect(global.URL.createObjectURL).not.toHaveBeenCalled();
+    });
+
+    it('should overlay the construction of the current visualization mode', async () => {
+      const createObjectURLSpy = vi.spyOn(global.URL, 'createObjectURL');
+
+      fileManager.exportToPDF(true);
+
+      const pdf = await (createObjectURLSpy.mock.calls[0][0] as Blob).text();
+      expect(callbacks.onGetVisualization).toHaveBeenCalled();
+      // The middle level of de Casteljau's construction at t = 0.5
+      expect(pdf).toContain('0 50 m\n50 100 l\n100 50 l');
+    });
+  });
+
+  describe('exportToPNG', () => {
+    // happy-dom has no 2D context, so record the calls made on a stand-in
+    let calls: { method: string; args: unknown[] }[];
+
+    beforeEach(() => {
+      calls = [];
+      const context = new Proxy({} as Record<string, unknown>, {
+        get: (target, property: string) =>
+          property in target
+            ? target[property]
+            : (...args: unknown[]) => {
+                calls.push({ method: property, args });
+                return { width: 0 };
+              },
+      });
+      vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(
+        context as unknown as CanvasRenderingContext2D
+      );
+      vi.spyOn(HTMLCanvasElement.prototype, 'toBlob').mockImplementation(callback =>
+        callback(new Blob(['png'], { type: 'image/png' }))
+      );
+
+      const view = document.createElement('canvas');
+      view.id = 'canvas';
+      view.width = 400;
+      view.height = 300;
+      document.body.appendChild(view);
+    });
+
+    it('should render the scene offscreen at the chosen scale and download it', () => {
+      const size = fileManager.exportToPNG({ scale: 3 });
+
+      expect(size).toEqual({ width: 1200, height: 900 });
+      expect(callbacks.onRenderScene).toHaveBeenCalledWith(
+        expect.any(Renderer),
+        expect.any(HTMLCanvasElement),
+        false
+      );
+      const [, canvas] = callbacks.onRenderScene.mock.calls[0];
+      expect(canvas).not.toBe(document.getElementById('canvas'));
+      expect(global.URL.createObjectURL).toHaveBeenCalledWith(expect.any(Blob));
+    });
+
+    it('should size the image to a pixel width, keeping the view shape', () => {
+      expect(fileManager.exportToPNG({ scale: 3, width: 1000 })).toEqual({
+        width: 1000,
+        height: 750,
+      });
+    });
+
+    it('should cap the image size', () => {
+      expect(fileManager.exportToPNG({ scale: 100 })).toEqual({ width: 8192, height: 6144 });
+    });
+
+    it('should fill the background unless transparent', () => {
+      callbacks.onRenderScene.mockImplementation((renderer: Renderer) =>
+        renderer.renderMultipleCurves([], null, new Map())
+      );
+
+      fileManager.exportToPNG({ scale: 2 });
+      expect(calls).toContainEqual({ method: 'fillRect', args: [0, 0, 800, 600] });
+      expect(calls).toContainEqual({ method: 'setTransform', args: [2, 0, 0, 2, 0, 0] });
+
+      calls = [];
+      fileManager.exportToPNG({ scale: 2, transparent: true });
+      expect(calls.some(call => call.method === 'fillRect')).toBe(false);
+    });
+
+    it('should leave out control polygons when asked', () => {
+      curveManager.setActiveCurvePoints([
+        { x: 0, y: 0 },
+        { x: 50, y: 100 },
+        { x: 100, y: 0 },
+      ]);
+      callbacks.onRenderScene.mockImplementation((renderer: Renderer) =>
+        renderer.renderMultipleCurves(
+          curveManager.getAllCurves(),
+          curveManager.getActiveCurve()!.id,
+          new Map()
+        )
+      );
+      const countArcs = () => calls.filter(call => call.method === 'arc').length;
+
+      fileManager.exportToPNG();
+      expect(countArcs()).toBe(3);
+
+      calls = [];
+      fileManager.exportToPNG({ includeControlPolygons: false, includePresence: true });
+      expect(countArcs()).toBe(0);
+      expect(callbacks.onRenderScene).toHaveBeenLastCalledWith(
+        expect.any(Renderer),
+        expect.any(HTMLCanvasElement),
+        true
+      );
+    });
+
+    it('should do nothing without a canvas to copy', () => {
+      document.getElementById('canvas')!.remove();
+
+      expect(fileManager.exportToPNG()).toBeNull();
+      expect(callbacks.onRenderScene).not.toHaveBeenCalled();
+    });
   });
 
   describe('saveToJSON', () => {
@@ -130,6 +379,20 @@ describe('FileManager', () => {
       expect(blobCall.type).toBe('application/json');
     });
 
+    it('should save a versioned document with the view settings', async () => {
+      curveManager.setActiveCurvePoints([{ x: 10, y: 20 }]);
+
+      fileManager.saveToJSON();
+
+      const blob = vi.mocked(global.URL.createObjectURL).mock.calls[0][0] as Blob;
+      const data = JSON.parse(await blob.text());
+      expect(data.version).toBe(1);
+      expect(data.curves).toEqual(curveManager.getAllCurves());
+      expect(data.activeCurveId).toBe(curveManager.getActiveCurve()!.id);
+      expect(data.view).toEqual(callbacks.onGetViewSettings());
+      expect(data.metadata.generator).toBe('bezier');
+    });
+
     it('should create link with correct filename', () => {
       fileManager.saveToJSON();
 
@@ -162,6 +425,244 @@ describe('FileManager', () => {
     });
   });
 
+  describe('importSVGText', () => {
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg">
+      <path d="M 0 0 C 0 50 50 50 50 0"/>
+      <g><path d="M 100 100 l 50 0 q 25 25 0 50 Z M 300 300 h 10"/></g>
+    </svg>`;
+
+    it('should append a curve per subpath and make the first active', () => {
+      const existing = curveManager.getActiveCurve()!;
+      existing.points.push({ x: 1, y: 1 });
+
+      expect(fileManager.importSVGText(svg)).toBe(3);
+
+      const curves = curveManager.getAllCurves();
+      expect(curves).toHaveLength(4);
+      expect(curves[0]).toBe(existing);
+      expect(curves[1].points).toEqual([
+        { x: 0, y: 0 },
+        { x: 0, y: 50 },
+        { x: 50, y: 50 },
+        { x: 50, y: 0 },
+      ]);
+      expect(curves[2].kind).toBe('spline');
+      expect(curves[3].points).toEqual([
+        { x: 300, y: 300 },
+        { x: 310, y: 300 },
+      ]);
+      expect(new Set(curves.map(c => c.color)).size).toBe(4);
+      expect(curveManager.getActiveCurve()?.id).toBe(curves[1].id);
+      expect(callbacks.onCurvesLoaded).toHaveBeenCalled();
+      expect(callbacks.onRender).toHaveBeenCalled();
+    });
+
+    it('should undo the whole import in one step', () => {
+      fileManager.importSVGText(svg);
+      history.undo();
+
+      expect(curveManager.getAllCurves()).toHaveLength(1);
+    });
+
+    it('should throw on malformed path data', () => {
+      expect(() =>
+        fileManager.importSVGText(
+          '<svg xmlns="http://www.w3.org/2000/svg"><path d="M 0 0 L 5"/></svg>'
+        )
+      ).toThrow('Expected a number');
+      expect(curveManager.getAllCurves()).toHaveLength(1);
+    });
+
+    describe('from a file', () => {
+      beforeEach(() => {
+        document.body.innerHTML = `
+          <div id="file-error-dialog">
+            <span id="file-error-title"></span>
+            <ul id="file-error-list"></ul>
+          </div>
+        `;
+      });
+
+      // Picks the file in the file input importSVG opens
+      const pickFile = (content: string) => {
+        fileManager.importSVG();
+        const input = vi
+          .mocked(document.createElement)
+          .mock.results.map(result => result.value)
+          .find(element => element instanceof HTMLInputElement) as HTMLInputElement;
+        const file = new File([content], 'drawing.svg', { type: 'image/svg+xml' });
+        input.onchange!({ target: { files: [file] } } as unknown as Event);
+      };
+
+      it('should report how many curves were imported', async () => {
+        pickFile(svg);
+
+        await vi.waitFor(() =>
+          expect(callbacks.onShowNotification).toHaveBeenCalledWith('Imported 3 curves', 'success')
+        );
+      });
+
+      it('should explain when no path draws anything', async () => {
+        pickFile('<svg xmlns="http://www.w3.org/2000/svg"><path d="M 0 0 M 10 10"/></svg>');
+
+        await vi.waitFor(() =>
+          expect(document.getElementById('file-error-dialog')!.classList.contains('open')).toBe(
+            true
+          )
+        );
+        expect(document.getElementById('file-error-title')!.textContent).toBe(
+          'Could not import drawing.svg'
+        );
+        expect(document.getElementById('file-error-list')!.textContent).toContain(
+          'no drawable paths'
+        );
+        expect(callbacks.onShowNotification).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('loadJSONText', () => {
+    const curves = [
+      { id: 'first', color: '#4a9eff', points: [{ x: 10, y: 20 }] },
+      {
+        id: 'second',
+        color: '#ff6b6b',
+        points: [
+          { x: 30, y: 40 },
+          { x: 50, y: 60 },
+        ],
+      },
+    ];
+
+    it('should load an unversioned file with the default view', () => {
+      const errors = fileManager.loadJSONText(JSON.stringify({ curves }));
+
+      expect(errors).toEqual([]);
+      expect(curveManager.getAllCurves()).toEqual(curves);
+      expect(curveManager.getActiveCurve()!.id).toBe('first');
+      expect(callbacks.onApplyViewSettings).toHaveBeenCalledWith({
+        visualizationMode: 'default',
+        t: 0,
+        showBounds: false,
+        showBasis: false,
+      });
+      expect(callbacks.onRender).toHaveBeenCalled();
+    });
+
+    it('should restore the active curve and view of a versioned file', () => {
+      const view = { visualizationMode: 'curvature', t: 0.75, showBounds: true, showBasis: true };
+      const json = JSON.stringify({
+        version: 1,
+        curves,
+        activeCurveId: 'second',
+        view,
+        metadata: { generator: 'bezier' },
+      });
+
+      expect(fileManager.loadJSONText(json)).toEqual([]);
+      expect(curveManager.getActiveCurve()!.id).toBe('second');
+      expect(callbacks.onApplyViewSettings).toHaveBeenCalledWith(view);
+    });
+
+    it('should undo the load in one step', () => {
+      fileManager.loadJSONText(JSON.stringify({ curves }));
+      history.undo();
+
+      expect(curveManager.getAllCurves()).toHaveLength(1);
+      expect(curveManager.getActiveCurvePoints()).toEqual([]);
+    });
+
+    it('should keep the creation date when saving again', async () => {
+      const json = JSON.stringify({
+        version: 1,
+        curves,
+        activeCurveId: null,
+        view: { visualizationMode: 'default', t: 0, showBounds: false, showBasis: false },
+        metadata: { generator: 'bezier', createdAt: '2026-01-02T03:04:05.000Z' },
+      });
+      fileManager.loadJSONText(json);
+
+      fileManager.saveToJSON();
+
+      const blob = vi.mocked(global.URL.createObjectURL).mock.calls[0][0] as Blob;
+      expect(JSON.parse(await blob.text()).metadata.createdAt).toBe('2026-01-02T03:04:05.000Z');
+    });
+
+    it('should return the errors and leave the curves alone', () => {
+      const broken = [curves[0], { ...curves[1], points: [{ x: 30, y: null }] }];
+      const before = curveManager.getAllCurves();
+
+      const errors = fileManager.loadJSONText(JSON.stringify({ curves: broken }));
+
+      expect(errors).toEqual(['curves[1].points[0].y is not a number']);
+      expect(curveManager.getAllCurves()).toEqual(before);
+      expect(history.canUndo()).toBe(false);
+      expect(callbacks.onApplyViewSettings).not.toHaveBeenCalled();
+    });
+
+    it('should report invalid JSON', () => {
+      const errors = fileManager.loadJSONText('{ "curves": [');
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toContain('not valid JSON');
+    });
+  });
+
+  describe('error dialog', () => {
+    beforeEach(() => {
+      document.body.innerHTML = `
+        <div id="file-error-dialog">
+          <span id="file-error-title"></span>
+          <ul id="file-error-list"></ul>
+          <button id="file-error-close"></button>
+        </div>
+      `;
+      fileManager = new FileManager(curveManager, interaction, history, callbacks);
+    });
+
+    const getDialog = () => document.getElementById('file-error-dialog')!;
+    const getItems = () =>
+      Array.from(document.querySelectorAll('#file-error-list li')).map(li => li.textContent);
+
+    it('should list the errors under the title', () => {
+      fileManager.showErrorDialog('Could not load test.json', ['first', 'second']);
+
+      expect(getDialog().classList.contains('open')).toBe(true);
+      expect(document.getElementById('file-error-title')!.textContent).toBe(
+        'Could not load test.json'
+      );
+      expect(getItems()).toEqual(['first', 'second']);
+    });
+
+    it('should cut long lists short', () => {
+      const errors = Array.from({ length: 60 }, (_, i) => `error ${i}`);
+
+      fileManager.showErrorDialog('Could not load test.json', errors);
+
+      expect(getItems()).toHaveLength(51);
+      expect(getItems()[50]).toBe('…and 10 more');
+    });
+
+    it('should replace the errors listed before', () => {
+      fileManager.showErrorDialog('First', ['old']);
+      fileManager.showErrorDialog('Second', ['new']);
+
+      expect(getItems()).toEqual(['new']);
+    });
+
+    it('should close with the button or Escape', () => {
+      fileManager.showErrorDialog('Title', ['error']);
+      document.getElementById('file-error-close')!.click();
+
+      expect(getDialog().classList.contains('open')).toBe(false);
+
+      fileManager.showErrorDialog('Title', ['error']);
+      document.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }));
+
+      expect(getDialog().classList.contains('open')).toBe(false);
+    });
+  });
+
   describe('loading JSON data', () => {
     it('should load valid curves JSON', async () => {
       const validJSON = JSON.stringify({
@@ -307,7 +808,7 @@ describe('FileManager', () => {
       const addEventListenerSpy = vi.spyOn(appContainer!, 'addEventListener');
 
       // Create new instance to trigger setup
-      new FileManager(curveManager, interaction, canvas, history, callbacks);
+      new FileManager(curveManager, interaction, history, callbacks);
 
       expect(addEventListenerSpy).toHaveBeenCalledWith('dragenter', expect.any(Function));
       expect(addEventListenerSpy).toHaveBeenCalledWith('dragleave', expect.any(Function));
@@ -320,7 +821,7 @@ describe('FileManager', () => {
 
       // Should not throw when elements are missing
       expect(() => {
-        new FileManager(curveManager, interaction, canvas, history, callbacks);
+        new FileManager(curveManager, interaction, history, callbacks);
       }).not.toThrow();
     });
 
@@ -117,6 +117,83 @@ describe('StateManager', () => {
 
       expect(curveManager.getActiveCurvePoints()).toEqual(initialPoints);
     });
+
+    it('should snap splits to a nearby crossing', () => {
+      curveManager.setActiveCurvePoints([
+        { x: 0, y: 0 },
+        { x: 100, y: 100 },
+      ]);
+      const crossedId = curveManager.getActiveCurve()!.id;
+      curveManager.addCurve();
+      curveManager.setActiveCurvePoints([
+        { x: 0, y: 100 },
+        { x: 100, y: 0 },
+      ]);
+
+      stateManager.syncCurveWithInteraction({ type: 'split', point: { x: 52, y: 51 } });
+
+      const crossed = curveManager.getAllCurves().find(c => c.id === crossedId)!;
+      expect(curveManager.getAllCurves()).toHaveLength(3);
+      expect(crossed.points[1].x).toBeCloseTo(50, 6);
+      expect(crossed.points[1].y).toBeCloseTo(50, 6);
+    });
+
+    it('should add knots with derived handles to an interpolating curve', () => {
+      curveManager.getActiveCurve()!.kind = 'interpolating';
+
+      stateManager.syncCurveWithInteraction({ type: 'add', point: { x: 0, y: 0 } });
+      stateManager.syncCurveWithInteraction({ type: 'add', point: { x: 90, y: 30 } });
+
+      expect(curveManager.getActiveCurvePoints()).toEqual([
+        { x: 0, y: 0 },
+        { x: 30, y: 10 },
+        { x: 60, y: 20 },
+        { x: 90, y: 30 },
+      ]);
+      expect(interaction.getPoints()).toHaveLength(4);
+
+      stateManager.syncCurveWithInteraction({ type: 'remove', point: { x: 0, y: 0 }, index: 0 });
+
+      expect(curveManager.getActiveCurvePoints()).toEqual([{ x: 90, y: 30 }]);
+    });
+
+    it('should add a sketched stroke as one cubic spline', () => {
+      const path = Array.from({ length: 41 }, (_, i) => ({
+        x: i * 5,
+        y: 100 + 40 * Math.sin(i / 6),
+      }));
+      const before = curveManager.getAllCurves().length;
+
+      stateManager.syncCurveWithInteraction({ type: 'sketch', point: path[0], path });
+
+      const curves = curveManager.getAllCurves();
+      const sketched = curveManager.getActiveCurve()!;
+      expect(curves).toHaveLength(before + 1);
+      expect(sketched).toBe(curves[curves.length - 1]);
+      expect(sketched.kind).toBe('spline');
+      expect(sketched.segmentDegree).toBe(3);
+      expect((sketched.points.length - 1) % 3).toBe(0);
+      expect(sketched.points[0]).toEqual(path[0]);
+      expect(sketched.points[sketched.points.length - 1]).toEqual(path[path.length - 1]);
+      expect(interaction.getPoints()).toEqual(sketched.points);
+
+      stateManager.undo();
+
+      expect(curveManager.getAllCurves()).toHaveLength(before);
+    });
+
+    it('should ignore a sketch too short to fit', () => {
+      const before = curveManager.getAllCurves().length;
+
+      stateManager.syncCurveWithInteraction({
+        type: 'sketch',
+        point: { x: 5, y: 5 },
+        path: [{ x: 5, y: 5 }],
+      });
+
+      expect(curveManager.getAllCurves()).toHaveLength(before);
+      expect(history.canUndo()).toBe(false);
+    });
   });
 
   describe('syncStateFromHistory', () => {
@@ -183,6 +260,18 @@ describe('StateManager', () => {
       expect(interaction.getPoints()).toEqual(curveManager.getActiveCurvePoints());
     });
 
+    it('should commit a pending wheel weight before undoing', () => {
+      const commitWeight = vi.spyOn(interaction, 'commitWeight');
+      const executeUndo = vi.spyOn(history, 'undo');
+
+      stateManager.undo();
+
+      expect(commitWeight).toHaveBeenCalled();
+      expect(commitWeight.mock.invocationCallOrder[0]).toBeLessThan(
+        executeUndo.mock.invocationCallOrder[0]
+      );
+    });
+
     it('should do nothing if nothing to undo', () => {
       const initialPoints = curveManager.getActiveCurvePoints();
       onRender.mockClear();
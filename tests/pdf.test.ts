@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import { exportCurvesToPDF } from '../src/pdf';
+import { BezierCurve, Point } from '../src/types';
+
+const curve = (id: string, color: string, points: Point[]): BezierCurve => ({
+  id,
+  color,
+  points,
+});
+
+const arch = curve('arch', '#4a9eff', [
+  { x: 0, y: 0 },
+  { x: 0, y: 100 },
+  { x: 100, y: 100 },
+  { x: 100, y: 0 },
+]);
+const line = curve('line', '#ff0000', [
+  { x: 200, y: 0 },
+  { x: 300, y: 50 },
+]);
+
+const getStream = (pdf: string) =>
+  pdf.slice(pdf.indexOf('stream\n') + 7, pdf.indexOf('\nendstream'));
+const countOperator = (stream: string, operator: string) =>
+  stream.split('\n').filter(line => line.endsWith(` ${operator}`) || line === operator).length;
+
+describe('pdf', () => {
+  describe('exportCurvesToPDF', () => {
+    it('should write a well-formed single page PDF', () => {
+      const { pdf } = exportCurvesToPDF([arch]);
+
+      expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+      expect(pdf.endsWith('%%EOF\n')).toBe(true);
+
+      // Every cross-reference entry points at its object
+      const xref = Number(pdf.match(/startxref\n(\d+)/)![1]);
+      expect(pdf.slice(xref, xref + 4)).toBe('xref');
+      const offsets = [...pdf.matchAll(/^(\d{10}) 00000 n $/gm)].map(match => Number(match[1]));
+      expect(offsets).toHaveLength(4);
+      offsets.forEach((offset, i) => {
+        expect(pdf.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true);
+      });
+
+      const length = Number(pdf.match(/\/Length (\d+)/)![1]);
+      expect(getStream(pdf)).toHaveLength(length);
+    });
+
+    it('should crop the page to the content and flip it upright', () => {
+      const { pdf } = exportCurvesToPDF([arch, line]);
+
+      // The arch peaks at y = 75; the 3pt stroke adds half its width on every side
+      expect(pdf).toContain('/MediaBox [0 0 324 99]');
+      expect(getStream(pdf).startsWith('1 0 0 -1 12 87 cm')).toBe(true);
+    });
+
+    it('should stroke each curve in its color with native operators', () => {
+      const { pdf, error } = exportCurvesToPDF([arch, line], { strokeWidth: 1.5 });
+      const stream = getStream(pdf);
+
+      expect(stream).toContain('0.29 0.62 1 RG\n1.5 w\n0 0 m\n0 100 100 100 100 0 c\nS');
+      expect(stream).toContain('1 0 0 RG\n1.5 w\n200 0 m\n300 50 l\nS');
+      expect(error).toBe(0);
+    });
+
+    it('should elevate quadratics to cubics exactly', () => {
+      const quadratic = curve('q', '#000', [
+        { x: 0, y: 0 },
+        { x: 30, y: 60 },
+        { x: 60, y: 0 },
+      ]);
+
+      expect(getStream(exportCurvesToPDF([quadratic]).pdf)).toContain('0 0 m\n20 40 40 40 60 0 c');
+    });
+
+    it('should approximate rational curves with cubics within the tolerance', () => {
+      const rational = curve('r', '#000', [
+        { x: 0, y: 0 },
+        { x: 50, y: 100, weight: 4 },
+        { x: 100, y: 0 },
+      ]);
+      const { pdf, error } = exportCurvesToPDF([rational], { tolerance: 0.2 });
+
+      expect(error).toBeGreaterThan(0);
+      expect(error).toBeLessThanOrEqual(0.2);
+      expect(countOperator(getStream(pdf), 'c')).toBeGreaterThan(1);
+    });
+
+    it('should return nothing without a drawable curve', () => {
+      expect(exportCurvesToPDF([curve('dot', '#fff', [{ x: 5, y: 5 }])])).toEqual({
+        pdf: '',
+        error: 0,
+      });
+    });
+
+    describe('overlays', () => {
+      const fills = (pdf: string) => countOperator(getStream(pdf), 'f');
+
+      it('should add the control polygon and points of the overlay curve', () => {
+        const { pdf } = exportCurvesToPDF([arch, line], {
+          overlay: { curveId: 'arch', mode: 'default', t: 0 },
+        });
+
+        expect(getStream(pdf)).toContain('0 0 m\n0 100 l\n100 100 l\n100 0 l\nS');
+        expect(fills(pdf)).toBe(4);
+      });
+
+      it("should draw de Casteljau's construction at t", () => {
+        const { pdf } = exportCurvesToPDF([arch], {
+          overlay: { curveId: 'arch', mode: 'decasteljau', t: 0.5 },
+        });
+
+        // Four control points plus 3 + 2 + 1 constructed points
+        expect(fills(pdf)).toBe(10);
+        expect(getStream(pdf)).toContain('0 50 m\n50 100 l\n100 50 l\nS');
+      });
+
+      it('should leave the construction out at t = 0, like the canvas', () => {
+        const { pdf } = exportCurvesToPDF([arch], {
+          overlay: { curveId: 'arch', mode: 'decasteljau', t: 0 },
+        });
+
+        expect(fills(pdf)).toBe(4);
+      });
+
+      it('should draw de Boor levels for B-splines', () => {
+        const bspline: BezierCurve = {
+          ...curve('b', '#4aff9e', [
+            { x: 0, y: 0 },
+            { x: 50, y: 100 },
+            { x: 100, y: 0 },
+            { x: 150, y: 100 },
+            { x: 200, y: 0 },
+          ]),
+          kind: 'bspline',
+          degree: 3,
+        };
+        const { pdf } = exportCurvesToPDF([bspline], {
+          overlay: { curveId: 'b', mode: 'deboor', t: 0.25 },
+        });
+
+        expect(fills(pdf)).toBe(5 + 3 + 2 + 1);
+      });
+
+      it('should draw the curvature comb and the velocity vector', () => {
+        const comb = exportCurvesToPDF([arch], {
+          overlay: { curveId: 'arch', mode: 'curvature', t: 0.5 },
+        });
+        const velocity = exportCurvesToPDF([arch], {
+          overlay: { curveId: 'arch', mode: 'hodograph', t: 0 },
+        });
+
+        // One tooth per sample plus the line through their tips
+        expect(countOperator(getStream(comb.pdf), 'S')).toBe(1 + 1 + 49 + 1);
+        // The velocity at t = 0 ends on the second control point
+        expect(getStream(velocity.pdf)).toContain('1 0.29 0.29 RG\n2 w\n0 0 m\n0 100 l\nS');
+      });
+    });
+  });
+});
@@ -0,0 +1,291 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getCurveSegments,
+  locateSegment,
+  evaluateCurve,
+  getJointCount,
+  getJointAtPoint,
+  getJointContinuity,
+  getNextContinuity,
+  constrainSplineDrag,
+  enforceJointContinuity,
+  splitCurve,
+  getCurveExtrema,
+  getCurveBounds,
+  projectOntoCurve,
+  getCurveBasis,
+  evaluateCurveMany,
+} from '../src/spline';
+import { BezierCurve, Point } from '../src/types';
+
+const createSpline = (points: Point[], overrides: Partial<BezierCurve> = {}): BezierCurve => ({
+  id: 'spline',
+  color: '#4a9eff',
+  kind: 'spline',
+  segmentDegree: 3,
+  points: points.map(p => ({ ...p })),
+  ...overrides,
+});
+
+// Two cubic segments joined at (100, 0)
+const twoSegments: Point[] = [
+  { x: 0, y: 0 },
+  { x: 30, y: 50 },
+  { x: 70, y: 50 },
+  { x: 100, y: 0 },
+  { x: 130, y: -50 },
+  { x: 170, y: -50 },
+  { x: 200, y: 0 },
+];
+
+describe('spline', () => {
+  describe('getCurveSegments', () => {
+    it('should return a plain Bezier curve as one segment', () => {
+      const curve: BezierCurve = { id: 'c', color: '#4a9eff', points: twoSegments };
+      expect(getCurveSegments(curve)).toEqual([twoSegments]);
+    });
+
+    it('should return no segments for fewer than 2 points', () => {
+      expect(getCurveSegments(createSpline([{ x: 0, y: 0 }]))).toEqual([]);
+    });
+
+    it('should split a cubic spline into segments sharing their endpoints', () => {
+      const segments = getCurveSegments(createSpline(twoSegments));
+      expect(segments).toHaveLength(2);
+      expect(segments[0]).toEqual(twoSegments.slice(0, 4));
+      expect(segments[1]).toEqual(twoSegments.slice(3, 7));
+    });
+
+    it('should keep trailing points as a lower-degree segment', () => {
+      const segments = getCurveSegments(createSpline(twoSegments.slice(0, 6)));
+      expect(segments).toHaveLength(2);
+      expect(segments[1]).toHaveLength(3);
+    });
+
+    it('should split a quadratic spline every two points', () => {
+      const segments = getCurveSegments(
+        createSpline(twoSegments.slice(0, 5), { segmentDegree: 2 })
+      );
+      expect(segments).toHaveLength(2);
+      expect(segments[1]).toEqual(twoSegments.slice(2, 5));
+    });
+  });
+
+  describe('locateSegment and evaluateCurve', () => {
+    it('should map t onto the matching segment', () => {
+      const located = locateSegment(createSpline(twoSegments), 0.75);
+      expect(located?.index).toBe(1);
+      expect(located?.t).toBeCloseTo(0.5);
+    });
+
+    it('should evaluate the joint and the ends', () => {
+      const curve = createSpline(twoSegments);
+      expect(evaluateCurve(curve, 0)).toEqual({ x: 0, y: 0 });
+      expect(evaluateCurve(curve, 0.5)).toEqual({ x: 100, y: 0 });
+      expect(evaluateCurve(curve, 1)).toEqual({ x: 200, y: 0 });
+    });
+
+    it('should return null for an empty curve', () => {
+      expect(evaluateCurve(createSpline([]), 0.5)).toBeNull();
+    });
+
+    it('should evaluate many ts in order across segments', () => {
+      const curve = createSpline(twoSegments);
+      const ts = [0.9, 0, 0.25, 0.5, 0.6, 1];
+
+      evaluateCurveMany(curve, ts).forEach((point, i) => {
+        const expected = evaluateCurve(curve, ts[i])!;
+        expect(point.x).toBeCloseTo(expected.x, 9);
+        expect(point.y).toBeCloseTo(expected.y, 9);
+      });
+      expect(evaluateCurveMany(createSpline([]), ts)).toEqual([]);
+    });
+  });
+
+  describe('joints', () => {
+    it('should count interior joints only', () => {
+      expect(getJointCount(createSpline(twoSegments))).toBe(1);
+      expect(getJointCount(createSpline(twoSegments.slice(0, 4)))).toBe(0);
+      expect(getJointCount({ id: 'c', color: '#4a9eff', points: twoSegments })).toBe(0);
+    });
+
+    it('should find the joint at an anchor point', () => {
+      const curve = createSpline(twoSegments);
+      expect(getJointAtPoint(curve, 3)).toBe(0);
+      expect(getJointAtPoint(curve, 0)).toBeNull();
+      expect(getJointAtPoint(curve, 2)).toBeNull();
+      expect(getJointAtPoint(curve, 6)).toBeNull();
+    });
+
+    it('should default to G1 and cycle through the settings', () => {
+      expect(getJointContinuity(createSpline(twoSegments), 0)).toBe('G1');
+      expect(getNextContinuity('C0')).toBe('C1');
+      expect(getNextContinuity('C1')).toBe('G1');
+      expect(getNextContinuity('G1')).toBe('C0');
+    });
+  });
+
+  describe('constrainSplineDrag', () => {
+    it('should mirror the opposite handle at a C1 joint', () => {
+      const curve = createSpline(twoSegments, { continuity: ['C1'] });
+      const points = curve.points;
+      const previous = points[2];
+      points[2] = { x: 60, y: 20 };
+
+      constrainSplineDrag(curve, points, 2, previous);
+
+      expect(points[4]).toEqual({ x: 140, y: -20 });
+    });
+
+    it('should keep the opposite handle length at a G1 joint', () => {
+      const curve = createSpline(twoSegments, { continuity: ['G1'] });
+      const points = curve.points;
+      const previous = points[2];
+      points[2] = { x: 90, y: 0 };
+
+      constrainSplineDrag(curve, points, 2, previous);
+
+      expect(points[4].x).toBeCloseTo(100 + Math.hypot(30, 50));
+      expect(points[4].y).toBeCloseTo(0);
+    });
+
+    it('should leave the opposite handle alone at a C0 joint', () => {
+      const curve = createSpline(twoSegments, { continuity: ['C0'] });
+      const points = curve.points;
+      const previous = points[2];
+      points[2] = { x: 60, y: 20 };
+
+      constrainSplineDrag(curve, points, 2, previous);
+
+      expect(points[4]).toEqual(twoSegments[4]);
+    });
+
+    it('should carry cubic handles along with their anchor', () => {
+      const curve = createSpline(twoSegments);
+      const points = curve.points;
+      const previous = points[3];
+      points[3] = { x: 110, y: 10 };
+
+      constrainSplineDrag(curve, points, 3, previous);
+
+      expect(points[2]).toEqual({ x: 80, y: 60 });
+      expect(points[4]).toEqual({ x: 140, y: -40 });
+    });
+
+    it('should ripple through quadratic joints until a C0 joint', () => {
+      const points: Point[] = [
+        { x: 0, y: 0 },
+        { x: 50, y: 50 },
+        { x: 100, y: 0 },
+        { x: 150, y: -50 },
+        { x: 200, y: 0 },
+        { x: 250, y: 50 },
+        { x: 300, y: 0 },
+      ];
+      const curve = createSpline(points, { segmentDegree: 2, continuity: ['C1', 'C1'] });
+      const previous = curve.points[1];
+      curve.points[1] = { x: 50, y: 20 };
+
+      constrainSplineDrag(curve, curve.points, 1, previous);
+
+      expect(curve.points[3]).toEqual({ x: 150, y: -20 });
+      expect(curve.points[5]).toEqual({ x: 250, y: 20 });
+    });
+  });
+
+  describe('enforceJointContinuity', () => {
+    it('should realign the outgoing handle', () => {
+      const points = twoSegments.map(p => ({ ...p }));
+      points[4] = { x: 100, y: 80 };
+      const curve = createSpline(points, { continuity: ['C1'] });
+
+      enforceJointContinuity(curve, curve.points, 0);
+
+      expect(curve.points[4]).toEqual({ x: 130, y: -50 });
+    });
+  });
+
+  describe('extrema and bounds', () => {
+    it('should map segment extrema onto the curve-wide t', () => {
+      const extrema = getCurveExtrema(createSpline(twoSegments));
+      expect(extrema.map(e => e.t)).toEqual([expect.closeTo(0.25, 10), expect.closeTo(0.75, 10)]);
+      expect(extrema.map(e => e.point.y)).toEqual([
+        expect.closeTo(37.5, 10),
+        expect.closeTo(-37.5, 10),
+      ]);
+    });
+
+    it('should merge the bounds of every segment', () => {
+      const bounds = getCurveBounds(createSpline(twoSegments))!;
+      expect(bounds.minX).toBe(0);
+      expect(bounds.maxX).toBe(200);
+      expect(bounds.minY).toBeCloseTo(-37.5, 10);
+      expect(bounds.maxY).toBeCloseTo(37.5, 10);
+    });
+  });
+
+  describe('projectOntoCurve', () => {
+    it('should project onto the closest segment in curve-wide t', () => {
+      const projection = projectOntoCurve(createSpline(twoSegments), { x: 150, y: -50 })!;
+      expect(projection.t).toBeCloseTo(0.75, 6);
+      expect(projection.point.y).toBeCloseTo(-37.5, 6);
+      expect(projection.distance).toBeCloseTo(12.5, 6);
+    });
+
+    it('should return null for curves without segments', () => {
+      expect(projectOntoCurve(createSpline([{ x: 0, y: 0 }]), { x: 0, y: 0 })).toBeNull();
+    });
+  });
+
+  describe('getCurveBasis', () => {
+    it('should only weigh the control points of the segment t falls in', () => {
+      const basis = getCurveBasis(createSpline(twoSegments), 0.75);
+
+      expect(basis.slice(0, 3)).toEqual([0, 0, 0]);
+      expect(basis.slice(3)).toEqual([0.125, 0.375, 0.375, 0.125]);
+    });
+
+    it('should give a single point all the weight', () => {
+      expect(getCurveBasis(createSpline([{ x: 0, y: 0 }]), 0.5)).toEqual([1]);
+    });
+  });
+
+  describe('splitCurve', () => {
+    it('should split a plain Bezier curve and keep the id on the first piece', () => {
+      const curve: BezierCurve = { id: 'c', color: '#4a9eff', points: twoSegments.slice(0, 4) };
+      const pieces = splitCurve(curve, 0.5, 'new');
+
+      expect(pieces).not.toBeNull();
+      const [first, second] = pieces!;
+      expect(first.id).toBe('c');
+      expect(second.id).toBe('new');
+      expect(second.color).toBe('#4a9eff');
+      expect(first.points).toHaveLength(4);
+      expect(first.points[3]).toEqual(second.points[0]);
+    });
+
+    it('should refuse to split at the ends', () => {
+      const curve = createSpline(twoSegments);
+      expect(splitCurve(curve, 0, 'new')).toBeNull();
+      expect(splitCurve(curve, 1, 'new')).toBeNull();
+    });
+
+    it('should keep whole segments and distribute the joint settings', () => {
+      const threeSegments = [
+        ...twoSegments,
+        { x: 230, y: 50 },
+        { x: 270, y: 50 },
+        { x: 300, y: 0 },
+      ];
+      const curve = createSpline(threeSegments, { continuity: ['C0', 'C1'] });
+      const [first, second] = splitCurve(curve, 0.5, 'new')!;
+
+      expect(first.kind).toBe('spline');
+      expect(first.points).toHaveLength(7);
+      expect(first.continuity).toEqual(['C0']);
+      expect(second.points).toHaveLength(7);
+      expect(second.continuity).toEqual(['C1']);
+      expect(second.points[6]).toEqual({ x: 300, y: 0 });
+    });
+  });
+});
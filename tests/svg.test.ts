@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import { exportCurvesToSVG, exportStrokeOutlineToSVG } from '../src/svg';
+import { interpolateKnots } from '../src/interpolation';
+import { BezierCurve, Point } from '../src/types';
+
+const curve = (id: string, color: string, points: Point[]): BezierCurve => ({
+  id,
+  color,
+  points,
+});
+
+const arch = curve('arch', '#4a9eff', [
+  { x: 0, y: 0 },
+  { x: 0, y: 100 },
+  { x: 100, y: 100 },
+  { x: 100, y: 0 },
+]);
+const line = curve('line', '#ff4a9e', [
+  { x: 200, y: 0 },
+  { x: 300, y: 50 },
+]);
+
+describe('svg', () => {
+  describe('exportCurvesToSVG', () => {
+    it('should export every curve as its own path in its own color', () => {
+      const { svg, error } = exportCurvesToSVG([arch, line]);
+
+      expect(svg.match(/<path /g)).toHaveLength(2);
+      expect(svg).toContain('stroke="#4a9eff"');
+      expect(svg).toContain('stroke="#ff4a9e"');
+      expect(svg).toContain('d="M 200 0 L 300 50"');
+      expect(svg).not.toContain(' id="arch"');
+      expect(error).toBe(0);
+    });
+
+    it('should fit the viewBox to the content', () => {
+      const { svg } = exportCurvesToSVG([arch, line]);
+
+      // The arch peaks at y = 75, well inside its control polygon
+      expect(svg).toContain('viewBox="-10 -10 320 95"');
+      expect(svg).toContain('width="320" height="95"');
+    });
+
+    it('should skip curves without a segment', () => {
+      const dot = curve('dot', '#fff', [{ x: 500, y: 500 }]);
+      const { svg } = exportCurvesToSVG([arch, dot]);
+
+      expect(svg.match(/<path /g)).toHaveLength(1);
+      expect(exportCurvesToSVG([curve('empty', '#fff', [])]).svg).toBe('');
+      expect(exportCurvesToSVG([dot]).svg).toBe('');
+    });
+
+    it('should write a well-formed SVG document', () => {
+      const { svg } = exportCurvesToSVG([line]);
+
+      expect(svg).toMatch(/^<svg [^>]*xmlns="http:\/\/www\.w3\.org\/2000\/svg">/);
+      expect(svg).toContain('fill="none"');
+      expect(svg).toContain('stroke-width="2"');
+      expect(svg.endsWith('</svg>')).toBe(true);
+    });
+
+    it('should keep quadratic and cubic curves as they are', () => {
+      const quadratic = curve('q', '#fff', [
+        { x: 0, y: 0 },
+        { x: 50, y: 100 },
+        { x: 100, y: 0 },
+      ]);
+
+      expect(exportCurvesToSVG([quadratic]).svg).toContain('d="M 0 0 Q 50 100 100 0"');
+      expect(exportCurvesToSVG([arch]).svg).toContain('d="M 0 0 C 0 100 100 100 100 0"');
+    });
+
+    it('should approximate higher-degree and rational curves with cubics', () => {
+      const quintic = curve('quintic', '#fff', [
+        { x: 0, y: 0 },
+        { x: 20, y: 50 },
+        { x: 40, y: 50 },
+        { x: 60, y: 50 },
+        { x: 80, y: 50 },
+        { x: 100, y: 0 },
+      ]);
+      const quarterCircle = curve('circle', '#fff', [
+        { x: 100, y: 0 },
+        { x: 100, y: 100, weight: Math.SQRT1_2 },
+        { x: 0, y: 100 },
+      ]);
+
+      for (const approximated of [quintic, quarterCircle]) {
+        const { svg } = exportCurvesToSVG([approximated]);
+        expect(svg).toContain(' C ');
+        expect(svg).not.toContain(' Q ');
+        expect(svg).not.toContain(' L ');
+      }
+    });
+
+    it('should add ids and escape attribute values', () => {
+      const { svg } = exportCurvesToSVG([curve('a"b', 'red', line.points)], { includeIds: true });
+
+      expect(svg).toContain('<path id="a&quot;b"');
+    });
+
+    it('should put control polygons and points in their own layers', () => {
+      const { svg } = exportCurvesToSVG([arch, line], {
+        includeControlPolygons: true,
+        includeControlPoints: true,
+      });
+
+      expect(svg).toContain('<g id="curves">');
+      expect(svg).toContain('<g id="control-polygons">');
+      expect(svg).toContain('d="M 0 0 L 0 100 L 100 100 L 100 0"');
+      expect(svg).toContain('<g id="control-points">');
+      expect(svg.match(/<circle /g)).toHaveLength(6);
+      // The control points widen the view to y = 100
+      expect(svg).toContain('viewBox="-10 -10 320 120"');
+    });
+
+    it('should draw interpolating curve handles as sticks out of their knots', () => {
+      const points = interpolateKnots([
+        { x: 0, y: 0 },
+        { x: 60, y: 60 },
+        { x: 120, y: 0 },
+      ]);
+      const { svg } = exportCurvesToSVG(
+        [{ ...curve('c', '#4aff9e', points), kind: 'interpolating' }],
+        { includeControlPolygons: true }
+      );
+
+      expect(svg).toContain('M 0 0 L 20 20 M 60 60 L 40 60 M 60 60 L 80 60 M 120 0 L 100 20');
+    });
+
+    it('should report the error of curves approximated with cubics', () => {
+      const zigzag = curve(
+        'zigzag',
+        '#fff',
+        Array.from({ length: 8 }, (_, i) => ({ x: i * 50, y: i % 2 === 0 ? 0 : 200 }))
+      );
+      const { svg, error } = exportCurvesToSVG([arch, zigzag], { tolerance: 0.3 });
+
+      expect(svg).toContain(' C ');
+      expect(error).toBeGreaterThan(0);
+      expect(error).toBeLessThanOrEqual(0.3);
+    });
+  });
+
+  describe('exportStrokeOutlineToSVG', () => {
+    it('should export the outline as a filled, closed path in the curve color', () => {
+      const svg = exportStrokeOutlineToSVG(arch, { width: 20, join: 'round', cap: 'butt' });
+
+      expect(svg).toContain('fill="#4a9eff"');
+      expect(svg).not.toContain('stroke=');
+      expect(svg).toMatch(/d="M [^"]+ Z"/);
+      // Butt caps end flush with the arch's feet, so only x grows by the half-width
+      expect(svg).toContain('viewBox="-20 -10 140 105"');
+    });
+
+    it('should escape the color', () => {
+      const svg = exportStrokeOutlineToSVG(curve('q', '"red"', line.points), {
+        width: 4,
+        join: 'miter',
+        cap: 'butt',
+      });
+
+      expect(svg).toContain('fill="&quot;red&quot;"');
+    });
+
+    it('should be empty without anything to stroke', () => {
+      const dot = curve('dot', '#fff', [{ x: 0, y: 0 }]);
+
+      expect(exportStrokeOutlineToSVG(dot, { width: 20, join: 'round', cap: 'round' })).toBe('');
+    });
+  });
+});
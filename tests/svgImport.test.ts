@@ -0,0 +1,351 @@
+import { describe, it, expect } from 'vitest';
+import {
+  arcToCubics,
+  parseSVGDocument,
+  parseSVGPathData,
+  parseSVGTransform,
+  subpathToCurve,
+} from '../src/svgImport';
+import { evaluateBezier } from '../src/bezier';
+import { getCurveSegments } from '../src/spline';
+import { Point } from '../src/types';
+
+const expectPointClose = (actual: Point, expected: Point) => {
+  expect(actual.x).toBeCloseTo(expected.x, 6);
+  expect(actual.y).toBeCloseTo(expected.y, 6);
+};
+
+describe('svgImport', () => {
+  describe('parseSVGPathData', () => {
+    it('should parse absolute lines, curves and closepath', () => {
+      const [subpath] = parseSVGPathData(
+        'M 10 10 L 20 10 H 30 V 20 Q 40 30 50 20 C 60 10 70 10 80 20 Z'
+      );
+
+      expect(subpath.closed).toBe(true);
+      expect(subpath.segments).toEqual([
+        [
+          { x: 10, y: 10 },
+          { x: 20, y: 10 },
+        ],
+        [
+          { x: 20, y: 10 },
+          { x: 30, y: 10 },
+        ],
+        [
+          { x: 30, y: 10 },
+          { x: 30, y: 20 },
+        ],
+        [
+          { x: 30, y: 20 },
+          { x: 40, y: 30 },
+          { x: 50, y: 20 },
+        ],
+        [
+          { x: 50, y: 20 },
+          { x: 60, y: 10 },
+          { x: 70, y: 10 },
+          { x: 80, y: 20 },
+        ],
+        [
+          { x: 80, y: 20 },
+          { x: 10, y: 10 },
+        ],
+      ]);
+    });
+
+    it('should resolve relative commands against the current point', () => {
+      const [subpath] = parseSVGPathData('m10 10 l10 0h5v5c0 10 10 10 10 0q5-5 10 0');
+
+      const ends = subpath.segments.map(segment => segment[segment.length - 1]);
+      expect(ends).toEqual([
+        { x: 20, y: 10 },
+        { x: 25, y: 10 },
+        { x: 25, y: 15 },
+        { x: 35, y: 15 },
+        { x: 45, y: 15 },
+      ]);
+      expect(subpath.segments[3][1]).toEqual({ x: 25, y: 25 });
+      expect(subpath.segments[4][1]).toEqual({ x: 40, y: 10 });
+    });
+
+    it('should treat extra moveto pairs as linetos and repeat other commands', () => {
+      const subpaths = parseSVGPathData('M0,0 10,0 m0,10 10,0 L 30 10 40 10');
+
+      // The relative m starts a new subpath; the first one holds a single line
+      expect(subpaths).toHaveLength(2);
+      expect(subpaths[0].segments).toHaveLength(1);
+      expect(subpaths[1].segments.map(segment => segment[1])).toEqual([
+        { x: 20, y: 10 },
+        { x: 30, y: 10 },
+        { x: 40, y: 10 },
+      ]);
+    });
+
+    it('should read numbers without separators', () => {
+      const [subpath] = parseSVGPathData('M-1.5.5L2e1-3');
+
+      expect(subpath.segments[0]).toEqual([
+        { x: -1.5, y: 0.5 },
+        { x: 20, y: -3 },
+      ]);
+    });
+
+    it('should reflect the previous control point for S and T', () => {
+      const [subpath] = parseSVGPathData(
+        'M 0 0 C 0 10 10 10 10 0 S 20 -10 20 0 Q 25 10 30 0 T 40 0'
+      );
+
+      expect(subpath.segments[1][1]).toEqual({ x: 10, y: -10 });
+      expect(subpath.segments[3][1]).toEqual({ x: 35, y: -10 });
+    });
+
+    it('should use the current point as control when S or T follows another command', () => {
+      const [subpath] = parseSVGPathData('M 0 0 L 10 0 S 20 10 30 0 T 40 0');
+
+      expect(subpath.segments[1][1]).toEqual({ x: 10, y: 0 });
+      expect(subpath.segments[2][1]).toEqual({ x: 30, y: 0 });
+    });
+
+    it('should continue from the subpath start after closepath', () => {
+      const subpaths = parseSVGPathData('M 0 0 L 10 0 L 10 10 z l 5 5');
+
+      expect(subpaths).toHaveLength(2);
+      expect(subpaths[0].segments[2]).toEqual([
+        { x: 10, y: 10 },
+        { x: 0, y: 0 },
+      ]);
+      expect(subpaths[1].segments[0]).toEqual([
+        { x: 0, y: 0 },
+        { x: 5, y: 5 },
+      ]);
+    });
+
+    it('should not add a closing line when the path already ends at its start', () => {
+      const [subpath] = parseSVGPathData('M 0 0 L 10 0 L 0 0 Z');
+
+      expect(subpath.segments).toHaveLength(2);
+      expect(subpath.closed).toBe(true);
+    });
+
+    it('should parse compact arc flags', () => {
+      const [subpath] = parseSVGPathData('M0 0a10 10 0 1010 0');
+
+      expect(subpath.segments.length).toBeGreaterThan(1);
+      expect(subpath.segments[subpath.segments.length - 1][3]).toEqual({ x: 10, y: 0 });
+    });
+
+    it('should throw on malformed data', () => {
+      expect(() => parseSVGPathData('L 10 10')).toThrow('moveto');
+      expect(() => parseSVGPathData('M 0 0 X 10 10')).toThrow('Unknown path command');
+      expect(() => parseSVGPathData('M 0 0 L 10')).toThrow('Expected a number');
+      expect(() => parseSVGPathData('M 0 0 A 5 5 0 2 0 10 0')).toThrow('arc flag');
+    });
+
+    it('should return nothing for empty data or a lone moveto', () => {
+      expect(parseSVGPathData('')).toEqual([]);
+      expect(parseSVGPathData('M 10 10')).toEqual([]);
+    });
+  });
+
+  describe('arcToCubics', () => {
+    it('should split a half circle into quarter arcs on the circle', () => {
+      const from = { x: 0, y: 0 };
+      const to = { x: 20, y: 0 };
+      const cubics = arcToCubics(from, 10, 10, 0, false, true, to);
+
+      expect(cubics).toHaveLength(2);
+      expect(cubics[0][0]).toBe(from);
+      expect(cubics[1][3]).toBe(to);
+      // Sweeping clockwise in screen coordinates passes through the top of the circle
+      expectPointClose(cubics[0][3], { x: 10, y: -10 });
+      for (const cubic of cubics) {
+        for (let t = 0; t <= 1; t += 0.125) {
+          const p = evaluateBezier(cubic, t);
+          expect(Math.abs(Math.hypot(p.x - 10, p.y) - 10)).toBeLessThan(0.01);
+        }
+      }
+    });
+
+    it('should pick the arc from the large-arc and sweep flags', () => {
+      const from = { x: 0, y: 0 };
+      const to = { x: 10, y: 10 };
+      const small = arcToCubics(from, 10, 10, 0, false, false, to);
+      const large = arcToCubics(from, 10, 10, 0, true, false, to);
+
+      expect(small).toHaveLength(1);
+      expect(large).toHaveLength(3);
+      // Counterclockwise: the small arc bulges around (0, 10), the large one around (10, 0)
+      expectPointClose(evaluateBezier(small[0], 0.5), {
+        x: 10 - 10 * Math.SQRT1_2,
+        y: 10 * Math.SQRT1_2,
+      });
+    });
+
+    it('should stay on a rotated ellipse', () => {
+      const angle = Math.PI / 6;
+      const center = { x: 50, y: 50 };
+      const onEllipse = (theta: number) => ({
+        x:
+          center.x +
+          30 * Math.cos(theta) * Math.cos(angle) -
+          10 * Math.sin(theta) * Math.sin(angle),
+        y:
+          center.y +
+          30 * Math.cos(theta) * Math.sin(angle) +
+          10 * Math.sin(theta) * Math.cos(angle),
+      });
+      const cubics = arcToCubics(onEllipse(0), 30, 10, 30, true, true, onEllipse(Math.PI * 1.5));
+
+      for (const cubic of cubics) {
+        const p = evaluateBezier(cubic, 0.5);
+        // Back to the ellipse's own frame, where it is (u/30)^2 + (v/10)^2 = 1
+        const dx = p.x - center.x;
+        const dy = p.y - center.y;
+        const u = dx * Math.cos(angle) + dy * Math.sin(angle);
+        const v = -dx * Math.sin(angle) + dy * Math.cos(angle);
+        expect((u / 30) ** 2 + (v / 10) ** 2).toBeCloseTo(1, 3);
+      }
+    });
+
+    it('should scale up radii that cannot reach the end point', () => {
+      const cubics = arcToCubics({ x: 0, y: 0 }, 1, 1, 0, false, true, { x: 20, y: 0 });
+
+      expect(cubics).toHaveLength(2);
+      expectPointClose(cubics[0][3], { x: 10, y: -10 });
+    });
+
+    it('should degrade to a line for a zero radius and to nothing for equal ends', () => {
+      expect(arcToCubics({ x: 0, y: 0 }, 0, 5, 0, false, true, { x: 10, y: 0 })).toEqual([
+        [
+          { x: 0, y: 0 },
+          { x: 10, y: 0 },
+        ],
+      ]);
+      expect(arcToCubics({ x: 5, y: 5 }, 5, 5, 0, false, true, { x: 5, y: 5 })).toEqual([]);
+    });
+  });
+
+  describe('parseSVGDocument', () => {
+    it('should collect the subpaths of every path', () => {
+      const subpaths = parseSVGDocument(`<svg xmlns="http://www.w3.org/2000/svg">
+        <path d="M 0 0 L 10 0"/>
+        <g><path d="M 0 10 L 10 10 M 0 20 L 10 20"/></g>
+      </svg>`);
+
+      expect(subpaths).toHaveLength(3);
+    });
+
+    it('should apply the transforms of paths and their groups', () => {
+      const [subpath] = parseSVGDocument(`<svg xmlns="http://www.w3.org/2000/svg">
+        <g transform="translate(100 50)">
+          <g transform="scale(2)">
+            <path transform="rotate(90)" d="M 0 0 C 10 0 10 10 0 10"/>
+          </g>
+        </g>
+      </svg>`);
+
+      // Rotated a quarter turn, doubled, then moved: (x, y) becomes (100 - 2y, 50 + 2x)
+      [
+        { x: 100, y: 50 },
+        { x: 100, y: 70 },
+        { x: 80, y: 70 },
+        { x: 80, y: 50 },
+      ].forEach((expected, i) => expectPointClose(subpath.segments[0][i], expected));
+    });
+
+    it('should reject documents without paths', () => {
+      expect(() => parseSVGDocument('<svg xmlns="http://www.w3.org/2000/svg"/>')).toThrow(
+        'no <path>'
+      );
+    });
+  });
+
+  describe('parseSVGTransform', () => {
+    const apply = (transform: number[], p: Point): Point => ({
+      x: transform[0] * p.x + transform[2] * p.y + transform[4],
+      y: transform[1] * p.x + transform[3] * p.y + transform[5],
+    });
+
+    it('should read each transform function', () => {
+      expect(parseSVGTransform('matrix(1 2 3 4 5 6)')).toEqual([1, 2, 3, 4, 5, 6]);
+      expect(parseSVGTransform('translate(5)')).toEqual([1, 0, 0, 1, 5, 0]);
+      expect(parseSVGTransform('scale(2,3)')).toEqual([2, 0, 0, 3, 0, 0]);
+      expect(parseSVGTransform('scale(2)')).toEqual([2, 0, 0, 2, 0, 0]);
+      expectPointClose(apply(parseSVGTransform('skewX(45)'), { x: 0, y: 10 }), { x: 10, y: 10 });
+      expectPointClose(apply(parseSVGTransform('skewY(45)'), { x: 10, y: 0 }), { x: 10, y: 10 });
+    });
+
+    it('should rotate about a center', () => {
+      const transform = parseSVGTransform('rotate(180, 50 50)');
+
+      expectPointClose(apply(transform, { x: 0, y: 0 }), { x: 100, y: 100 });
+    });
+
+    it('should apply a list right to left', () => {
+      const transform = parseSVGTransform('translate(10, 0), scale(2)');
+
+      expectPointClose(apply(transform, { x: 1, y: 1 }), { x: 12, y: 2 });
+    });
+
+    it('should treat an empty attribute as the identity', () => {
+      expect(parseSVGTransform('  ')).toEqual([1, 0, 0, 1, 0, 0]);
+    });
+
+    it('should reject what it cannot read', () => {
+      expect(() => parseSVGTransform('perspective(3)')).toThrow('Unsupported transform');
+      expect(() => parseSVGTransform('scale(1 2 3)')).toThrow('Unsupported transform');
+      expect(() => parseSVGTransform('translate(1) oops')).toThrow('"oops"');
+    });
+  });
+
+  describe('subpathToCurve', () => {
+    it('should keep a single segment as a Bezier curve of its degree', () => {
+      const [subpath] = parseSVGPathData('M 0 0 Q 10 10 20 0');
+      const curve = subpathToCurve(subpath, 'id', '#fff');
+
+      expect(curve.kind).toBeUndefined();
+      expect(curve.points).toHaveLength(3);
+    });
+
+    it('should build a quadratic spline when no segment is cubic', () => {
+      const [subpath] = parseSVGPathData('M 0 0 L 10 0 Q 20 0 20 10');
+      const curve = subpathToCurve(subpath, 'id', '#fff');
+
+      expect(curve.kind).toBe('spline');
+      expect(curve.segmentDegree).toBe(2);
+      expect(curve.points).toEqual([
+        { x: 0, y: 0 },
+        { x: 5, y: 0 },
+        { x: 10, y: 0 },
+        { x: 20, y: 0 },
+        { x: 20, y: 10 },
+      ]);
+      expect(curve.continuity).toEqual(['G1']);
+    });
+
+    it('should read the joint continuity off the handles', () => {
+      const [subpath] = parseSVGPathData(
+        'M 0 0 C 0 10 10 10 10 0 S 20 -10 20 0 C 20 -5 30 5 30 0 C 30 -10 40 -10 40 0'
+      );
+      const curve = subpathToCurve(subpath, 'id', '#fff');
+
+      expect(curve.segmentDegree).toBe(3);
+      // Mirrored, then a cusp, then colinear handles of different lengths
+      expect(curve.continuity).toEqual(['C1', 'C0', 'G1']);
+    });
+
+    it('should trace the same shape as the path', () => {
+      const [subpath] = parseSVGPathData('M 0 0 L 10 0 A 5 5 0 0 1 20 0 Q 25 10 30 0');
+      const curve = subpathToCurve(subpath, 'id', '#fff');
+      const segments = getCurveSegments(curve);
+
+      expect(segments).toHaveLength(subpath.segments.length);
+      segments.forEach((segment, i) => {
+        for (const t of [0, 0.3, 0.7, 1]) {
+          expectPointClose(evaluateBezier(segment, t), evaluateBezier(subpath.segments[i], t));
+        }
+      });
+    });
+  });
+});